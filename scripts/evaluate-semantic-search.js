@@ -0,0 +1,57 @@
+#!/usr/bin/env node
+
+/**
+ * Semantic Search Evaluation
+ *
+ * Ranks the held-out conceptual queries in scripts/conceptual-queries.json (worded
+ * without the title or a synonym of the page they expect) with keyword scoring only
+ * and with the semantic blend at several weights and thresholds. Tune
+ * DEFAULT_SEARCH_CONFIG against these queries, not against the ones the tests assert.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { StaticContentSearchService } from '../dist/services/static-content-search.service.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const contentDirectory = process.argv[2] || path.join(__dirname, '..', 'content');
+
+const CONFIGS = [{ semanticWeight: 0 }];
+for (const semanticWeight of [0.5, 1, 1.5, 2]) {
+  for (const minSemanticThreshold of [0.1, 0.2, 0.3, 0.4]) {
+    CONFIGS.push({ semanticWeight, minSemanticThreshold });
+  }
+}
+
+async function evaluate() {
+  const queries = JSON.parse(await fs.readFile(path.join(__dirname, 'conceptual-queries.json'), 'utf-8'));
+  console.log(`🧭 Evaluating ${queries.length} conceptual queries against ${contentDirectory}`);
+
+  for (const config of CONFIGS) {
+    const search = new StaticContentSearchService(contentDirectory, config);
+    let reciprocalRank = 0;
+    let top1 = 0;
+    let top3 = 0;
+    let passageTop1 = 0;
+
+    for (const { query, expected } of queries) {
+      const ids = (await search.searchContent(query, undefined, undefined, 3)).map(result => result.id);
+      const rank = ids.findIndex(id => expected.includes(id));
+      if (rank >= 0) {
+        reciprocalRank += 1 / (rank + 1);
+        top3++;
+        if (rank === 0) top1++;
+      }
+      const [passage] = await search.searchPassages(query);
+      if (passage && expected.includes(passage.id)) passageTop1++;
+    }
+
+    console.log(`${JSON.stringify(config).padEnd(50)} MRR@3 ${(reciprocalRank / queries.length).toFixed(3)}  top 1 ${top1}  top 3 ${top3}  top passage ${passageTop1}`);
+  }
+}
+
+evaluate().catch(error => {
+  console.error('❌ Evaluation failed:', error);
+  process.exit(1);
+});
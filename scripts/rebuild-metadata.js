@@ -0,0 +1,30 @@
+#!/usr/bin/env node
+
+/**
+ * Metadata Rebuild Tool
+ *
+ * Regenerates derived files in content/metadata from the generated markdown
+ */
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { MetadataRebuildService } from '../dist/services/content/metadata-rebuild.service.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const contentDirectory = process.argv[2] || path.join(__dirname, '..', 'content');
+
+async function rebuild() {
+  console.log(`🔄 Rebuilding metadata in ${contentDirectory}`);
+
+  const result = await new MetadataRebuildService().rebuild(contentDirectory);
+
+  console.log(`✅ Processed ${result.sections} sections`);
+  for (const file of result.filesWritten) {
+    console.log(`   - ${path.relative(process.cwd(), file)}`);
+  }
+}
+
+rebuild().catch(error => {
+  console.error('❌ Metadata rebuild failed:', error);
+  process.exit(1);
+});
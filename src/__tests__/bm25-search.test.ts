@@ -0,0 +1,109 @@
+/**
+ * Tests for the inverted index and BM25 scoring
+ */
+
+import { InvertedIndexService } from '../services/content/inverted-index.service.js';
+import { BM25SearchService } from '../services/bm25-search.service.js';
+import { StaticContentSearchService } from '../services/static-content-search.service.js';
+import type { HIGSection } from '../types.js';
+
+const section = (id: string, title: string): HIGSection => ({
+  id,
+  title,
+  url: `https://developer.apple.com/design/human-interface-guidelines/${id}`,
+  platform: 'universal',
+  category: 'foundations'
+});
+
+describe('InvertedIndexService', () => {
+  const indexer = new InvertedIndexService();
+
+  test('should tokenize with stemming, stop words and rejoined platform names', () => {
+    const tokens = indexer.tokenize('Buttons in i OS and Voice Over support the i Pad OSUse case');
+
+    expect(tokens.map(t => t.term)).toEqual(['button', 'ios', 'voiceover', 'support', 'ipados', 'use', 'case']);
+    expect(tokens[1].position).toBe(2);
+  });
+
+  test('should record per-field postings with positions', () => {
+    const sections = [section('toggles', 'Toggles'), section('sliders', 'Sliders')];
+    const processed = new Map<string, any>([
+      ['toggles', { cleanedMarkdown: '## Best practices\nUse a toggle to switch a setting on or off.', keywords: ['switch'] }],
+      ['sliders', { cleanedMarkdown: 'A slider lets people choose a value.', keywords: [] }]
+    ]);
+
+    const index = indexer.build(sections, processed);
+
+    expect(index.fields.map(f => f.name)).toEqual(['title', 'headings', 'body', 'keywords']);
+    expect(index.documents).toEqual([
+      { id: 'toggles', lengths: [1, 2, 5, 1] },
+      { id: 'sliders', lengths: [1, 0, 5, 0] }
+    ]);
+    // documentIndex, fieldIndex (0 = title, 2 = body), then positions
+    expect(index.postings.toggle).toEqual([[0, 0, 0], [0, 2, 2]]);
+    expect(index.postings.switch).toEqual([[0, 2, 4], [0, 3, 0]]);
+  });
+});
+
+describe('BM25SearchService', () => {
+  const indexer = new InvertedIndexService();
+  const sections = [
+    section('buttons', 'Buttons'),
+    section('charts', 'Charts'),
+    section('layout', 'Layout')
+  ];
+  const processed = new Map<string, any>([
+    ['buttons', { cleanedMarkdown: 'A button needs a hit region of at least 44 x 44 pt so people can tap it.', keywords: ['controls'] }],
+    ['charts', { cleanedMarkdown: 'Consider a larger region for the plot so a hit anywhere reveals the value.', keywords: [] }],
+    ['layout', { cleanedMarkdown: 'Place buttons consistently. Leave room around every region of the layout.', keywords: [] }]
+  ]);
+  const bm25 = new BM25SearchService(indexer.build(sections, processed));
+
+  test('should rank title matches above body mentions', () => {
+    const results = bm25.search('buttons');
+
+    expect(results.map(r => r.id)).toEqual(['buttons', 'layout']);
+  });
+
+  test('should reward query terms that appear side by side', () => {
+    const [best, second] = bm25.search('hit region');
+
+    expect(best.id).toBe('buttons');
+    expect(best.matchedTerms).toEqual(['hit', 'region']);
+    expect(second.id).toBe('charts');
+    expect(best.score).toBeGreaterThan(second.score);
+  });
+
+  test('should score expansion terms at a reduced weight', () => {
+    const direct = bm25.search('layout')[0].score;
+    const expanded = bm25.search('arrangement', ['layout'])[0];
+
+    expect(expanded.id).toBe('layout');
+    expect(expanded.score).toBeCloseTo(direct / 2);
+  });
+});
+
+describe('StaticContentSearchService with BM25', () => {
+  test('should find guidance that only appears in the page body', async () => {
+    const search = new StaticContentSearchService('content');
+    const results = await search.searchContent('hit region', undefined, undefined, 3);
+
+    expect(results[0].id).toBe('universal-buttons');
+  });
+
+  test('should find the hit region guidance when asked in other words', async () => {
+    const search = new StaticContentSearchService('content');
+
+    for (const query of ['minimum hit area', 'minimum touch target', 'tap target size']) {
+      const [best] = await search.searchContent(query, undefined, undefined, 3);
+      expect(best.id).toBe('universal-buttons');
+    }
+  });
+
+  test('should rank a misspelled component name as its correction', async () => {
+    const search = new StaticContentSearchService('content');
+    const [best] = await search.searchContent('navigaton bar', undefined, undefined, 3);
+
+    expect(best.id).toBe('universal-navigation-bars');
+  });
+});
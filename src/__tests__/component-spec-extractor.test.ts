@@ -0,0 +1,54 @@
+/**
+ * Unit tests for ComponentSpecExtractorService
+ */
+
+import { ComponentSpecExtractorService } from '../services/content/component-spec-extractor.service.js';
+
+describe('ComponentSpecExtractorService', () => {
+  let extractor: ComponentSpecExtractorService;
+
+  beforeEach(() => {
+    extractor = new ComponentSpecExtractorService();
+  });
+
+  it('should extract values with per-scale pixel sizes', () => {
+    const markdown = 'Maximum width and height 34.67 x 34.67 pt (104 x 104 px @3 x) 35 x 35 pt (70 x 70 px @2 x) Target width and height 26.67 x 26.67 pt (80 x 80 px @3 x).';
+
+    const measurements = extractor.extractMeasurements(markdown);
+
+    expect(measurements).toHaveLength(3);
+    expect(measurements[0]).toMatchObject({
+      label: 'Maximum width and height',
+      value: '34.67 x 34.67 pt',
+      unit: 'pt',
+      kind: 'dimension',
+      scales: [{ value: '104 x 104 px', scale: '@3x' }]
+    });
+    expect(measurements[1].label).toBe('Maximum width and height');
+    expect(measurements[1].scales).toEqual([{ value: '70 x 70 px', scale: '@2x' }]);
+    expect(measurements[2].label).toBe('Target width and height');
+  });
+
+  it('should attribute platform-specific values from table rows', () => {
+    const markdown = 'Default control size i OS, i Pad OS 44 x 44 pt 28 x 28 pt mac OS 28 x 28 pt 20 x 20 pt vision OS 60 x 60 pt 28 x 28 pt';
+
+    const measurements = extractor.extractMeasurements(markdown);
+
+    expect(measurements.map(m => m.platform)).toEqual(['iOS', 'iOS', 'macOS', 'macOS', 'visionOS', 'visionOS']);
+    expect(measurements.every(m => m.kind === 'touch-target')).toBe(true);
+  });
+
+  it('should summarize touch targets, spacing and typography', () => {
+    const markdown = 'Give buttons a hit region of at least 44 x 44 pt. Include about 12 pt of padding around elements. Use a minimum font size of 11 points.';
+
+    const spec = extractor.extract(markdown);
+
+    expect(spec?.touchTarget).toBe('44 x 44 pt');
+    expect(spec?.spacing?.padding).toBe('12 pt');
+    expect(spec?.typography?.fontSize).toBe('11 pt');
+  });
+
+  it('should return undefined when there are no measurements', () => {
+    expect(extractor.extract('Toggles let people choose between a pair of opposing states.')).toBeUndefined();
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Tests for the content generation pipeline, run offline against HTML fixtures
+ */
+
+import { promises as fs } from 'fs';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { ContentGeneratorService } from '../services/content/content-generator.service.js';
+import { FixtureContentSourceService, HttpContentSourceService } from '../services/content/content-source.service.js';
+import { parseGenerateOptions } from '../generate-options.js';
+import type { IContentSource } from '../interfaces/content-interfaces.js';
+import type { HIGSection, HIGUpdate } from '../types.js';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'hig');
+
+describe('ContentGeneratorService', () => {
+  let outputDirectory: string;
+
+  beforeEach(async () => {
+    outputDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'hig-generate-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(outputDirectory, { recursive: true, force: true });
+  });
+
+  const readJson = async (...segments: string[]) => JSON.parse(await fs.readFile(path.join(outputDirectory, ...segments), 'utf-8'));
+
+  test('should generate markdown, indexes and a report from fixture pages', async () => {
+    const generator = new ContentGeneratorService(new FixtureContentSourceService(FIXTURES), { outputDirectory, rateLimitDelay: 0 });
+
+    const report = await generator.generate();
+
+    expect(report.statistics).toMatchObject({ totalSections: 3, successful: 2, failed: 1 });
+    expect(report.statistics.skipped).toBeGreaterThan(100);
+    expect(report.failures).toEqual([expect.objectContaining({ sectionId: 'universal-toggles', stage: 'quality', attempts: 1 })]);
+
+    const buttons = await fs.readFile(path.join(outputDirectory, 'universal', 'buttons.md'), 'utf-8');
+    expect(buttons).toMatch(/^---\ntitle: Buttons\nplatform: universal\n/);
+    expect(buttons).toContain('hit region of at least 44');
+    await expect(fs.access(path.join(outputDirectory, 'universal', 'toggles.md'))).rejects.toThrow();
+
+    const index = await readJson('metadata', 'search-index.json');
+    expect(index.map((entry: { id: string }) => entry.id)).toEqual(['universal-buttons', 'macos-pop-up-buttons']);
+    expect(await readJson('metadata', 'cross-references.json')).toContainEqual(
+      expect.objectContaining({ fromSection: 'universal-buttons', toSection: 'macos-pop-up-buttons', relationshipType: 'child' })
+    );
+    expect(await readJson('metadata', 'generation-info.json')).toMatchObject({ totalSections: 2, platforms: ['universal', 'macOS'] });
+    expect(await readJson('generation-report.json')).toMatchObject({ statistics: { successful: 2 } });
+  });
+
+  test('should retry failed fetches and report sections that never load', async () => {
+    const fixtures = new FixtureContentSourceService(FIXTURES);
+    const calls = new Map<string, number>();
+    const flaky: IContentSource = {
+      name: 'flaky',
+      fetchHtml: async (section: HIGSection) => {
+        const count = (calls.get(section.id) || 0) + 1;
+        calls.set(section.id, count);
+        if (section.id === 'macos-pop-up-buttons') throw new Error('socket hang up');
+        if (count === 1) throw new Error('timeout of 30000ms exceeded');
+        return fixtures.fetchHtml(section);
+      }
+    };
+
+    const report = await new ContentGeneratorService(flaky, {
+      outputDirectory,
+      rateLimitDelay: 0,
+      maxRetries: 2,
+      sections: ['universal-buttons', 'macos-pop-up-buttons']
+    }).generate();
+
+    expect(calls.get('universal-buttons')).toBe(2);
+    expect(report.statistics).toMatchObject({ successful: 1, failed: 1, skipped: 0 });
+    expect(report.failures).toEqual([
+      { sectionId: 'macos-pop-up-buttons', url: expect.any(String), stage: 'fetch', attempts: 3, reason: 'socket hang up' }
+    ]);
+  });
+
+  test('should space requests to the source by rateLimitDelay, even when fetching concurrently', async () => {
+    const fixtures = new FixtureContentSourceService(FIXTURES);
+    const started: number[] = [];
+    const timed: IContentSource = {
+      name: 'timed',
+      fetchHtml: async (section: HIGSection) => {
+        started.push(Date.now());
+        return fixtures.fetchHtml(section);
+      }
+    };
+
+    await new ContentGeneratorService(timed, {
+      outputDirectory,
+      rateLimitDelay: 100,
+      batchSize: 3,
+      sections: ['universal-buttons', 'macos-pop-up-buttons', 'universal-toggles']
+    }).generate();
+
+    expect(started).toHaveLength(3);
+    // Timers may fire a millisecond early
+    started.slice(1).forEach((time, i) => expect(time - started[i]).toBeGreaterThanOrEqual(95));
+  });
+
+  test('should keep the existing content when no section passes', async () => {
+    const generator = new ContentGeneratorService(new FixtureContentSourceService(FIXTURES), {
+      outputDirectory,
+      sections: ['universal-toggles']
+    });
+
+    await expect(generator.generate()).rejects.toThrow('No sections passed generation');
+    expect(await fs.readdir(outputDirectory)).toEqual([]);
+  });
+
+  test('should write the tables of a page next to its markdown', async () => {
+    const pages = new FixtureContentSourceService(path.join(__dirname, 'fixtures', 'processor'));
+
+    await new ContentGeneratorService(pages, { outputDirectory, rateLimitDelay: 0, sections: ['ios-app-icons'] }).generate();
+
+    const [table] = await readJson('platforms', 'ios', 'app-icons.tables.json');
+    expect(table).toMatchObject({ id: 'ios-app-icons--specifications', title: 'Specifications', headingPath: ['App Icons', 'Specifications'] });
+    expect(table.columns.map((column: { key: string }) => column.key)).toEqual(['platform', 'layoutShape', 'iconShapeAfterSystemMasking', 'layoutSize', 'style', 'appearances']);
+    expect(table.rows).toContainEqual(expect.objectContaining({ platform: 'tvOS', layoutSize: '800x480 px' }));
+    expect(await readJson('metadata', 'specification-tables.json')).toEqual([table]);
+  });
+
+  test('should record the dated Change log rows of a page as updates', async () => {
+    const pages = new FixtureContentSourceService(path.join(__dirname, 'fixtures', 'processor'));
+
+    await new ContentGeneratorService(pages, { outputDirectory, rateLimitDelay: 0, sections: ['ios-app-icons'] }).generate();
+
+    const updates = await readJson('metadata', 'updates.json');
+    expect(updates).toContainEqual(expect.objectContaining({
+      id: 'ios-app-icons-2025-06-09',
+      sectionId: 'ios-app-icons',
+      date: '2025-06-09T00:00:00.000Z',
+      description: 'Updated guidance to reflect layered icons.',
+      source: 'change-log'
+    }));
+  });
+
+  describe('incremental runs', () => {
+    let fixtures: string;
+
+    beforeEach(async () => {
+      fixtures = path.join(outputDirectory, 'pages');
+      await fs.cp(FIXTURES, fixtures, { recursive: true });
+    });
+
+    const generate = (config: { forceUpdate?: boolean } = {}) => new ContentGeneratorService(new FixtureContentSourceService(fixtures), {
+      outputDirectory,
+      rateLimitDelay: 0,
+      sections: ['universal-buttons', 'macos-pop-up-buttons'],
+      ...config
+    }).generate();
+
+    test('should skip unchanged pages and leave derived metadata alone', async () => {
+      await generate();
+      const buttonsPath = path.join(outputDirectory, 'universal', 'buttons.md');
+      const written = await fs.readFile(buttonsPath, 'utf-8');
+
+      const report = await generate();
+
+      expect(report.statistics).toMatchObject({ successful: 2, unchanged: 2, failed: 0 });
+      expect(report.changes).toEqual({ added: 0, modified: 0, removed: 0 });
+      expect(report.filesWritten.map(file => path.basename(file))).toEqual(['search-index.json', 'generation-report.json']);
+      expect(await fs.readFile(buttonsPath, 'utf-8')).toBe(written);
+
+      const index = await readJson('metadata', 'search-index.json');
+      expect(index[0]).toMatchObject({ id: 'universal-buttons', contentHash: expect.stringMatching(/^[0-9a-f]{16}$/), sourceHash: expect.stringMatching(/^[0-9a-f]{16}$/) });
+      expect(index[0].contentHash).toBe((await readJson('metadata', 'content-snapshot.json')).sections['universal-buttons'].contentHash);
+    });
+
+    test('should reprocess modified pages, drop removed sections and record both in the changelog', async () => {
+      await generate();
+      const firstIndex = await readJson('metadata', 'search-index.json');
+
+      // A section that is no longer discovered, left over from an earlier run
+      await fs.writeFile(path.join(outputDirectory, 'universal', 'retired.md'), '---\ntitle: Retired\n---\n# Retired');
+      const retired = { ...firstIndex[0], id: 'universal-retired', title: 'Retired', filename: 'retired.md' };
+      await fs.writeFile(path.join(outputDirectory, 'metadata', 'search-index.json'), JSON.stringify([...firstIndex, retired]));
+
+      const page = path.join(fixtures, 'pop-up-buttons.html');
+      await fs.writeFile(page, (await fs.readFile(page, 'utf-8')).replace('</main>', '<p>Avoid putting more than a dozen items in a pop-up button menu.</p></main>'));
+
+      const report = await generate();
+
+      expect(report.changes).toEqual({ added: 0, modified: 1, removed: 1 });
+      expect(report.statistics).toMatchObject({ successful: 2, unchanged: 1 });
+      expect(await fs.readFile(path.join(outputDirectory, 'platforms', 'macos', 'pop-up-buttons.md'), 'utf-8')).toContain('more than a dozen items');
+      await expect(fs.access(path.join(outputDirectory, 'universal', 'retired.md'))).rejects.toThrow();
+
+      const changelog = await readJson('metadata', 'changelog.json');
+      expect(changelog).toMatchObject({ added: [], unchanged: 1, since: expect.any(String) });
+      expect(changelog.modified).toEqual([expect.objectContaining({
+        sectionId: 'macos-pop-up-buttons',
+        previousContentHash: firstIndex[1].contentHash,
+        contentHash: expect.not.stringMatching(firstIndex[1].contentHash)
+      })]);
+      expect(changelog.removed).toEqual([expect.objectContaining({ sectionId: 'universal-retired', title: 'Retired' })]);
+
+      const index = await readJson('metadata', 'search-index.json');
+      expect(index.map((entry: { id: string }) => entry.id)).toEqual(['universal-buttons', 'macos-pop-up-buttons']);
+      expect(index[1].contentHash).toBe(changelog.modified[0].contentHash);
+
+      const updates: HIGUpdate[] = await readJson('metadata', 'updates.json');
+      expect(updates.filter(update => update.source === 'content-diff').map(update => [update.sectionId, update.type])).toEqual(
+        expect.arrayContaining([['macos-pop-up-buttons', 'updated'], ['universal-retired', 'deprecated']])
+      );
+    });
+
+    test('should rewrite every section when forced', async () => {
+      await generate();
+
+      const report = await generate({ forceUpdate: true });
+
+      expect(report.statistics.unchanged).toBe(0);
+      expect(report.changes).toEqual({ added: 0, modified: 0, removed: 0 });
+      expect(report.filesWritten).toContain(path.join(outputDirectory, 'universal', 'buttons.md'));
+    });
+
+    test('should send validators back and skip pages the source reports as not modified', async () => {
+      const html = await fs.readFile(path.join(FIXTURES, 'buttons.html'), 'utf-8');
+      const fetchHtml = jest.fn(async () => html);
+      const fetchIfModified = jest.fn(async (_section: HIGSection, validators: { etag?: string }) =>
+        validators.etag === '"v1"' ? null : { html, etag: '"v1"' });
+      const source: IContentSource = { name: 'conditional', fetchHtml, fetchIfModified };
+      const run = () => new ContentGeneratorService(source, { outputDirectory, sections: ['universal-buttons'] }).generate();
+
+      await run();
+      const report = await run();
+
+      expect(fetchIfModified.mock.calls.map(([, validators]) => validators.etag)).toEqual([undefined, '"v1"']);
+      expect(fetchHtml).not.toHaveBeenCalled();
+      expect(report.statistics.unchanged).toBe(1);
+      expect((await readJson('metadata', 'search-index.json'))[0].etag).toBe('"v1"');
+    });
+  });
+});
+
+describe('HttpContentSourceService', () => {
+  let server: http.Server;
+  let url: string;
+  const requests: http.IncomingHttpHeaders[] = [];
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      requests.push(request.headers);
+      if (request.headers['if-none-match'] === '"abc"') {
+        response.writeHead(304).end();
+      } else {
+        response.writeHead(200, { 'Content-Type': 'text/html', 'ETag': '"abc"', 'Last-Modified': 'Mon, 09 Jun 2025 00:00:00 GMT' }).end('<h1>Buttons</h1>');
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/buttons`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('should make conditional requests with the validators of the previous fetch', async () => {
+    const source = new HttpContentSourceService(5000);
+    const section = { id: 'universal-buttons', title: 'Buttons', url, platform: 'universal', category: 'selection-and-input' } as HIGSection;
+
+    const page = await source.fetchIfModified(section, {});
+    expect(page).toEqual({ html: '<h1>Buttons</h1>', etag: '"abc"', lastModified: 'Mon, 09 Jun 2025 00:00:00 GMT' });
+
+    expect(await source.fetchIfModified(section, { etag: page!.etag, lastModified: page!.lastModified })).toBeNull();
+    expect(requests[1]).toMatchObject({ 'if-none-match': '"abc"', 'if-modified-since': 'Mon, 09 Jun 2025 00:00:00 GMT' });
+  });
+});
+
+describe('parseGenerateOptions', () => {
+  test('should map flags onto the generation config', () => {
+    expect(parseGenerateOptions(['--output', 'out', '--fixtures=pages', '--concurrency', '4', '--retries', '0', '--min-quality', '0.3', '--sections', 'universal-buttons, ios-settings', '--force', '--discover', '--prune']))
+      .toEqual({ outputDirectory: 'out', fixtures: 'pages', batchSize: 4, maxRetries: 0, minQualityThreshold: 0.3, sections: ['universal-buttons', 'ios-settings'], forceUpdate: true, liveDiscovery: {}, prune: true });
+    expect(parseGenerateOptions(['--source', 'html'])).toEqual({ source: 'html' });
+    expect(parseGenerateOptions(['--request-delay=250'])).toEqual({ rateLimitDelay: 250 });
+  });
+
+  test('should reject unknown flags and bad values', () => {
+    expect(() => parseGenerateOptions(['--concurrency', '0'])).toThrow('Invalid --concurrency');
+    expect(() => parseGenerateOptions(['--min-quality', '2'])).toThrow('Invalid --min-quality');
+    expect(() => parseGenerateOptions(['--force=yes'])).toThrow('--force takes no value');
+    expect(() => parseGenerateOptions(['--verbose'])).toThrow('Unknown option --verbose');
+    expect(() => parseGenerateOptions(['--source', 'browser'])).toThrow('Invalid --source "browser"');
+  });
+});
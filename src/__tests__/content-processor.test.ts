@@ -1,12 +1,23 @@
 /**
- * Unit tests for ContentProcessorService (Phase 1 functionality)
+ * Unit tests for ContentProcessorService and its processing stages
  */
 
-import { ContentProcessorService } from '../services/content-processor.service.js';
+import { ContentProcessorService } from '../services/content/content-processor.service.js';
+import { NormalizeMarkdownStage } from '../services/content/stages/normalize-markdown.stage.js';
+import { ExtractStructureStage } from '../services/content/stages/extract-structure.stage.js';
+import { ScoreQualityStage } from '../services/content/stages/score-quality.stage.js';
+import type { ContentProcessingContext, IContentProcessingStage } from '../interfaces/content-interfaces.js';
 import type { HIGSection } from '../types.js';
 
 describe('ContentProcessorService', () => {
   let processor: ContentProcessorService;
+  const page: HIGSection = {
+    id: 'ios-buttons',
+    title: 'Buttons',
+    url: 'https://developer.apple.com/design/human-interface-guidelines/buttons',
+    platform: 'iOS',
+    category: 'selection-and-input'
+  };
 
   beforeEach(() => {
     processor = new ContentProcessorService();
@@ -21,7 +32,7 @@ describe('ContentProcessorService', () => {
         <nav>Skip this navigation</nav>
       `;
 
-      const result = await processor.processContent(html, 'https://example.com');
+      const result = await processor.processContent(html, page);
 
       expect(result.cleanedMarkdown).toContain('# Button Guidelines');
       expect(result.cleanedMarkdown).toContain('Buttons initiate app-specific actions');
@@ -45,7 +56,7 @@ describe('ContentProcessorService', () => {
         </ul>
       `;
 
-      const result = await processor.processContent(html, 'https://example.com');
+      const result = await processor.processContent(html, page);
 
       expect(result.structuredContent.overview).toContain('interactive elements');
       expect(result.structuredContent.guidelines).toHaveLength(2);
@@ -63,7 +74,7 @@ describe('ContentProcessorService', () => {
         <code>UIButton.appearance().backgroundColor = .systemBlue</code>
       `;
 
-      const result = await processor.processContent(goodHtml, 'https://developer.apple.com/design');
+      const result = await processor.processContent(goodHtml, page);
 
       expect(result.quality.score).toBeGreaterThan(0.3);
       expect(result.quality.confidence).toBeGreaterThan(0.3);
@@ -75,7 +86,7 @@ describe('ContentProcessorService', () => {
     it('should handle empty or poor content gracefully', async () => {
       const poorHtml = '<div>Loading...</div>';
 
-      const result = await processor.processContent(poorHtml, 'https://example.com');
+      const result = await processor.processContent(poorHtml, page);
 
       expect(result.quality.score).toBeLessThan(0.3);
       expect(result.quality.length).toBeLessThan(100);
@@ -170,4 +181,75 @@ describe('ContentProcessorService', () => {
       await expect(processor.process(section)).rejects.toThrow('No content available for section');
     });
   });
-});
\ No newline at end of file
+
+  describe('pipeline', () => {
+    const context = (markdown: string): ContentProcessingContext =>
+      ({ section: page, html: '', cleanedHtml: '', rawMarkdown: markdown, markdown });
+
+    it('should return the markdown, structure, tables and quality of a page from one pass', async () => {
+      const html = `
+        <h1>Buttons</h1>
+        <p>A button initiates an instantaneous action. Consider the size of each button carefully.</p>
+        <h2>Best practices</h2>
+        <ul><li>Make buttons easy to choose, with a hit region of at least 44x44 pt.</li></ul>
+        <h2>Sizes</h2>
+        <table><tr><th>Size</th><th>Height</th></tr><tr><td>Large</td><td>50 pt</td></tr></table>
+      `;
+
+      const result = await processor.processContent(html, page);
+
+      expect(result.cleanedMarkdown).toContain('| Size | Height |');
+      expect(result.structuredContent.guidelines).toEqual(['Make buttons easy to choose, with a hit region of at least 44x44 pt.']);
+      expect(result.structuredContent.specifications?.measurements).toBeDefined();
+      expect(result.specificationTables).toEqual([expect.objectContaining({ id: 'ios-buttons--sizes', rows: [{ size: 'Large', height: '50 pt' }] })]);
+      expect(result.frontMatter).toMatch(/^---\ntitle: Buttons\nplatform: iOS\n/);
+      expect(result.quality.extractionMethod).toBe('turndown-enhanced');
+    });
+
+    it('should run each stage on its own', () => {
+      const normalized = new NormalizeMarkdownStage().run(context('# Buttons\n\nSkip Navigation\n\nIn i OS, use Swift UI.\n\n## Resources\n\n- [Related](https://example.com)'));
+      expect(normalized.markdown).toBe('# Buttons\n\nIn iOS, use SwiftUI.');
+      expect(normalized.rawMarkdown).toContain('Skip Navigation');
+
+      const extracted = new ExtractStructureStage().run(normalized);
+      expect(extracted.keywords).toEqual(['buttons', 'ios', 'selection-and-input']);
+      expect(extracted.structuredContent?.overview).toBe('In iOS, use SwiftUI.');
+
+      const scored = new ScoreQualityStage().run(context('Please turn on JavaScript in your browser and refresh the page to view its content.'));
+      expect(scored.quality).toMatchObject({ isFallbackContent: true, score: 0.1 });
+    });
+
+    it('should rejoin product names glued to the surrounding text', () => {
+      const normalized = new NormalizeMarkdownStage().run(context('Platform considerationsi OS, i Pad OSUse a sheet. mac OSmac OS adds a Swift UIUIKit bridge.'));
+      expect(normalized.markdown).toBe('Platform considerationsiOS, iPadOSUse a sheet. macOSmacOS adds a SwiftUIUIKit bridge.');
+    });
+
+    it('should run custom stages in order', async () => {
+      const seen: string[] = [];
+      const stage = (name: string, update: Partial<ContentProcessingContext> = {}): IContentProcessingStage => ({
+        name,
+        run: current => {
+          seen.push(name);
+          return { ...current, ...update };
+        }
+      });
+      const custom = new ContentProcessorService([
+        stage('convert', { markdown: 'Converted' }),
+        stage('score', { quality: { ...new ScoreQualityStage().run(context('Converted')).quality!, score: 0.9 } })
+      ]);
+
+      const result = await custom.processContent('<p>Ignored</p>', page);
+
+      expect(seen).toEqual(['convert', 'score']);
+      expect(result).toMatchObject({ cleanedMarkdown: 'Converted', keywords: [], specificationTables: [], quality: { score: 0.9 } });
+      await expect(new ContentProcessorService([stage('convert')]).processContent('<p>Text</p>', page))
+        .rejects.toThrow('no stage scored ios-buttons');
+    });
+
+    it('should enhance converted markdown with the stages after conversion', () => {
+      expect(processor.canEnhance(page)).toBe(true);
+      expect(processor.canEnhance({ ...page, url: 'https://example.com' })).toBe(false);
+      expect(processor.enhance('# Buttons\n\nPeople use Voice Over on i Pad OS.', page)).toBe('# Buttons\n\nPeople use VoiceOver on iPadOS.');
+    });
+  });
+});
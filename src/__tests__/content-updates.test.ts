@@ -0,0 +1,103 @@
+/**
+ * Unit tests for ContentUpdatesService
+ */
+
+import { ContentUpdatesService } from '../services/content/content-updates.service.js';
+import type { ContentSnapshot, HIGSection } from '../types.js';
+
+describe('ContentUpdatesService', () => {
+  let service: ContentUpdatesService;
+
+  const section = (id: string, title: string): HIGSection => ({
+    id,
+    title,
+    url: `https://developer.apple.com/design/human-interface-guidelines/${id}`,
+    platform: 'universal',
+    category: 'foundations'
+  });
+
+  beforeEach(() => {
+    service = new ContentUpdatesService();
+  });
+
+  describe('parseChangeBanner', () => {
+    it('should stop the description where the page title starts', () => {
+      const banner = service.parseChangeBanner(
+        'June 9, 2025 Added guidance for new challenges. Updated specifications for preview images. Game Center Game Center is Apple’s social gaming network.',
+        'Game Center'
+      );
+
+      expect(banner?.date.toISOString()).toBe('2025-06-09T00:00:00.000Z');
+      expect(banner?.description).toBe('Added guidance for new challenges. Updated specifications for preview images.');
+    });
+
+    it('should ignore pages without a banner', () => {
+      expect(service.parseChangeBanner('Buttons A button initiates an instantaneous action.', 'Buttons')).toBeNull();
+    });
+  });
+
+  it('should build banner updates for processed sections', () => {
+    const sections = [section('universal-layout', 'Layout'), section('universal-motion', 'Motion')];
+    const processed = new Map<string, any>([
+      ['universal-layout', { cleanedMarkdown: 'June 9, 2025 Added guidance for Liquid Glass. Layout A consistent layout...' }],
+      ['universal-motion', { cleanedMarkdown: 'Motion Beautiful, fluid motions bring the interface to life.' }]
+    ]);
+
+    const updates = service.extractBannerUpdates(sections, processed);
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({
+      id: 'universal-layout-2025-06-09',
+      sectionId: 'universal-layout',
+      description: 'Added guidance for Liquid Glass.',
+      type: 'updated',
+      source: 'change-banner'
+    });
+  });
+
+  it('should build dated updates from the Change log rows of processed sections', () => {
+    const processed = new Map<string, any>([
+      ['universal-layout', { cleanedMarkdown: 'Layout', changeLog: [
+        { date: 'June 9, 2025', description: 'Added guidance for Liquid Glass.' },
+        { date: 'June 9, 2025', description: 'Updated the layout specifications.' },
+        { date: 'Sometime in 2024', description: 'Not a date.' },
+        { date: 'September 12, 2023', description: 'New page.' }
+      ] }]
+    ]);
+
+    const updates = service.extractChangeLogUpdates([section('universal-layout', 'Layout')], processed);
+
+    expect(updates.map(update => [update.id, update.type, update.source])).toEqual([
+      ['universal-layout-2025-06-09', 'updated', 'change-log'],
+      ['universal-layout-2025-06-09-2', 'updated', 'change-log'],
+      ['universal-layout-2023-09-12', 'new', 'change-log']
+    ]);
+    expect(updates[0].date.toISOString()).toBe('2025-06-09T00:00:00.000Z');
+  });
+
+  it('should diff snapshots into new, updated and deprecated records', () => {
+    const sections = [section('universal-layout', 'Layout'), section('universal-charts', 'Charts')];
+    const previous: ContentSnapshot = {
+      generatedAt: '2025-07-20T00:00:00.000Z',
+      sections: {
+        'universal-layout': { title: 'Layout', url: '', platform: 'universal', category: 'layout', contentHash: 'old' },
+        'universal-boxes': { title: 'Boxes', url: '', platform: 'universal', category: 'layout', contentHash: 'abc' }
+      }
+    };
+    const current = service.createSnapshot(sections, new Map<string, any>([
+      ['universal-layout', { cleanedMarkdown: 'Layout changed' }],
+      ['universal-charts', { cleanedMarkdown: 'Charts' }]
+    ]), new Date('2025-09-01T00:00:00.000Z'));
+
+    const updates = service.diffSnapshots(previous, current);
+    const byType = Object.fromEntries(updates.map(u => [u.type, u.sectionId]));
+
+    expect(byType).toEqual({
+      updated: 'universal-layout',
+      new: 'universal-charts',
+      deprecated: 'universal-boxes'
+    });
+    expect(updates.every(u => u.source === 'content-diff')).toBe(true);
+    expect(updates[0].description).toContain('2025-07-20');
+  });
+});
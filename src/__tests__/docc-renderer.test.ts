@@ -0,0 +1,134 @@
+/**
+ * Tests for rendering HIG pages from their DocC render-node JSON, using a page saved from
+ * /tutorials/data/design/human-interface-guidelines/buttons.json
+ */
+
+import { promises as fs } from 'fs';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { DocCRendererService } from '../services/content/docc-renderer.service.js';
+import type { DocCRenderNode } from '../services/content/docc-renderer.service.js';
+import { ContentProcessorService } from '../services/content/content-processor.service.js';
+import { ContentGeneratorService } from '../services/content/content-generator.service.js';
+import { DocCContentSourceService, FixtureContentSourceService } from '../services/content/content-source.service.js';
+import type { HIGSection } from '../types.js';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'docc');
+
+const section: HIGSection = {
+  id: 'universal-buttons',
+  title: 'Buttons',
+  url: 'https://developer.apple.com/design/human-interface-guidelines/buttons',
+  platform: 'universal',
+  category: 'visual-design'
+};
+
+describe('DocCRendererService', () => {
+  const renderer = new DocCRendererService();
+  let json: string;
+
+  beforeAll(async () => {
+    json = await fs.readFile(path.join(FIXTURES, 'buttons.json'), 'utf-8');
+  });
+
+  test('should render a saved page to the expected markdown', async () => {
+    const expected = (await fs.readFile(path.join(FIXTURES, 'buttons.md'), 'utf-8')).trim();
+
+    expect(renderer.render(renderer.parse(json)!)).toBe(expected);
+  });
+
+  test('should render the same markdown every time', () => {
+    const node = renderer.parse(json)!;
+
+    expect(renderer.render(renderer.parse(JSON.stringify(node))!)).toBe(renderer.render(node));
+  });
+
+  test('should only parse render nodes', () => {
+    expect(renderer.parse('<!DOCTYPE html><html><body>Buttons</body></html>')).toBeNull();
+    expect(renderer.parse('{ "primaryContentSections": [')).toBeNull();
+    expect(renderer.parse('{ "interfaceLanguages": {} }')).toBeNull();
+    expect(renderer.parse(json)?.metadata?.title).toBe('Buttons');
+  });
+
+  test('should label asides by style, keep inactive references as text and drop blocks with no markdown form', () => {
+    const node: DocCRenderNode = {
+      primaryContentSections: [{
+        kind: 'content',
+        content: [
+          { type: 'aside', style: 'important', content: [{ type: 'paragraph', inlineContent: [{ type: 'text', text: 'Line one.' }] }, { type: 'paragraph', inlineContent: [{ type: 'text', text: 'Line two.' }] }] },
+          { type: 'paragraph', inlineContent: [{ type: 'text', text: 'See ' }, { type: 'reference', identifier: 'menus', isActive: false }, { type: 'image', identifier: 'missing.png' }] },
+          { type: 'video', inlineContent: [{ type: 'text', text: 'Playing' }] },
+          { type: 'orderedList', start: 3, items: [{ content: [{ type: 'paragraph', inlineContent: [{ type: 'text', text: 'Third' }] }] }] }
+        ]
+      }, { kind: 'declarations' }],
+      references: { menus: { type: 'topic', title: 'Menus', url: '/design/human-interface-guidelines/menus' } }
+    };
+
+    expect(new DocCRendererService('http://127.0.0.1:8080/').render(node))
+      .toBe('> Important\n>\n> Line one.\n>\n> Line two.\n\nSee Menus\n\n3. Third');
+  });
+});
+
+describe('DocC pages in the processing pipeline', () => {
+  test('should process a render node without the HTML stages', async () => {
+    const json = await fs.readFile(path.join(FIXTURES, 'buttons.json'), 'utf-8');
+
+    const result = await new ContentProcessorService().processContent(json, section);
+
+    expect(result.cleanedMarkdown).toContain('> Note\n>\n> A *destructive* button');
+    expect(result.cleanedMarkdown).not.toContain('primaryContentSections');
+    expect(result.quality.isFallbackContent).toBe(false);
+    expect(result.specificationTables).toEqual([expect.objectContaining({
+      id: 'universal-buttons--specifications',
+      rows: expect.arrayContaining([{ platform: 'visionOS', minimumHitRegion: '60x60 pt', cornerRadius: 'Capsule' }])
+    })]);
+  });
+
+  test('should generate content from saved JSON pages', async () => {
+    const outputDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'hig-docc-'));
+    try {
+      const report = await new ContentGeneratorService(new FixtureContentSourceService(FIXTURES), {
+        outputDirectory,
+        rateLimitDelay: 0,
+        sections: ['universal-buttons']
+      }).generate();
+
+      expect(report.failures).toEqual([]);
+      const buttons = await fs.readFile(path.join(outputDirectory, 'universal', 'buttons.md'), 'utf-8');
+      expect(buttons).toContain('| visionOS | 60x60 pt | Capsule |');
+    } finally {
+      await fs.rm(outputDirectory, { recursive: true, force: true });
+    }
+  });
+
+  test('should fetch the JSON a page is rendered from', async () => {
+    const json = await fs.readFile(path.join(FIXTURES, 'buttons.json'), 'utf-8');
+    const requests: string[] = [];
+    const accepts: Array<string | undefined> = [];
+    const server = http.createServer((request, response) => {
+      requests.push(request.url || '/');
+      accepts.push(request.headers['accept']);
+      if (request.headers['if-none-match'] === '"v1"') {
+        response.writeHead(304).end();
+      } else {
+        response.writeHead(200, { 'Content-Type': 'application/json', 'ETag': '"v1"' }).end(json);
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    try {
+      const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      const local = { ...section, url: `${origin}/design/human-interface-guidelines/buttons/` };
+      const source = new DocCContentSourceService();
+
+      expect(await source.fetchHtml(local)).toBe(json);
+      expect(await source.fetchIfModified(local, {})).toMatchObject({ etag: '"v1"' });
+      expect(await source.fetchIfModified(local, { etag: '"v1"' })).toBeNull();
+      expect(requests).toEqual(Array(3).fill('/tutorials/data/design/human-interface-guidelines/buttons.json'));
+      expect(accepts).toEqual(Array(3).fill('application/json'));
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Unit tests for FuzzyTermMatcherService
+ */
+
+import { FuzzyTermMatcherService } from '../services/fuzzy-term-matcher.service.js';
+
+describe('FuzzyTermMatcherService', () => {
+  const matcher = new FuzzyTermMatcherService(new Map([
+    ['navigation', 40],
+    ['segmented', 6],
+    ['segment', 2],
+    ['slider', 9],
+    ['sidebar', 12],
+    ['toggle', 15],
+    ['tab', 30]
+  ]));
+
+  test('should find terms within two edits, closest and most common first', () => {
+    expect(matcher.lookup('navigaton')[0]).toEqual({ term: 'navigation', distance: 1, frequency: 40 });
+    expect(matcher.lookup('segmentd').map(m => m.term)).toEqual(['segmented', 'segment']);
+  });
+
+  test('should count adjacent transpositions as a single edit', () => {
+    expect(matcher.lookup('sldier')[0]).toMatchObject({ term: 'slider', distance: 1 });
+  });
+
+  test('should allow only one edit for short words', () => {
+    expect(matcher.lookup('tgle')).toEqual([]);
+    expect(matcher.lookup('tabb')[0]).toMatchObject({ term: 'tab', distance: 1 });
+  });
+
+  test('should not match exact or distant terms', () => {
+    expect(matcher.has('toggle')).toBe(true);
+    expect(matcher.lookup('toggle')).toEqual([]);
+    expect(matcher.lookup('keyboard')).toEqual([]);
+  });
+});
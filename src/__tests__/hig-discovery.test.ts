@@ -0,0 +1,168 @@
+/**
+ * Tests for live HIG discovery, run against a local stand-in for developer.apple.com
+ * serving a recorded navigation index and sitemaps
+ */
+
+import { promises as fs } from 'fs';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { ContentHIGDiscoveryService } from '../services/content/hig-discovery.service.js';
+import { ContentGeneratorService } from '../services/content/content-generator.service.js';
+import { FixtureContentSourceService } from '../services/content/content-source.service.js';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'discovery');
+
+describe('ContentHIGDiscoveryService live discovery', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: Array<{ path: string; time: number }>;
+  let navigationIndexAvailable: boolean;
+
+  beforeAll(async () => {
+    server = http.createServer(async (request, response) => {
+      const requestPath = request.url || '/';
+      requests.push({ path: requestPath, time: Date.now() });
+
+      const file = requestPath === '/tutorials/data/index/design--human-interface-guidelines'
+        ? (navigationIndexAvailable ? 'navigation-index.json' : null)
+        : requestPath.slice(1);
+      try {
+        const body = await fs.readFile(path.join(FIXTURES, file || 'missing'), 'utf-8');
+        response.writeHead(200, { 'Content-Type': file?.endsWith('.json') ? 'application/json' : 'application/xml' }).end(body);
+      } catch {
+        response.writeHead(404).end('Not found');
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/design/human-interface-guidelines`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    navigationIndexAvailable = true;
+  });
+
+  const discovery = (config: { maxDepth?: number; maxPages?: number; respectfulDelay?: number } = {}) =>
+    new ContentHIGDiscoveryService({ baseUrl, respectfulDelay: 0, ...config });
+
+  test('should classify the pages of the navigation index by platform and sidebar group', async () => {
+    const result = await discovery().crawlSections();
+
+    expect(result).toMatchObject({ source: 'navigation-index', truncated: false });
+    expect(result.sections).toHaveLength(18);
+    expect(result.sections.map(section => section.url)).not.toContain(expect.stringContaining('/documentation/'));
+
+    const byId = new Map(result.sections.map(section => [section.id, section]));
+    expect(byId.get('universal-liquid-glass')).toMatchObject({ title: 'Liquid Glass', category: 'foundations', url: `${baseUrl}/liquid-glass` });
+    expect(byId.get('ios-designing-for-ipados')).toMatchObject({ platform: 'iOS', category: 'foundations' });
+    expect(byId.get('macos-controls-on-mac')).toMatchObject({ platform: 'macOS', category: 'system-capabilities' });
+    expect(byId.get('watchos-complications')).toMatchObject({ platform: 'watchOS', category: 'system-capabilities' });
+    expect(byId.get('universal-buttons')).toMatchObject({ category: 'selection-and-input' });
+    expect(byId.get('universal-materials')?.platform).toBe('universal');
+    expect(byId.get('universal-carplay')?.category).toBe('technologies');
+
+    expect(result.links.find(link => link.url.endsWith('/pop-up-buttons'))).toMatchObject({ platform: 'macOS', depth: 3 });
+  });
+
+  test('should diff the crawl against the known section list', async () => {
+    const service = discovery();
+
+    const diff = service.diffWithKnownSections((await service.crawlSections()).sections);
+
+    expect(diff.added.map(section => section.id)).toEqual(['ios-designing-for-ipados', 'universal-liquid-glass', 'macos-controls-on-mac']);
+    expect(diff.missing.map(section => section.id)).toEqual(expect.arrayContaining(['universal-typography', 'visionos-ornaments']));
+    expect(diff.missing.map(section => section.id)).not.toContain('universal-buttons');
+    expect(diff.reclassified).toContainEqual({
+      section: expect.objectContaining({ id: 'universal-buttons', category: 'selection-and-input' }),
+      known: expect.objectContaining({ id: 'universal-buttons', category: 'visual-design' })
+    });
+    expect(diff.reclassified.map(({ section }) => section.id)).not.toContain('universal-carplay');
+  });
+
+  test('should stop at maxDepth and maxPages', async () => {
+    const shallow = await discovery({ maxDepth: 2 }).crawlSections();
+    expect(shallow.sections.map(section => section.id)).not.toContain('macos-pop-up-buttons');
+    expect(shallow.truncated).toBe(false);
+
+    const capped = await discovery({ maxPages: 5 }).crawlSections();
+    expect(capped.sections).toHaveLength(5);
+    expect(capped.truncated).toBe(true);
+  });
+
+  test('should fall back to the sitemap, following only its design sitemaps, with a delay between requests', async () => {
+    navigationIndexAvailable = false;
+
+    const result = await discovery({ respectfulDelay: 50 }).crawlSections();
+
+    expect(result.source).toBe('sitemap');
+    expect(result.sections.map(section => section.id)).toEqual(['universal-buttons', 'universal-liquid-glass', 'watchos-watch-faces', 'ios-designing-for-ipados']);
+    expect(result.sections[1]).toMatchObject({ title: 'Liquid Glass', url: `${baseUrl}/liquid-glass`, category: 'foundations' });
+    expect(requests.map(request => request.path)).toEqual(['/tutorials/data/index/design--human-interface-guidelines', '/sitemap.xml', '/sitemaps/design.xml']);
+    requests.slice(1).forEach((request, i) => expect(request.time - requests[i].time).toBeGreaterThanOrEqual(45));
+  });
+
+  test('should fail when neither source lists HIG pages', async () => {
+    navigationIndexAvailable = false;
+
+    await expect(new ContentHIGDiscoveryService({ baseUrl: `${baseUrl}-archive`, respectfulDelay: 0 }).crawlSections())
+      .rejects.toThrow('No HIG pages found in the navigation index or sitemap');
+  });
+
+  test('should let the generator discover sections live and report the difference', async () => {
+    const outputDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'hig-discover-'));
+    try {
+      const report = await new ContentGeneratorService(new FixtureContentSourceService(path.join(__dirname, 'fixtures', 'hig')), {
+        outputDirectory,
+        rateLimitDelay: 0,
+        liveDiscovery: { baseUrl, respectfulDelay: 0 }
+      }).generate();
+
+      expect(report.statistics).toMatchObject({ totalSections: 3, skipped: 15 });
+      expect(report.discovery).toMatchObject({
+        source: 'navigation-index',
+        truncated: false,
+        added: ['ios-designing-for-ipados', 'universal-liquid-glass', 'macos-controls-on-mac']
+      });
+      expect(report.discovery?.reclassified).toContain('universal-buttons');
+    } finally {
+      await fs.rm(outputDirectory, { recursive: true, force: true });
+    }
+  });
+
+  test('should keep generated sections the crawl did not find unless pruning', async () => {
+    const outputDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'hig-discover-'));
+    const generate = (prune?: boolean) => new ContentGeneratorService(new FixtureContentSourceService(path.join(__dirname, 'fixtures', 'hig')), {
+      outputDirectory,
+      rateLimitDelay: 0,
+      liveDiscovery: { baseUrl, respectfulDelay: 0 },
+      prune
+    }).generate();
+    try {
+      await generate();
+      // A page from an earlier run that the navigation index doesn't list
+      const indexPath = path.join(outputDirectory, 'metadata', 'search-index.json');
+      const index = JSON.parse(await fs.readFile(indexPath, 'utf-8'));
+      const retiredPath = path.join(outputDirectory, 'universal', 'retired.md');
+      await fs.writeFile(retiredPath, '---\ntitle: Retired\n---\n# Retired');
+      await fs.writeFile(indexPath, JSON.stringify([...index, { ...index[0], id: 'universal-retired', title: 'Retired', filename: 'retired.md' }]));
+
+      const kept = await generate();
+      expect(kept.discovery?.stale).toEqual(['universal-retired']);
+      expect(kept.changes.removed).toBe(0);
+      await expect(fs.access(retiredPath)).resolves.toBeUndefined();
+
+      const pruned = await generate(true);
+      expect(pruned.discovery?.stale).toEqual([]);
+      expect(pruned.changes.removed).toBe(1);
+      await expect(fs.access(retiredPath)).rejects.toThrow();
+    } finally {
+      await fs.rm(outputDirectory, { recursive: true, force: true });
+    }
+  });
+});
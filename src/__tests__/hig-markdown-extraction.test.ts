@@ -0,0 +1,104 @@
+/**
+ * Regression tests for HIG HTML to markdown extraction
+ *
+ * Each page in fixtures/processor is a saved HIG page next to the markdown it must produce.
+ */
+
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { ContentProcessorService } from '../services/content/content-processor.service.js';
+import { PassageChunkerService } from '../services/content/passage-chunker.service.js';
+import { PlatformGuidanceService } from '../services/platform-guidance.service.js';
+import type { HIGSection } from '../types.js';
+
+const CORPUS = path.join(__dirname, 'fixtures', 'processor');
+const pages = readdirSync(CORPUS).filter(file => file.endsWith('.html')).map(file => file.replace(/\.html$/, ''));
+
+const section = (title: string): HIGSection => ({
+  id: `universal-${title.toLowerCase().replace(/\s+/g, '-')}`,
+  title,
+  url: `https://developer.apple.com/design/human-interface-guidelines/${title.toLowerCase().replace(/\s+/g, '-')}`,
+  platform: 'universal',
+  category: 'foundations'
+});
+
+describe('HIG markdown extraction', () => {
+  const processor = new ContentProcessorService();
+  const convert = async (page: string, title: string) =>
+    (await processor.processContent(readFileSync(path.join(CORPUS, `${page}.html`), 'utf-8'), section(title))).cleanedMarkdown;
+
+  test.each(pages)('should convert %s.html to its saved markdown', async page => {
+    const expected = readFileSync(path.join(CORPUS, `${page}.md`), 'utf-8').trim();
+
+    expect(await convert(page, page)).toBe(expected);
+  });
+
+  test('should keep headings, nested lists, callouts and tables as markdown', async () => {
+    const markdown = await convert('app-icons', 'App icons');
+
+    expect(markdown).toMatch(/^# App icons\n\nA unique, memorable icon/);
+    expect(markdown).toContain('\n## Layer design\n');
+    expect(markdown).toContain('\n- **Foreground.** Use one or more foreground layers for the elements of your design.\n\n  - Keep foreground elements simple.\n');
+    expect(markdown).toContain('\n> Note\n>\n> Alternate app icons in iOS and iPadOS require their own dark, clear, and tinted variants.\n');
+    expect(markdown).toContain('| Platform | Layout shape | Icon shape after system masking | Layout size | Style | Appearances |\n| --- | --- | --- | --- | --- | --- |\n');
+    expect(markdown).toContain('| visionOS | Square | Circular | 1024x1024 px | Layered (3D) | N/A |');
+  });
+
+  test('should drop the page chrome and the trailing Resources and Change log sections', async () => {
+    const markdown = await convert('app-icons', 'App icons');
+
+    expect(markdown).not.toMatch(/Apple Developer Documentation|Developer|Copyright|Resources|Change log|June 9, 2025/);
+    expect(markdown.trim().split('\n').pop()).toBe('Use between two and five layers to create a sense of depth and vitality as your icon comes into focus.');
+  });
+
+  test('should keep the dated Change log rows the markdown drops', async () => {
+    const html = readFileSync(path.join(CORPUS, 'app-icons.html'), 'utf-8');
+
+    const result = await processor.processContent(html, section('App icons'));
+
+    expect(result.changeLog).toEqual([{ date: 'June 9, 2025', description: 'Updated guidance to reflect layered icons.' }]);
+    expect(result.frontMatter).toContain('change_log: [{"date":"June 9, 2025","description":"Updated guidance to reflect layered icons."}]');
+  });
+
+  test('should leave product names, numbers and code intact', async () => {
+    const markdown = await convert('writing', 'Writing');
+
+    expect(markdown).toContain('1. Write for everyone, using plain language.\n2. Consider');
+    expect(markdown).toContain('labels like `Save` and `Share`');
+    expect(markdown).toContain('```\nLabel("Add to Favorites", systemImage: "star")\n    .labelStyle(.titleAndIcon)\n```');
+    expect(markdown).toContain('\n> Important\n');
+    expect(markdown).toContain('[accessibility labels](https://developer.apple.com/design/human-interface-guidelines/accessibility)');
+    expect(markdown).not.toMatch(/\b(i OS|i Pad OS|mac OS|tv OS|watch OS|vision OS|3 D)\b/);
+  });
+
+  test('should rejoin product names split by earlier extraction', async () => {
+    const html = '<h2>Platform considerations</h2><p>In i OS, i Pad OS, and mac OS, people see a 3 D effect. Use Swift UI or UI Kit, and test with Voice Over and Car Play.</p>';
+
+    const { cleanedMarkdown } = await processor.processContent(html, section('Icons'));
+
+    expect(cleanedMarkdown).toContain('In iOS, iPadOS, and macOS, people see a 3D effect. Use SwiftUI or UIKit, and test with VoiceOver and CarPlay.');
+  });
+
+  test('should still detect pages that only render with JavaScript', async () => {
+    const html = readFileSync(path.join(__dirname, 'fixtures', 'hig', 'toggles.html'), 'utf-8');
+
+    const { quality } = await processor.processContent(html, section('Toggles'));
+
+    expect(quality.isFallbackContent).toBe(true);
+  });
+
+  test('should find platform blocks and passages under markdown platform headings', async () => {
+    const markdown = await convert('app-icons', 'App icons');
+
+    const blocks = new PlatformGuidanceService().extractPlatformBlocks(markdown);
+    expect([...blocks.keys()]).toEqual(['iOS', 'macOS', 'tvOS']);
+    expect(blocks.get('tvOS')).toBe('Use between two and five layers to create a sense of depth and vitality as your icon comes into focus.');
+
+    const passages = new PassageChunkerService().chunk(section('App icons'), markdown);
+    expect(passages.find(passage => passage.headingPath.includes('tvOS'))).toMatchObject({
+      headingPath: ['App icons', 'Platform considerations', 'tvOS'],
+      platforms: ['tvOS']
+    });
+    expect(passages.find(passage => passage.headingPath.includes('Specifications'))?.platforms).toBeUndefined();
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * HTTP transport tests (Streamable HTTP and SSE sessions, health check, CLI options)
+ */
+
+import http from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { HIGHttpServer } from '../http-server.js';
+import { parseServerOptions } from '../server-options.js';
+
+// global.fetch is mocked in jest.setup.js, so talk to the server with node:http
+function request(url: string, options: { method?: string; body?: unknown; headers?: Record<string, string> } = {}): Promise<{
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(url, {
+      method: options.method || 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...options.headers
+      }
+    }, res => {
+      let body = '';
+      res.on('data', chunk => body += chunk);
+      res.on('end', () => resolve({ status: res.statusCode || 0, headers: res.headers, body }));
+    });
+    req.on('error', reject);
+    if (options.body !== undefined) req.write(JSON.stringify(options.body));
+    req.end();
+  });
+}
+
+// Streamable HTTP answers POSTs as an SSE stream; pull the JSON-RPC message out of it
+function parseSseMessage(body: string): any {
+  const data = body.split('\n').find(line => line.startsWith('data: '));
+  return JSON.parse(data ? data.slice('data: '.length) : body);
+}
+
+// Open a legacy SSE stream; `next` resolves with the data of the next event of that type
+function openSseStream(url: string): Promise<{ next: (event: string) => Promise<string>; close: () => void }> {
+  return new Promise((resolve, reject) => {
+    const events: Array<{ event: string; data: string }> = [];
+    const waiting: Array<{ event: string; resolve: (data: string) => void }> = [];
+    const deliver = () => {
+      for (const waiter of [...waiting]) {
+        const index = events.findIndex(event => event.event === waiter.event);
+        if (index === -1) continue;
+        waiter.resolve(events.splice(index, 1)[0].data);
+        waiting.splice(waiting.indexOf(waiter), 1);
+      }
+    };
+
+    const req = http.get(url, { headers: { Accept: 'text/event-stream' } }, res => {
+      let buffer = '';
+      res.setEncoding('utf-8');
+      res.on('data', chunk => {
+        buffer += chunk;
+        let end;
+        while ((end = buffer.indexOf('\n\n')) !== -1) {
+          const lines = buffer.slice(0, end).split('\n');
+          buffer = buffer.slice(end + 2);
+          const event = lines.find(line => line.startsWith('event: '))?.slice('event: '.length) || 'message';
+          events.push({ event, data: lines.filter(line => line.startsWith('data: ')).map(line => line.slice('data: '.length)).join('\n') });
+        }
+        deliver();
+      });
+      resolve({
+        next: event => new Promise(resolveEvent => {
+          waiting.push({ event, resolve: resolveEvent });
+          deliver();
+        }),
+        close: () => req.destroy()
+      });
+    });
+    req.on('error', reject);
+  });
+}
+
+const waitFor = async (condition: () => Promise<boolean>): Promise<void> => {
+  for (let i = 0; i < 50 && !(await condition()); i++) {
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+};
+
+describe('HIGHttpServer', () => {
+  let httpServer: HIGHttpServer;
+  let contentAvailable: boolean;
+  let baseUrl: string;
+
+  const createServer = () => {
+    const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [{ name: 'search_human_interface_guidelines', inputSchema: { type: 'object' as const } }]
+    }));
+    return server;
+  };
+
+  beforeEach(async () => {
+    contentAvailable = true;
+    httpServer = new HIGHttpServer(createServer, async () => contentAvailable, { port: 0, host: '127.0.0.1' });
+    const port = await httpServer.start();
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    await httpServer.close();
+  });
+
+  test('should report content availability on /healthz', async () => {
+    const healthy = await request(`${baseUrl}/healthz`);
+    expect(healthy.status).toBe(200);
+    expect(JSON.parse(healthy.body)).toMatchObject({ status: 'ok', contentAvailable: true });
+
+    contentAvailable = false;
+    const degraded = await request(`${baseUrl}/healthz`);
+    expect(degraded.status).toBe(503);
+    expect(JSON.parse(degraded.body)).toMatchObject({ status: 'degraded', contentAvailable: false });
+  });
+
+  test('should serve independent Streamable HTTP sessions', async () => {
+    const initialize = {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+    };
+
+    const first = await request(`${baseUrl}/mcp`, { method: 'POST', body: initialize });
+    const second = await request(`${baseUrl}/mcp`, { method: 'POST', body: initialize });
+    const sessionId = first.headers['mcp-session-id'] as string;
+
+    expect(first.status).toBe(200);
+    expect(parseSseMessage(first.body).result.serverInfo.name).toBe('test');
+    expect(sessionId).toBeDefined();
+    expect(sessionId).not.toBe(second.headers['mcp-session-id']);
+
+    const headers = { 'mcp-session-id': sessionId, 'mcp-protocol-version': '2025-03-26' };
+    await request(`${baseUrl}/mcp`, { method: 'POST', headers, body: { jsonrpc: '2.0', method: 'notifications/initialized' } });
+    const list = await request(`${baseUrl}/mcp`, { method: 'POST', headers, body: { jsonrpc: '2.0', id: 2, method: 'tools/list' } });
+
+    expect(parseSseMessage(list.body).result.tools.map((tool: { name: string }) => tool.name))
+      .toEqual(['search_human_interface_guidelines']);
+
+    const health = JSON.parse((await request(`${baseUrl}/healthz`)).body);
+    expect(health.sessions.streamableHttp).toBe(2);
+  });
+
+  test('should serve the legacy SSE transport on /sse and /messages', async () => {
+    const stream = await openSseStream(`${baseUrl}/sse`);
+    try {
+      const endpoint = await stream.next('endpoint');
+      expect(endpoint).toMatch(/^\/messages\?sessionId=[\w-]+$/);
+      expect(JSON.parse((await request(`${baseUrl}/healthz`)).body).sessions.sse).toBe(1);
+
+      const initialize = await request(`${baseUrl}${endpoint}`, {
+        method: 'POST',
+        body: {
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'initialize',
+          params: { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+        }
+      });
+      // Replies come back on the stream, not in the POST response
+      expect(initialize.status).toBe(202);
+      expect(JSON.parse(await stream.next('message')).result.serverInfo.name).toBe('test');
+
+      await request(`${baseUrl}${endpoint}`, { method: 'POST', body: { jsonrpc: '2.0', method: 'notifications/initialized' } });
+      await request(`${baseUrl}${endpoint}`, { method: 'POST', body: { jsonrpc: '2.0', id: 2, method: 'tools/list' } });
+      expect(JSON.parse(await stream.next('message')).result.tools.map((tool: { name: string }) => tool.name))
+        .toEqual(['search_human_interface_guidelines']);
+    } finally {
+      stream.close();
+    }
+
+    const sseSessions = async () => JSON.parse((await request(`${baseUrl}/healthz`)).body).sessions.sse;
+    await waitFor(async () => await sseSessions() === 0);
+    expect(await sseSessions()).toBe(0);
+  });
+
+  test('should reject SSE messages for unknown sessions', async () => {
+    const unknown = await request(`${baseUrl}/messages?sessionId=unknown`, { method: 'POST', body: { jsonrpc: '2.0', id: 1, method: 'tools/list' } });
+    expect(unknown.status).toBe(404);
+
+    const missing = await request(`${baseUrl}/messages`, { method: 'POST', body: { jsonrpc: '2.0', id: 1, method: 'tools/list' } });
+    expect(missing.status).toBe(404);
+  });
+
+  test('should close Streamable HTTP sessions that stay idle', async () => {
+    await httpServer.close();
+    httpServer = new HIGHttpServer(createServer, async () => contentAvailable, { port: 0, host: '127.0.0.1', sessionIdleTimeout: 100 });
+    baseUrl = `http://127.0.0.1:${await httpServer.start()}`;
+
+    const initialize = await request(`${baseUrl}/mcp`, {
+      method: 'POST',
+      body: {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+      }
+    });
+    const sessionId = initialize.headers['mcp-session-id'] as string;
+    const streamableSessions = async () => JSON.parse((await request(`${baseUrl}/healthz`)).body).sessions.streamableHttp;
+    expect(await streamableSessions()).toBe(1);
+
+    await waitFor(async () => await streamableSessions() === 0);
+    expect(await streamableSessions()).toBe(0);
+
+    const expired = await request(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'mcp-session-id': sessionId, 'mcp-protocol-version': '2025-03-26' },
+      body: { jsonrpc: '2.0', id: 2, method: 'tools/list' }
+    });
+    expect(expired.status).toBe(404);
+  });
+
+  test('should reject requests without a valid session', async () => {
+    const missing = await request(`${baseUrl}/mcp`, { method: 'POST', body: { jsonrpc: '2.0', id: 1, method: 'tools/list' } });
+    expect(missing.status).toBe(400);
+    expect(JSON.parse(missing.body).error.message).toContain('No valid session ID');
+
+    const unknown = await request(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'mcp-session-id': 'unknown' },
+      body: { jsonrpc: '2.0', id: 1, method: 'tools/list' }
+    });
+    expect(unknown.status).toBe(404);
+  });
+});
+
+describe('parseServerOptions', () => {
+  test('should default to stdio', () => {
+    expect(parseServerOptions([])).toEqual({ transport: 'stdio', port: 3000, host: '127.0.0.1' });
+  });
+
+  test('should parse the HTTP transport flags', () => {
+    expect(parseServerOptions(['--transport', 'http', '--port=8080', '--host', '0.0.0.0']))
+      .toEqual({ transport: 'http', port: 8080, host: '0.0.0.0' });
+  });
+
+  test('should reject invalid values', () => {
+    expect(() => parseServerOptions(['--transport', 'websocket'])).toThrow('Invalid --transport');
+    expect(() => parseServerOptions(['--port', 'abc'])).toThrow('Invalid --port');
+    expect(() => parseServerOptions(['--port'])).toThrow('Missing value for --port');
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Tests for splitting HIG pages into heading-anchored passages
+ */
+
+import { PassageChunkerService } from '../services/content/passage-chunker.service.js';
+
+describe('PassageChunkerService', () => {
+  const chunker = new PassageChunkerService();
+  const section = { id: 'universal-sliders', title: 'Sliders' };
+
+  test('should split processed pages on inline headings and nest platform blocks', () => {
+    const markdown = 'Sliders A slider lets people choose a value. Best practices Customize the track. ' +
+      'Platform considerations Not supported in tv OS.i OS, i Pad OSDon’t use a slider for volume.mac OSConsider tick marks.';
+
+    const passages = chunker.chunk(section, markdown);
+
+    expect(passages.map(p => p.id)).toEqual([
+      'universal-sliders--overview',
+      'universal-sliders--best-practices',
+      'universal-sliders--platform-considerations',
+      'universal-sliders--platform-considerations--ios-ipados',
+      'universal-sliders--platform-considerations--macos'
+    ]);
+    expect(passages[3]).toEqual({
+      id: 'universal-sliders--platform-considerations--ios-ipados',
+      sectionId: 'universal-sliders',
+      headingPath: ['Sliders', 'Platform considerations', 'iOS, iPadOS'],
+      anchor: 'iOS-iPadOS',
+      platforms: ['iOS'],
+      text: 'Don’t use a slider for volume.'
+    });
+    expect(passages[0].anchor).toBeUndefined();
+  });
+
+  test('should pick up a platform heading glued to Platform considerations', () => {
+    const passages = chunker.chunk(section, 'Intro text. Platform considerationsi OSAim for portrait.');
+
+    expect(passages.map(p => p.headingPath)).toEqual([
+      ['Sliders'],
+      ['Sliders', 'Platform considerations', 'iOS']
+    ]);
+  });
+
+  test('should follow markdown heading levels when the page has them', () => {
+    const markdown = '# Sliders\n\nIntro.\n\n## Best practices\n\nKeep it simple.\n\n### Tick marks\n\nUse sparingly.\n\n## Resources\n\nRelated.';
+
+    const passages = chunker.chunk(section, markdown);
+
+    expect(passages.map(p => p.headingPath.join(' › '))).toEqual([
+      'Sliders',
+      'Sliders › Best practices',
+      'Sliders › Best practices › Tick marks',
+      'Sliders › Resources'
+    ]);
+    expect(passages[2].id).toBe('universal-sliders--best-practices--tick-marks');
+    expect(passages[2].anchor).toBe('Tick-marks');
+  });
+
+  test('should window long passages at sentence boundaries with numbered ids', () => {
+    const sentence = 'Use a slider to adjust a continuous value within a range. ';
+    const markdown = `Sliders. Best practices ${sentence.repeat(40)}`;
+
+    const passages = chunker.chunk(section, markdown).slice(1);
+
+    expect(passages.length).toBeGreaterThan(1);
+    expect(passages.map(p => p.id).slice(0, 2)).toEqual(['universal-sliders--best-practices', 'universal-sliders--best-practices-2']);
+    passages.forEach(passage => {
+      expect(passage.text.length).toBeLessThanOrEqual(1400);
+      expect(passage.text).toMatch(/^Use a slider/);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Unit tests for HIGPromptProvider
+ */
+
+import { HIGPromptProvider } from '../prompts.js';
+import type { HIGPromptMessage } from '../prompts.js';
+import { StaticContentSearchService } from '../services/static-content-search.service.js';
+
+const embeddedUris = (messages: HIGPromptMessage[]): string[] =>
+  messages.flatMap(message => message.content.type === 'resource' ? [message.content.resource.uri] : []);
+
+const instructionText = (messages: HIGPromptMessage[]): string => {
+  const last = messages[messages.length - 1].content;
+  return last.type === 'text' ? last.text : '';
+};
+
+describe('HIGPromptProvider', () => {
+  let promptProvider: HIGPromptProvider;
+
+  beforeEach(() => {
+    promptProvider = new HIGPromptProvider(new StaticContentSearchService('content'));
+  });
+
+  describe('listPrompts', () => {
+    test('should describe each design-review prompt with its arguments', () => {
+      const prompts = promptProvider.listPrompts();
+
+      expect(prompts.map(p => p.name)).toEqual(['review-swiftui-view', 'plan-visionos-port', 'accessibility-audit']);
+      prompts.forEach(prompt => {
+        expect(prompt.description.length).toBeGreaterThan(0);
+        expect(prompt.arguments.some(arg => arg.required)).toBe(true);
+      });
+    });
+  });
+
+  describe('getPrompt', () => {
+    test('should embed the HIG sections for the SwiftUI components used in the code', async () => {
+      const code = `
+        struct SettingsView: View {
+          @State private var enabled = false
+          var body: some View {
+            Toggle("Notifications", isOn: $enabled)
+            Button("Save") { save() }
+          }
+        }`;
+
+      const prompt = await promptProvider.getPrompt('review-swiftui-view', { code, platform: 'ios' });
+      const uris = embeddedUris(prompt.messages);
+
+      expect(uris).toEqual(expect.arrayContaining(['hig://universal/toggles', 'hig://universal/buttons', 'hig://ios/designing-for-ios']));
+      expect(instructionText(prompt.messages)).toContain('Toggle("Notifications"');
+      expect(prompt.description).toContain('iOS');
+    });
+
+    test('should ground a visionOS port in the visionOS guidance and the focused component', async () => {
+      const prompt = await promptProvider.getPrompt('plan-visionos-port', {
+        screen: 'A feed with a tab bar at the bottom and a floating compose button',
+        component: 'tab bars'
+      });
+      const uris = embeddedUris(prompt.messages);
+
+      expect(uris[0]).toBe('hig://visionos/designing-for-visionos');
+      expect(uris).toContain('hig://universal/tab-bars');
+      expect(uris).toContain('hig://visionos/ornaments');
+    });
+
+    test('should pair the component page with the Accessibility section for audits', async () => {
+      const prompt = await promptProvider.getPrompt('accessibility-audit', { component: 'sliders', platform: 'macOS' });
+      const [component] = prompt.messages;
+
+      expect(embeddedUris(prompt.messages)).toEqual(['hig://universal/sliders', 'hig://universal/accessibility']);
+      expect(component.content.type === 'resource' && component.content.resource.text.length).toBeGreaterThan(500);
+      expect(instructionText(prompt.messages)).toContain('sliders on macOS');
+    });
+
+    test('should reject unknown prompts, missing arguments and invalid platforms', async () => {
+      await expect(promptProvider.getPrompt('write-my-app')).rejects.toThrow('Unknown prompt: write-my-app');
+      await expect(promptProvider.getPrompt('accessibility-audit', {})).rejects.toThrow('Missing required argument: component');
+      await expect(promptProvider.getPrompt('accessibility-audit', { component: 'buttons', platform: 'android' }))
+        .rejects.toThrow('Invalid platform');
+    });
+  });
+});
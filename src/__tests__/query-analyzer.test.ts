@@ -0,0 +1,74 @@
+/**
+ * Tests for query understanding: entities, intent and the inferred platform
+ */
+
+import { QueryAnalyzerService } from '../services/query-analyzer.service.js';
+
+describe('QueryAnalyzerService', () => {
+  const analyzer = new QueryAnalyzerService([
+    { title: 'Tab Bars', platform: 'universal', category: 'visual-design' },
+    { title: 'Buttons', platform: 'universal', category: 'visual-design' },
+    { title: 'Typography', platform: 'universal', category: 'layout' },
+    { title: 'Tap To Pay On Iphone', platform: 'universal', category: 'technologies' },
+    { title: 'Designing For Watchos', platform: 'watchOS', category: 'foundations' }
+  ]);
+
+  test('should turn a platform mention into the platform and drop it from the query', () => {
+    const analysis = analyzer.analyze('tab bars on Apple Watch');
+
+    expect(analysis.platform).toBe('watchOS');
+    expect(analysis.processedQuery).toBe('tab bars');
+    expect(analysis.intent).toBe('find_component');
+    expect(analysis.category).toBe('visual-design');
+    expect(analysis.entities).toEqual([
+      { text: 'tab bars', type: 'component', confidence: 1, normalizedValue: 'Tab Bars' },
+      { text: 'Apple Watch', type: 'platform', confidence: 0.9, normalizedValue: 'watchOS' }
+    ]);
+  });
+
+  test('should recognize measurements as a request for specifications', () => {
+    const analysis = analyzer.analyze('Is 44pt big enough for a button?');
+
+    expect(analysis.intent).toBe('find_specification');
+    expect(analysis.entities.find(entity => entity.type === 'measurement')).toEqual(
+      { text: '44pt', type: 'measurement', confidence: 1, normalizedValue: '44pt' }
+    );
+    expect(analysis.keywords).toEqual(['big', 'enough', 'button']);
+  });
+
+  test('should compare platforms only when the query is about platforms', () => {
+    const twoPlatforms = analyzer.analyze('tab bars on iOS vs macOS');
+    expect(twoPlatforms.intent).toBe('compare_platforms');
+    expect(twoPlatforms.platform).toBeUndefined();
+    expect(twoPlatforms.processedQuery).toBe('tab bars');
+
+    expect(analyzer.analyze('buttons vs tab bars on iPad').intent).not.toBe('compare_platforms');
+    expect(analyzer.analyze('typography across platforms').intent).toBe('compare_platforms');
+  });
+
+  test('should prefer the longest phrase, so section titles that name a platform stay intact', () => {
+    const analysis = analyzer.analyze('tap to pay on iPhone');
+
+    expect(analysis.platform).toBeUndefined();
+    expect(analysis.entities.map(entity => entity.type)).toEqual(['concept']);
+    expect(analysis.processedQuery).toBe('tap to pay on iPhone');
+  });
+
+  test('should name a property the way the guidelines do', () => {
+    const analysis = analyzer.analyze('minimum tap targets');
+
+    expect(analysis.entities).toEqual([
+      { text: 'tap targets', type: 'property', confidence: 0.8, normalizedValue: 'hit region' }
+    ]);
+    expect(analysis.concepts).toEqual(['hit region']);
+    expect(analyzer.analyze('hit area').concepts).toEqual(['hit region']);
+  });
+
+  test('should classify intent from the wording', () => {
+    expect(analyzer.analyze('my buttons are too small').intent).toBe('troubleshoot');
+    expect(analyzer.analyze('examples of typography').intent).toBe('find_example');
+    expect(analyzer.analyze('when should I use a tab bar').intent).toBe('find_guideline');
+    expect(analyzer.analyze('how do I make my app feel calm').intent).toBe('find_guideline');
+    expect(analyzer.analyze('calm').intent).toBe('general_search');
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Unit tests for HIGResourceProvider
+ */
+
+import { HIGResourceProvider } from '../resources.js';
+import { StaticContentSearchService } from '../services/static-content-search.service.js';
+
+describe('HIGResourceProvider', () => {
+  let resourceProvider: HIGResourceProvider;
+
+  beforeEach(() => {
+    resourceProvider = new HIGResourceProvider(new StaticContentSearchService('content'));
+  });
+
+  describe('listResources', () => {
+    test('should expose every indexed section with a hig:// URI', async () => {
+      const resources = await resourceProvider.listResources();
+
+      expect(resources.length).toBeGreaterThan(100);
+      resources.forEach(resource => {
+        expect(resource.uri).toMatch(/^hig:\/\/[a-z]+\/[a-z0-9-]+$/);
+        expect(resource.mimeType).toBe('text/markdown');
+        expect(resource.name.length).toBeGreaterThan(0);
+      });
+
+      const uris = resources.map(r => r.uri);
+      expect(uris).toContain('hig://macos/windows');
+      expect(uris).toContain('hig://universal/buttons');
+      expect(new Set(uris).size).toBe(uris.length);
+    });
+  });
+
+  describe('listResourceTemplates', () => {
+    test('should describe the platform/slug URI template', () => {
+      const templates = resourceProvider.listResourceTemplates();
+
+      expect(templates).toHaveLength(1);
+      expect(templates[0].uriTemplate).toBe('hig://{platform}/{slug}');
+    });
+  });
+
+  describe('readResource', () => {
+    test('should return the full page markdown without front matter', async () => {
+      const resource = await resourceProvider.readResource('hig://macos/windows');
+
+      expect(resource.uri).toBe('hig://macos/windows');
+      expect(resource.name).toContain('Windows');
+      expect(resource.content.length).toBeGreaterThan(1000);
+      expect(resource.content).not.toMatch(/^---\n/);
+      expect(resource.content).not.toContain('quality_score:');
+    });
+
+    test('should accept mixed-case URIs', async () => {
+      const resource = await resourceProvider.readResource('hig://iOS/app-icons');
+
+      expect(resource.uri).toBe('hig://ios/app-icons');
+    });
+
+    test('should reject malformed URIs', async () => {
+      await expect(resourceProvider.readResource('https://example.com/buttons'))
+        .rejects.toThrow('Invalid resource URI');
+    });
+
+    test('should reject unknown sections', async () => {
+      await expect(resourceProvider.readResource('hig://macos/does-not-exist'))
+        .rejects.toThrow('Resource not found');
+    });
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Tests for opaque pagination cursors
+ */
+
+import { SearchCursorService } from '../services/search-cursor.service.js';
+
+describe('SearchCursorService', () => {
+  const cursors = new SearchCursorService();
+  const items = ['a', 'b', 'c', 'd', 'e'];
+  const scope = { tool: 'search', query: 'Buttons', platform: 'iOS' };
+
+  test('should walk a list a page at a time and stop on the last page', () => {
+    const first = cursors.page(items, scope, undefined, 2);
+    const second = cursors.page(items, scope, first.nextCursor, 2);
+    const last = cursors.page(items, scope, second.nextCursor, 2);
+
+    expect([first.items, second.items, last.items]).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+    expect(last.nextCursor).toBeUndefined();
+    expect([first.total, last.total]).toEqual([5, 5]);
+    expect(first.nextCursor).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  test('should accept the same search regardless of key order, case and unset filters', () => {
+    const cursor = cursors.encode(scope, 4);
+
+    expect(cursors.decode(cursor, { platform: 'iOS', query: ' buttons ', tool: 'search', category: undefined })).toBe(4);
+  });
+
+  test('should reject cursors from another search and malformed cursors', () => {
+    const cursor = cursors.encode(scope, 2);
+
+    expect(() => cursors.decode(cursor, { ...scope, platform: 'macOS' })).toThrow('different query or filters');
+    expect(() => cursors.decode('not a cursor', scope)).toThrow('Invalid cursor');
+    expect(() => cursors.decode(Buffer.from('{"v":1,"s":"x","o":-1}').toString('base64url'), scope)).toThrow('Invalid cursor');
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Tests for highlighting where search results matched
+ */
+
+import { SearchHighlighterService } from '../services/search-highlighter.service.js';
+
+describe('SearchHighlighterService', () => {
+  const highlighter = new SearchHighlighterService();
+  const result = {
+    title: 'Tab Bars',
+    headingPath: ['Tab Bars', 'Best practices'],
+    content: 'Use a tab bar to support navigation, not to provide actions. Keep tab titles short.'
+  };
+
+  test('should report each matched field with offsets into its text', () => {
+    const highlights = highlighter.highlight(result, ['tab bars', 'toolbar'], 'tab bars');
+
+    expect(highlights.map(h => h.field)).toEqual(['title', 'keyword', 'body']);
+    expect(highlights[0]).toEqual({
+      field: 'title',
+      text: 'Tab Bars',
+      snippet: '**Tab Bars**',
+      matches: [
+        { start: 0, end: 3, term: 'tab', source: 'query' },
+        { start: 4, end: 8, term: 'bar', source: 'query' }
+      ]
+    });
+
+    const body = highlights[2];
+    expect(body.text).toBeUndefined();
+    expect(body.matches.map(m => result.content.slice(m.start, m.end))).toEqual(['tab', 'bar', 'tab']);
+    expect(body.snippet).toBe('Use a **tab bar** to support navigation, not to provide actions. Keep **tab** titles short.');
+  });
+
+  test('should mark words that only matched through a synonym expansion', () => {
+    const highlights = highlighter.highlight(result, [], 'bottom bar', ['navigation']);
+    const body = highlights.find(h => h.field === 'body');
+
+    expect(highlights.find(h => h.field === 'heading')).toBeUndefined();
+    expect(body?.matches).toContainEqual({ start: 25, end: 35, term: 'navigation', source: 'synonym' });
+    expect(body?.snippet).toContain('**navigation**');
+  });
+
+  test('should cut long bodies to windows around the matches', () => {
+    const filler = 'Lorem ipsum dolor sit amet. '.repeat(20);
+    const content = `${filler}Place the tab bar at the bottom. ${filler}`;
+
+    const [body] = highlighter.highlight({ title: 'Other', content }, [], 'how do I place a tab bar');
+
+    expect(body.snippet).toMatch(/^….*\*\*Place\*\* the \*\*tab bar\*\* at the bottom\..*…$/);
+    expect(body.snippet.length).toBeLessThan(300);
+    expect(body.matches.map(m => m.term)).toEqual(['place', 'tab', 'bar']);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests for the offline embeddings and their use in search ranking
+ */
+
+import { SemanticVectorizerService } from '../services/content/semantic-vectorizer.service.js';
+import { StaticContentSearchService } from '../services/static-content-search.service.js';
+import type { SemanticSearchResult } from '../types.js';
+
+describe('SemanticVectorizerService', () => {
+  const vectorizer = new SemanticVectorizerService(undefined, 2, 1);
+  const corpus = [
+    'Car engine and wheels',
+    'Automobile engine with four wheels',
+    'Automobile dealership',
+    'Flower petals in the garden',
+    'Garden soil for flower beds'
+  ];
+
+  test('should fit the same model every time', () => {
+    expect(vectorizer.fit(corpus)).toEqual(vectorizer.fit(corpus));
+  });
+
+  test('should place documents about the same concept close together', () => {
+    const model = vectorizer.fit(corpus);
+    const embed = (text: string) => vectorizer.embed(model, text);
+
+    // "car" never appears next to "dealership", but both share vocabulary with the automobile documents
+    const query = embed('car');
+    expect(vectorizer.similarity(query, embed(corpus[2]))).toBeGreaterThan(vectorizer.similarity(query, embed(corpus[4])));
+    expect(embed('car').dimension).toBe(2);
+    expect(embed('car').model).toBe(`tfidf-lsa-${model.terms.length}x2`);
+  });
+
+  test('should embed text without known terms as a zero vector', () => {
+    const model = vectorizer.fit(corpus);
+
+    expect(vectorizer.embed(model, 'the and of').values).toEqual([0, 0]);
+    expect(vectorizer.embed(model, 'tulip').values).toEqual([0, 0]);
+  });
+
+  test('should leave out terms of a single document by default', () => {
+    const model = new SemanticVectorizerService(undefined, 2).fit(corpus);
+
+    expect(model.terms).not.toContain('dealership');
+    expect(model.terms).toEqual(expect.arrayContaining(['engine', 'wheel']));
+  });
+});
+
+describe('StaticContentSearchService with semantic scores', () => {
+  // Kept out of scripts/conceptual-queries.json, which the semantic weights are tuned on
+  const conceptual: Array<[string, string]> = [
+    ['what happens right after the app starts', 'universal-launching'],
+    ['where people look selects things in the headset', 'visionos-eyes'],
+    ['people who cannot see the screen', 'universal-accessibility']
+  ];
+
+  test.each(conceptual)('should find guidance for "%s" in %s', async (query, id) => {
+    const search = new StaticContentSearchService('content');
+    const [best] = await search.searchPassages(query);
+
+    expect(best.id).toBe(id);
+  });
+
+  test('should rank the conceptual pages first', async () => {
+    const search = new StaticContentSearchService('content');
+
+    for (const [query, id] of conceptual.slice(0, 2)) {
+      const [page] = await search.searchContent(query, undefined, undefined, 1);
+      expect(page.id).toBe(id);
+    }
+  });
+
+  test('should not find conceptual guidance by keywords alone', async () => {
+    const keywordOnly = new StaticContentSearchService('content', { semanticWeight: 0 });
+
+    for (const [query, id] of conceptual) {
+      const [best] = await keywordOnly.searchPassages(query);
+      const [page] = await keywordOnly.searchContent(query, undefined, undefined, 1);
+      expect(best?.id).not.toBe(id);
+      expect(page?.id).not.toBe(id);
+    }
+  });
+
+  test('should report the score components and honor the configured weights', async () => {
+    const keywordOnly = new StaticContentSearchService('content', { semanticWeight: 0 });
+    const [result] = await keywordOnly.searchContent('tab bars', undefined, undefined, 1) as SemanticSearchResult[];
+
+    expect(result.semanticScore).toBeGreaterThan(0.5);
+    expect(result.relevanceScore).toBeCloseTo(result.keywordScore + result.contextualScore + result.structureScore);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Tests for tool output schemas and their markdown renderings
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ListToolsRequestSchema, CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { HIGCache } from '../cache.js';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { HIGToolProvider } from '../tools.js';
+import { StaticContentSearchService } from '../services/static-content-search.service.js';
+import { ContentGeneratorService } from '../services/content/content-generator.service.js';
+import { FixtureContentSourceService } from '../services/content/content-source.service.js';
+import { TOOL_DEFINITIONS } from '../tool-definitions.js';
+import { formatToolResult, excerpt } from '../tool-formatters.js';
+import type {
+  SearchGuidelinesArgs,
+  GetHIGSectionArgs,
+  GetRelatedSectionsArgs,
+  GetComponentSpecArgs,
+  GetSpecificationTableArgs,
+  ComparePlatformsArgs,
+  GetLatestUpdatesArgs,
+  ListHIGSectionsArgs,
+  GetAccessibilityRequirementsArgs,
+  SearchTechnicalArgs,
+  SearchUnifiedArgs
+} from '../types.js';
+
+describe('Tool output', () => {
+  let toolProvider: HIGToolProvider;
+  let client: Client;
+  let tableDirectory: string;
+
+  beforeAll(async () => {
+    toolProvider = new HIGToolProvider(new HIGCache(60), undefined, new StaticContentSearchService('content'));
+
+    // The bundled content has no tables yet; generate a page that does
+    tableDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'hig-tables-'));
+    await new ContentGeneratorService(new FixtureContentSourceService(path.join(__dirname, 'fixtures', 'processor')), {
+      outputDirectory: tableDirectory,
+      rateLimitDelay: 0,
+      sections: ['ios-app-icons']
+    }).generate();
+    const tableProvider = new HIGToolProvider(new HIGCache(60), undefined, new StaticContentSearchService(tableDirectory));
+
+    // Arguments arrive as a JSON object; each tool validates its own
+    const calls: Record<string, (args: Record<string, unknown>) => Promise<unknown>> = {
+      search_human_interface_guidelines: args => toolProvider.searchHumanInterfaceGuidelines(args as unknown as SearchGuidelinesArgs),
+      get_hig_section: args => toolProvider.getHIGSection(args as unknown as GetHIGSectionArgs),
+      get_related_sections: args => toolProvider.getRelatedSections(args as unknown as GetRelatedSectionsArgs),
+      get_component_spec: args => toolProvider.getComponentSpec(args as unknown as GetComponentSpecArgs),
+      get_specification_table: args => tableProvider.getSpecificationTable(args as unknown as GetSpecificationTableArgs),
+      compare_platforms: args => toolProvider.comparePlatforms(args as unknown as ComparePlatformsArgs),
+      get_latest_updates: args => toolProvider.getLatestUpdates(args as unknown as GetLatestUpdatesArgs),
+      list_hig_sections: args => toolProvider.listHIGSections(args as unknown as ListHIGSectionsArgs),
+      get_accessibility_requirements: args => toolProvider.getAccessibilityRequirements(args as unknown as GetAccessibilityRequirementsArgs),
+      search_technical_documentation: args => toolProvider.searchTechnicalDocumentation(args as unknown as SearchTechnicalArgs),
+      search_unified: args => toolProvider.searchUnified(args as unknown as SearchUnifiedArgs)
+    };
+
+    // Same result shape as the CallTool handler in server.ts
+    const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: TOOL_DEFINITIONS }));
+    server.setRequestHandler(CallToolRequestSchema, async request => {
+      const result = await calls[request.params.name](request.params.arguments || {});
+      return {
+        content: [{ type: 'text', text: formatToolResult(request.params.name, result) }],
+        structuredContent: JSON.parse(JSON.stringify(result))
+      };
+    });
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    // The client validates structuredContent against the listed output schemas
+    await client.listTools();
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await fs.rm(tableDirectory, { recursive: true, force: true });
+  });
+
+  test('should declare an output schema for every tool', () => {
+    TOOL_DEFINITIONS.forEach(tool => {
+      expect(tool.outputSchema).toMatchObject({ type: 'object' });
+      expect(tool.outputSchema?.required?.length).toBeGreaterThan(0);
+    });
+  });
+
+  test('should list every tool in the extension manifest', async () => {
+    const manifest = JSON.parse(await fs.readFile(path.join(__dirname, '..', '..', 'manifest.json'), 'utf-8'));
+
+    expect(manifest.tools.map((tool: { name: string }) => tool.name).sort()).toEqual(TOOL_DEFINITIONS.map(tool => tool.name).sort());
+  });
+
+  test.each([
+    ['search_human_interface_guidelines', { query: 'buttons', platform: 'iOS' }],
+    ['get_hig_section', { section: 'macos-windows' }],
+    ['get_related_sections', { section: 'Buttons', depth: 2 }],
+    ['get_component_spec', { componentName: 'Home Screen quick actions' }],
+    ['get_specification_table', { query: 'tvOS app icon layout size' }],
+    ['compare_platforms', { componentName: 'buttons' }],
+    ['get_latest_updates', { limit: 5 }],
+    ['list_hig_sections', { platform: 'macOS', limit: 10 }],
+    ['get_accessibility_requirements', { component: 'Toggles', platform: 'iOS' }],
+    ['search_technical_documentation', { query: 'UIButton' }],
+    ['search_unified', { query: 'navigation' }]
+  ])('%s should return structuredContent matching its output schema', async (name, args) => {
+    const result = await client.callTool({ name, arguments: args });
+
+    expect(result.structuredContent).toBeDefined();
+    expect(result.content).toEqual([expect.objectContaining({ type: 'text' })]);
+  });
+
+  test('should render search results as compact markdown with title, URL and excerpt', async () => {
+    const result = await toolProvider.searchHumanInterfaceGuidelines({ query: 'buttons', fullContent: true });
+    const text = formatToolResult('search_human_interface_guidelines', result);
+
+    expect(text).toMatch(/^# HIG results for "buttons"/);
+    expect(text).toContain(result.results[0].url);
+    expect(text.length).toBeLessThan(JSON.stringify(result).length / 4);
+  });
+
+  test('should render update dates as ISO days', async () => {
+    const result = await toolProvider.getLatestUpdates({ limit: 3 });
+    const text = formatToolResult('get_latest_updates', result);
+
+    expect(text.split('\n').filter(line => /^- \d{4}-\d{2}-\d{2} · \[/.test(line))).toHaveLength(3);
+  });
+
+  test('should cut excerpts at a word boundary', () => {
+    expect(excerpt('short text')).toBe('short text');
+    expect(excerpt('one two three four five', 12)).toBe('one two…');
+  });
+});
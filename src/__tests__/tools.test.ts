@@ -1,5 +1,13 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
 import { HIGToolProvider } from '../tools.js';
 import { HIGCache } from '../cache.js';
+import { ContentGeneratorService } from '../services/content/content-generator.service.js';
+import { FixtureContentSourceService } from '../services/content/content-source.service.js';
+import { StaticContentSearchService } from '../services/static-content-search.service.js';
+import { TOOL_DEFINITIONS } from '../tool-definitions.js';
+import type { ApplePlatform } from '../types.js';
 
 describe('HIGToolProvider', () => {
   let cache: HIGCache;
@@ -64,6 +72,69 @@ describe('HIGToolProvider', () => {
       }
     });
 
+    test('should answer touch target questions with the hit region passage', async () => {
+      for (const query of ['minimum hit area', 'minimum touch target', 'tap target size']) {
+        const [best] = (await toolProvider.searchHumanInterfaceGuidelines({ query })).results;
+        expect(best.id).toBe('universal-buttons');
+        expect(best.headingPath).toEqual(['Buttons', 'Best practices']);
+        expect(best.content).toContain('hit region of at least 44 x 44 pt');
+      }
+    });
+
+    test('should page through passages with cursors without repeating a result', async () => {
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      for (let page = 0; page < 4; page++) {
+        const result = await toolProvider.searchHumanInterfaceGuidelines({ query: 'buttons', limit: 5, cursor });
+        expect(result.results).toHaveLength(5);
+        seen.push(...result.results.map(r => r.passageId || r.url));
+        cursor = result.nextCursor;
+        expect(cursor).toBeDefined();
+        expect(result.totalMatches).toBeGreaterThan(result.results.length);
+      }
+
+      expect(new Set(seen).size).toBe(seen.length);
+
+      const again = await toolProvider.searchHumanInterfaceGuidelines({ query: 'buttons', limit: 10 });
+      expect(again.results.map(r => r.passageId || r.url)).toEqual(seen.slice(0, 10));
+    });
+
+    test('should count every match and page past the first 50', async () => {
+      let result = await toolProvider.searchHumanInterfaceGuidelines({ query: 'buttons', limit: 20 });
+      const totalMatches = result.totalMatches;
+      let seen = result.total;
+      while (result.nextCursor) {
+        result = await toolProvider.searchHumanInterfaceGuidelines({ query: 'buttons', limit: 20, cursor: result.nextCursor });
+        expect(result.totalMatches).toBe(totalMatches);
+        seen += result.total;
+      }
+
+      expect(totalMatches).toBeGreaterThan(50);
+      expect(seen).toBe(totalMatches);
+    });
+
+    test('should reject cursors from a different search and out-of-range limits', async () => {
+      const first = await toolProvider.searchHumanInterfaceGuidelines({ query: 'buttons' });
+
+      await expect(toolProvider.searchHumanInterfaceGuidelines({ query: 'toggles', cursor: first.nextCursor }))
+        .rejects.toThrow('Invalid cursor');
+      await expect(toolProvider.searchHumanInterfaceGuidelines({ query: 'buttons', cursor: 'not-a-cursor' }))
+        .rejects.toThrow('Invalid cursor');
+      await expect(toolProvider.searchHumanInterfaceGuidelines({ query: 'buttons', limit: 21 }))
+        .rejects.toThrow('Invalid limit');
+    });
+
+    test('should filter by category', async () => {
+      const result = await toolProvider.searchHumanInterfaceGuidelines({ query: 'bars', category: 'navigation', limit: 10 });
+
+      expect(result.results.length).toBeGreaterThan(0);
+      expect(result.results.every(r => r.category === 'navigation')).toBe(true);
+      expect(result.filters.category).toBe('navigation');
+
+      const none = await toolProvider.searchHumanInterfaceGuidelines({ query: 'bars', category: 'motion' });
+      expect(none.results).toEqual([]);
+    });
+
     test('should return results for any valid query due to fallback logic', async () => {
       const result = await toolProvider.searchHumanInterfaceGuidelines({
         query: 'NonExistentComponent'
@@ -74,37 +145,457 @@ describe('HIGToolProvider', () => {
       expect(Array.isArray(result.results)).toBe(true);
       expect(result.total).toBe(result.results.length);
     });
+
+    test('should match misspelled queries and suggest a correction', async () => {
+      const result = await toolProvider.searchHumanInterfaceGuidelines({
+        query: 'segmnted control'
+      });
+
+      expect(result.results[0].id).toBe('universal-segmented-controls');
+      expect(result.didYouMean).toBe('segmented control');
+    });
+
+    test('should rank the corrected component first for a misspelled query', async () => {
+      const result = await toolProvider.searchHumanInterfaceGuidelines({
+        query: 'navigaton bar'
+      });
+
+      expect(result.results[0].id).toBe('universal-navigation-bars');
+      expect(result.didYouMean).toBe('navigation bar');
+    });
+
+    test('should not suggest corrections for well-matched queries', async () => {
+      const result = await toolProvider.searchHumanInterfaceGuidelines({
+        query: 'tab bars'
+      });
+
+      expect(result.didYouMean).toBeUndefined();
+    });
+
+    test('should return the matching passage with its heading path and a link to the section', async () => {
+      const result = await toolProvider.searchHumanInterfaceGuidelines({
+        query: 'segmented control toolbar',
+        platform: 'iOS'
+      });
+
+      const [best] = result.results;
+      expect(best.id).toBe('universal-segmented-controls');
+      expect(best.passageId).toBe('universal-segmented-controls--platform-considerations--ios-ipados');
+      expect(best.headingPath).toEqual(['Segmented Controls', 'Platform considerations', 'iOS, iPadOS']);
+      expect(best.url).toBe(`${best.sectionUrl}#iOS-iPadOS`);
+      expect(best.content).toMatch(/^Avoid using a segmented control in a toolbar/);
+    });
+
+    test('should take the platform from the query and echo how it was understood', async () => {
+      const result = await toolProvider.searchHumanInterfaceGuidelines({
+        query: 'segmented control toolbar on iPhone'
+      });
+
+      expect(result.filters.platform).toBe('iOS');
+      expect(result.analysis?.processedQuery).toBe('segmented control toolbar');
+      expect(result.results[0].passageId).toBe('universal-segmented-controls--platform-considerations--ios-ipados');
+    });
+
+    test('should return a block for each platform being compared', async () => {
+      const result = await toolProvider.searchHumanInterfaceGuidelines({
+        query: 'toggles on iPhone and Mac'
+      });
+
+      expect(result.analysis?.intent).toBe('compare_platforms');
+      expect(result.results.slice(0, 2).map(r => r.headingPath?.[1]).sort()).toEqual(['iOS, iPadOS', 'macOS']);
+    });
+
+    test('should return whole pages when fullContent is requested', async () => {
+      const passages = await toolProvider.searchHumanInterfaceGuidelines({ query: 'tab bars' });
+      const pages = await toolProvider.searchHumanInterfaceGuidelines({ query: 'tab bars', fullContent: true });
+
+      expect(passages.results[0].passageId).toBe('universal-tab-bars--overview');
+      expect(pages.results[0].id).toBe('universal-tab-bars');
+      expect(pages.results[0].passageId).toBeUndefined();
+      expect(pages.results[0].content.length).toBeGreaterThan(passages.results[0].content.length);
+    });
+  });
+
+
+  describe('Search Unified', () => {
+    test('should search only the design guidelines when asked, a page at a time', async () => {
+      const first = await toolProvider.searchUnified({ query: 'navigation', searchType: 'design', limit: 4 });
+
+      expect(first.sources).toEqual(['design-guidelines']);
+      expect(first.technicalResults).toEqual([]);
+      expect(first.results).toHaveLength(4);
+      expect(first.results.every(r => r.type === 'design')).toBe(true);
+      expect(first.designResults.map(r => r.url)).toEqual(first.results.map(r => r.url));
+      expect(first.nextCursor).toBeDefined();
+      expect(first.totalMatches).toBeGreaterThan(first.results.length);
+
+      const second = await toolProvider.searchUnified({ query: 'navigation', searchType: 'design', limit: 4, cursor: first.nextCursor });
+      expect(second.results.length).toBeGreaterThan(0);
+      expect(second.results.map(r => r.id)).not.toEqual(expect.arrayContaining([first.results[0].id]));
+    });
+
+    test('should validate search type, category and limit', async () => {
+      await expect(toolProvider.searchUnified({ query: 'navigation', searchType: 'code' as 'design' }))
+        .rejects.toThrow('Invalid searchType');
+      await expect(toolProvider.searchUnified({ query: 'navigation', category: 'widgets' as 'layout' }))
+        .rejects.toThrow('Invalid category');
+      await expect(toolProvider.searchUnified({ query: 'navigation', limit: 51 }))
+        .rejects.toThrow('Invalid limit');
+      await expect(toolProvider.searchUnified({ query: 'navigation', searchType: 'design', cursor: 'eyJ2IjoxfQ' }))
+        .rejects.toThrow('Invalid cursor');
+    });
+  });
+
+  describe('Get HIG Section', () => {
+    test('should resolve a section by id with metadata and related sections', async () => {
+      const result = await toolProvider.getHIGSection({ section: 'universal-buttons' });
+
+      expect(result.id).toBe('universal-buttons');
+      expect(result.title).toBe('Buttons');
+      expect(result.content.length).toBeGreaterThan(1000);
+      expect(result.content).not.toContain('quality_score:');
+      expect(typeof result.metadata.qualityScore).toBe('number');
+      expect(result.metadata.keywords).toContain('buttons');
+      expect(result.metadata.lastUpdated).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+      expect(result.relatedSections.length).toBeGreaterThan(0);
+      expect(result.relatedSections.map(r => r.id)).not.toContain('universal-buttons');
+    });
+
+    test('should resolve a section by canonical URL', async () => {
+      const result = await toolProvider.getHIGSection({
+        section: 'https://developer.apple.com/design/human-interface-guidelines/pop-up-buttons/'
+      });
+
+      expect(result.id).toBe('macos-pop-up-buttons');
+    });
+
+    test('should resolve titles case-insensitively and honor the platform hint', async () => {
+      const universal = await toolProvider.getHIGSection({ section: 'MATERIALS' });
+      const visionOS = await toolProvider.getHIGSection({ section: 'materials', platform: 'visionOS' });
+
+      expect(universal.id).toBe('universal-materials');
+      expect(visionOS.id).toBe('visionos-materials');
+    });
+
+    test('should list the closest ids when a section is not found', async () => {
+      await expect(toolProvider.getHIGSection({ section: 'universal-buttns' }))
+        .rejects.toThrow(/Section not found: "universal-buttns"\. Closest matches: universal-buttons/);
+    });
+
+    test('should reject empty identifiers', async () => {
+      await expect(toolProvider.getHIGSection({ section: '  ' }))
+        .rejects.toThrow('Invalid section');
+    });
   });
 
+  describe('Get Related Sections', () => {
+    test('should list child sections and read the link back as a parent', async () => {
+      const buttons = await toolProvider.getRelatedSections({ section: 'universal-buttons' });
+      const children = buttons.related.filter(r => r.relationshipType === 'child').map(r => r.id);
+      expect(children).toEqual(expect.arrayContaining(['macos-pop-up-buttons', 'macos-pull-down-buttons']));
+      expect(buttons.related.every(r => r.depth === 1 && r.via === 'universal-buttons')).toBe(true);
 
-  // TODO: Future release - re-enable when accessibility tool is reimplemented
-  // describe('Get Accessibility Requirements', () => {
-  //   test('should get accessibility requirements for button', async () => {
-  //     const result = await toolProvider.getAccessibilityRequirements({
-  //       component: 'Button',
-  //       platform: 'iOS'
-  //     });
-
-  //     expect(result.component).toBe('Button');
-  //     expect(result.platform).toBe('iOS');
-  //     expect(result.requirements).toBeDefined();
-  //     expect(result.requirements.minimumTouchTarget).toBeDefined();
-  //     expect(result.requirements.contrastRatio).toBeDefined();
-  //     expect(result.requirements.voiceOverSupport).toBeDefined();
-  //     expect(result.requirements.keyboardNavigation).toBeDefined();
-  //     expect(result.requirements.wcagCompliance).toBeDefined();
-  //   });
-
-  //   test('should get accessibility requirements for navigation', async () => {
-  //     const result = await toolProvider.getAccessibilityRequirements({
-  //       component: 'Navigation Bar',
-  //       platform: 'iOS'
-  //     });
-
-  //     expect(result.requirements.voiceOverSupport).toContain('Navigation bar trait');
-  //     expect(result.requirements.keyboardNavigation).toContain('Tab navigation through interactive elements');
-  //   });
-  // });
+      const popUp = await toolProvider.getRelatedSections({ section: 'macos-pop-up-buttons' });
+      expect(popUp.related.find(r => r.id === 'universal-buttons')?.relationshipType).toBe('parent');
+    });
+
+    test('should walk further hops with scores multiplied along the path', async () => {
+      const result = await toolProvider.getRelatedSections({ section: 'Buttons', depth: 2, limit: 100 });
+      const depths = result.related.map(r => r.depth);
+
+      expect(depths).toEqual([...depths].sort());
+      expect(new Set(result.related.map(r => r.id)).size).toBe(result.related.length);
+      expect(result.related.map(r => r.id)).not.toContain('universal-buttons');
+
+      const secondHop = result.related.filter(r => r.depth === 2);
+      expect(secondHop.length).toBeGreaterThan(0);
+      secondHop.forEach(node => {
+        const via = result.related.find(r => r.id === node.via);
+        expect(via?.depth).toBe(1);
+        expect(node.relevanceScore).toBeLessThanOrEqual(via!.relevanceScore);
+      });
+    });
+
+    test('should follow only the requested relationship types', async () => {
+      const result = await toolProvider.getRelatedSections({ section: 'universal-buttons', relationshipTypes: ['child'] });
+
+      expect(result.related.length).toBeGreaterThan(0);
+      expect(result.related.every(r => r.relationshipType === 'child')).toBe(true);
+    });
+
+    test('should reject out-of-range depth', async () => {
+      await expect(toolProvider.getRelatedSections({ section: 'universal-buttons', depth: 4 }))
+        .rejects.toThrow('Invalid depth');
+    });
+  });
+
+  describe('Get Component Spec', () => {
+    test('should return icon sizes per scale for Home Screen quick actions', async () => {
+      const result = await toolProvider.getComponentSpec({ componentName: 'Home Screen quick actions' });
+
+      expect(result.sectionId).toBe('ios-home-screen-quick-actions');
+      expect(result.specification).not.toBeNull();
+      expect(result.specification?.measurements).toContainEqual(expect.objectContaining({
+        value: '34.67 x 34.67 pt',
+        scales: [{ value: '104 x 104 px', scale: '@3x' }]
+      }));
+    });
+
+    test('should filter measurements to the requested platform', async () => {
+      const result = await toolProvider.getComponentSpec({ componentName: 'accessibility', platform: 'macOS' });
+
+      const platforms = new Set(result.specification?.measurements?.map(m => m.platform));
+      expect(platforms.has('macOS')).toBe(true);
+      expect(platforms.has('iOS')).toBe(false);
+    });
+
+    test('should explain when a section has no measurements', async () => {
+      const result = await toolProvider.getComponentSpec({ componentName: 'toggles' });
+
+      expect(result.sectionId).toBe('universal-toggles');
+      expect(result.specification).toBeNull();
+      expect(result.note).toContain('get_hig_section');
+    });
+
+    test('should reject empty component names', async () => {
+      await expect(toolProvider.getComponentSpec({ componentName: '' }))
+        .rejects.toThrow('Invalid componentName');
+    });
+  });
+
+  describe('Get Specification Table', () => {
+    // The bundled content predates table extraction, so generate two pages that have tables and one that has none
+    let contentDirectory: string;
+    let pagesDirectory: string;
+    let tableProvider: HIGToolProvider;
+
+    beforeAll(async () => {
+      contentDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'hig-tables-'));
+      pagesDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'hig-table-pages-'));
+      for (const page of ['processor/app-icons.html', 'processor/home-screen-quick-actions.html', 'hig/buttons.html']) {
+        await fs.copyFile(path.join(__dirname, 'fixtures', page), path.join(pagesDirectory, path.basename(page)));
+      }
+      await new ContentGeneratorService(new FixtureContentSourceService(pagesDirectory), {
+        outputDirectory: contentDirectory,
+        rateLimitDelay: 0,
+        sections: ['ios-app-icons', 'ios-home-screen-quick-actions', 'universal-buttons']
+      }).generate();
+      tableProvider = new HIGToolProvider(new HIGCache(60), undefined, new StaticContentSearchService(contentDirectory));
+    });
+
+    afterAll(async () => {
+      await fs.rm(contentDirectory, { recursive: true, force: true });
+      await fs.rm(pagesDirectory, { recursive: true, force: true });
+    });
+
+    test('should say the tables are not available when the content has none', async () => {
+      await expect(toolProvider.getSpecificationTable({ query: 'tvOS app icon layout size' }))
+        .rejects.toThrow('Specification tables are not available in this content build');
+    });
+
+    test('should only list the tool when the content has tables', async () => {
+      const names = async (provider: HIGToolProvider) => (await provider.listTools()).map(tool => tool.name);
+
+      expect(await names(toolProvider)).not.toContain('get_specification_table');
+      expect(await names(toolProvider)).toContain('get_component_spec');
+      expect(await names(tableProvider)).toContain('get_specification_table');
+    });
+
+    test('should answer a question with the cell it names', async () => {
+      const result = await tableProvider.getSpecificationTable({ query: 'tvOS app icon layout size' });
+
+      expect(result.section).toMatchObject({ id: 'ios-app-icons', title: 'App Icons' });
+      expect(result.table.headingPath).toEqual(['App Icons', 'Specifications']);
+      expect(result.table.rows).toHaveLength(1);
+      expect(result).toMatchObject({ platform: 'tvOS', column: { key: 'layoutSize', label: 'Layout size' }, value: '800x480 px' });
+    });
+
+    test('should narrow rows by their label and read per-scale columns', async () => {
+      const result = await tableProvider.getSpecificationTable({ query: 'quick action glyph size @3x' });
+
+      expect(result.table.sectionId).toBe('ios-home-screen-quick-actions');
+      expect(result.column?.label).toBe('@3x (pixels)');
+      expect(result.value).toBe('105x105');
+    });
+
+    test('should return a whole table for a section and filter it by platform', async () => {
+      const quickActions = await tableProvider.getSpecificationTable({ section: 'Home Screen quick actions' });
+      expect(quickActions.table.rows.map(row => row.usage)).toEqual(['Glyph size', 'Maximum glyph area']);
+      expect(quickActions.value).toBeUndefined();
+
+      const visionOS = await tableProvider.getSpecificationTable({ section: 'ios-app-icons', platform: 'visionOS', column: 'Style' });
+      expect(visionOS.value).toBe('Layered (3D)');
+    });
+
+    test('should not guess when the query names no table', async () => {
+      await expect(tableProvider.getSpecificationTable({ query: 'layout size' }))
+        .rejects.toThrow('No specification table matches "layout size"');
+      await expect(tableProvider.getSpecificationTable({ query: 'app icons', column: 'Refresh rate' }))
+        .rejects.toThrow('No specification table has a "Refresh rate" column');
+    });
+
+    test('should explain when a section has no tables', async () => {
+      await expect(tableProvider.getSpecificationTable({ section: 'buttons' }))
+        .rejects.toThrow('No specification tables in "Buttons"');
+    });
+
+    test('should validate arguments', async () => {
+      await expect(toolProvider.getSpecificationTable({})).rejects.toThrow('provide a query or a section');
+      await expect(toolProvider.getSpecificationTable({ query: '' })).rejects.toThrow('Invalid query');
+      await expect(toolProvider.getSpecificationTable({ query: 'icons', platform: 'Android' as any })).rejects.toThrow('Invalid platform');
+    });
+  });
+
+  describe('Compare Platforms', () => {
+    test('should combine universal, platform-specific and inline guidance', async () => {
+      const result = await toolProvider.comparePlatforms({
+        componentName: 'buttons',
+        platforms: ['macOS', 'visionOS']
+      });
+
+      expect(result.universal?.id).toBe('universal-buttons');
+      expect(Object.keys(result.comparison)).toEqual(['macOS', 'visionOS']);
+      expect(result.comparison.macOS?.sections.map(s => s.id)).toContain('macos-pop-up-buttons');
+      expect(result.comparison.macOS?.inlineGuidance).toMatch(/^Several specific button types are unique to macOS/);
+      expect(result.comparison.visionOS?.inlineGuidance).toMatch(/^A visionOS button/);
+    });
+
+    test('should split the inline platform blocks of app icons', async () => {
+      const result = await toolProvider.comparePlatforms({ componentName: 'app icons' });
+
+      expect(result.platforms).toEqual(['iOS', 'macOS', 'watchOS', 'tvOS', 'visionOS']);
+      expect(result.comparison.iOS?.sections.map(s => s.id)).toEqual(['ios-app-icons']);
+      expect(result.comparison.tvOS?.inlineGuidance).toContain('safe zone');
+      expect(result.comparison.watchOS?.inlineGuidance).toContain('black');
+      expect(result.comparison.tvOS?.inlineGuidance).not.toContain('black for your icon');
+    });
+
+    test('should reject unknown platforms', async () => {
+      await expect(toolProvider.comparePlatforms({ componentName: 'buttons', platforms: ['Android' as any] }))
+        .rejects.toThrow('Invalid platforms');
+    });
+  });
+
+  describe('Get Latest Updates', () => {
+    test('should list change banners newest first', async () => {
+      const result = await toolProvider.getLatestUpdates({});
+
+      expect(result.updates.length).toBeGreaterThan(0);
+      expect(result.total).toBeGreaterThanOrEqual(result.updates.length);
+      const appIcons = result.updates.find(u => u.sectionId === 'ios-app-icons');
+      expect(appIcons?.description).toMatch(/^Updated guidance to reflect layered icons/);
+      expect(appIcons?.date.toISOString().slice(0, 10)).toBe('2025-06-09');
+    });
+
+    test('should filter by platform, category and date', async () => {
+      const visionOS = await toolProvider.getLatestUpdates({ platform: 'visionOS' });
+      expect(visionOS.updates.every(u => u.platform === 'visionOS' || u.platform === 'universal')).toBe(true);
+      expect(visionOS.updates.map(u => u.sectionId)).toContain('visionos-materials');
+      expect(visionOS.updates.map(u => u.sectionId)).not.toContain('macos-windows');
+
+      const category = await toolProvider.getLatestUpdates({ category: 'technologies', limit: 100 });
+      expect(category.updates.length).toBeGreaterThan(0);
+      expect(category.updates.every(u => u.category === 'technologies')).toBe(true);
+
+      const future = await toolProvider.getLatestUpdates({ since: '2100-01-01' });
+      expect(future.updates).toHaveLength(0);
+    });
+
+    test('should reject invalid dates', async () => {
+      await expect(toolProvider.getLatestUpdates({ since: 'last week' }))
+        .rejects.toThrow('Invalid since');
+    });
+  });
+
+  describe('List HIG Sections', () => {
+    test('should group sections by platform and category with counts', async () => {
+      const result = await toolProvider.listHIGSections({ platform: 'macOS' });
+
+      expect(result.platforms.map(p => p.platform)).toEqual(['macOS']);
+      const sections = result.platforms[0].categories.flatMap(c => c.sections);
+      expect(sections).toHaveLength(result.total);
+      expect(sections.find(s => s.id === 'macos-token-fields')).toMatchObject({
+        title: 'Token Fields',
+        url: expect.stringContaining('token-fields'),
+        lastUpdated: expect.any(String)
+      });
+      expect(result.facets.platforms.find(f => f.value === 'iOS')?.count).toBeGreaterThan(0);
+      expect(result.facets.categories.reduce((sum, f) => sum + f.count, 0)).toBe(result.total);
+    });
+
+    test('should page through every section exactly once', async () => {
+      const ids: string[] = [];
+      let offset: number | undefined = 0;
+      while (offset !== undefined) {
+        const page = await toolProvider.listHIGSections({ limit: 40, offset });
+        page.platforms.forEach(p => p.categories.forEach(c => ids.push(...c.sections.map(s => s.id))));
+        offset = page.nextOffset;
+      }
+
+      const all = await toolProvider.listHIGSections({ limit: 200 });
+      expect(ids).toHaveLength(all.total);
+      expect(new Set(ids).size).toBe(all.total);
+      expect(all.nextOffset).toBeUndefined();
+    });
+
+    test('should reject invalid pagination', async () => {
+      await expect(toolProvider.listHIGSections({ limit: 0 })).rejects.toThrow('Invalid limit');
+      await expect(toolProvider.listHIGSections({ offset: -1 })).rejects.toThrow('Invalid offset');
+    });
+  });
+
+  describe('Get Accessibility Requirements', () => {
+    test('should get accessibility requirements for button', async () => {
+      const result = await toolProvider.getAccessibilityRequirements({
+        component: 'Button',
+        platform: 'iOS'
+      });
+
+      expect(result.component).toBe('Button');
+      expect(result.platform).toBe('iOS');
+      expect(result.section?.id).toBe('universal-buttons');
+      expect(result.requirements).toBeDefined();
+      expect(result.requirements.minimumTouchTarget?.value).toBe('44 x 44 pt');
+      expect(result.requirements.minimumTouchTarget?.sourceUrl).toContain('/buttons');
+      expect(result.requirements.contrastRatio?.value).toBe('4.5:1');
+      expect(result.requirements.voiceOverSupport.length).toBeGreaterThan(0);
+      expect(result.requirements.keyboardNavigation.length).toBeGreaterThan(0);
+      expect(result.requirements.additionalGuidelines.length).toBeGreaterThan(0);
+    });
+
+    test('should accept every platform its input schema lists', async () => {
+      const schema = TOOL_DEFINITIONS.find(tool => tool.name === 'get_accessibility_requirements')!.inputSchema;
+      const platforms = (schema.properties?.platform as { enum: ApplePlatform[] }).enum;
+
+      expect(platforms).toContain('universal');
+      for (const platform of platforms) {
+        const result = await toolProvider.getAccessibilityRequirements({ component: 'Button', platform });
+        expect(result.section?.id).toBe('universal-buttons');
+      }
+    });
+
+    test('should get accessibility requirements for navigation', async () => {
+      const result = await toolProvider.getAccessibilityRequirements({
+        component: 'Navigation Bar',
+        platform: 'macOS'
+      });
+
+      // No size on the page itself, so the accessibility table for the platform applies
+      expect(result.requirements.minimumTouchTarget?.value).toBe('28 x 28 pt');
+      expect(result.requirements.minimumTouchTarget?.sectionId).toBe('universal-accessibility');
+      expect(result.requirements.keyboardNavigation.map(item => item.text))
+        .toContain('Let people use the keyboard alone to navigate and interact with your app.');
+    });
+
+    test('should cite a source URL for every item', async () => {
+      const result = await toolProvider.getAccessibilityRequirements({ component: 'charts', platform: 'visionOS' });
+      const { minimumTouchTarget, contrastRatio, voiceOverSupport, keyboardNavigation, additionalGuidelines } = result.requirements;
+      const items = [minimumTouchTarget, contrastRatio, ...voiceOverSupport, ...keyboardNavigation, ...additionalGuidelines];
+
+      expect(voiceOverSupport[0].sectionId).toBe('universal-charts');
+      expect(items.every(item => item?.sourceUrl.startsWith('https://developer.apple.com/design/human-interface-guidelines/'))).toBe(true);
+    });
+  });
 
   describe('Helper Methods', () => {
     test('should extract specifications from content', () => {
@@ -0,0 +1,100 @@
+/**
+ * Command line options for `apple-dev-mcp generate`
+ */
+
+import type { ContentGenerationConfig } from './interfaces/content-interfaces.js';
+
+export type GenerateOptions = { -readonly [K in keyof ContentGenerationConfig]?: ContentGenerationConfig[K] } & {
+  fixtures?: string; // Directory of saved HTML or DocC JSON pages to generate from instead of developer.apple.com
+  source?: 'docc' | 'html'; // What to fetch from developer.apple.com: the pages' DocC JSON (default) or their HTML
+};
+
+/**
+ * Parse `--output content --fixtures ./pages --concurrency 3 --retries 2 --request-delay 1000 --min-quality 0.5 --sections id,id --force --discover --prune --source docc`
+ */
+export function parseGenerateOptions(argv: string[]): GenerateOptions {
+  const options: GenerateOptions = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      throw new Error(`Unexpected argument "${arg}"`);
+    }
+
+    const [flag, inlineValue] = arg.split('=', 2);
+    const readValue = (): string => {
+      const value = inlineValue ?? argv[++i];
+      if (value === undefined || value.startsWith('--')) {
+        throw new Error(`Missing value for ${flag}`);
+      }
+      return value;
+    };
+    const readInteger = (min: number): number => {
+      const value = readValue();
+      if (!/^\d+$/.test(value) || Number(value) < min) {
+        throw new Error(`Invalid ${flag} "${value}": expected an integer of at least ${min}`);
+      }
+      return Number(value);
+    };
+
+    switch (flag) {
+      case '--output':
+        options.outputDirectory = readValue();
+        break;
+      case '--fixtures':
+        options.fixtures = readValue();
+        break;
+      case '--source': {
+        const value = readValue();
+        if (value !== 'docc' && value !== 'html') {
+          throw new Error(`Invalid --source "${value}": expected docc or html`);
+        }
+        options.source = value;
+        break;
+      }
+      case '--concurrency':
+        options.batchSize = readInteger(1);
+        break;
+      case '--retries':
+        options.maxRetries = readInteger(0);
+        break;
+      case '--request-delay':
+        options.rateLimitDelay = readInteger(0);
+        break;
+      case '--min-quality': {
+        const value = readValue();
+        const threshold = Number(value);
+        if (!/^\d*\.?\d+$/.test(value) || threshold > 1) {
+          throw new Error(`Invalid --min-quality "${value}": expected a number between 0 and 1`);
+        }
+        options.minQualityThreshold = threshold;
+        break;
+      }
+      case '--sections':
+        options.sections = readValue().split(',').map(id => id.trim()).filter(Boolean);
+        break;
+      case '--force':
+        if (inlineValue !== undefined) {
+          throw new Error('--force takes no value');
+        }
+        options.forceUpdate = true;
+        break;
+      case '--discover':
+        if (inlineValue !== undefined) {
+          throw new Error('--discover takes no value');
+        }
+        options.liveDiscovery = {};
+        break;
+      case '--prune':
+        if (inlineValue !== undefined) {
+          throw new Error('--prune takes no value');
+        }
+        options.prune = true;
+        break;
+      default:
+        throw new Error(`Unknown option ${flag}`);
+    }
+  }
+
+  return options;
+}
@@ -0,0 +1,31 @@
+/**
+ * `apple-dev-mcp generate`: regenerate the bundled HIG content
+ */
+
+import { ContentGeneratorService } from './services/content/content-generator.service.js';
+import { DocCContentSourceService, HttpContentSourceService, FixtureContentSourceService } from './services/content/content-source.service.js';
+import { parseGenerateOptions } from './generate-options.js';
+
+/**
+ * Run the generator with command line arguments and print a summary of the report
+ */
+export async function runGenerate(argv: string[]): Promise<void> {
+  const { fixtures, source: format, ...config } = parseGenerateOptions(argv);
+  const source = fixtures
+    ? new FixtureContentSourceService(fixtures)
+    : format === 'html' ? new HttpContentSourceService() : new DocCContentSourceService();
+
+  // Saved pages are read from disk, so only developer.apple.com needs requests spaced out
+  const report = await new ContentGeneratorService(source, fixtures ? { rateLimitDelay: 0, ...config } : config).generate();
+
+  const { statistics, changes } = report;
+  console.log(`📊 ${changes.added} added, ${changes.modified} modified, ${changes.removed} removed, ${statistics.unchanged} unchanged, ` +
+    `${statistics.failed} failed, ${statistics.skipped} skipped · ${Math.round(report.duration / 1000)}s`);
+  if (report.discovery) {
+    console.log(`🕸️ Discovered from the ${report.discovery.source}: ${report.discovery.added.length} sections not in the known list, ` +
+      `${report.discovery.missing.length} listed sections not found, ${report.discovery.stale.length} generated sections kept though not found`);
+  }
+  for (const failure of report.failures) {
+    console.log(`   ✗ ${failure.sectionId} (${failure.stage}): ${failure.reason}`);
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * HTTP transport for the MCP server
+ *
+ * Serves Streamable HTTP on /mcp (with sessions), the legacy SSE transport on
+ * /sse + /messages for older clients, and a /healthz endpoint. Streamable HTTP
+ * sessions that see no requests for `sessionIdleTimeout` are closed, since
+ * clients can disappear without ending them.
+ */
+
+import http from 'http';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export interface HIGHttpServerOptions {
+  port: number;
+  host: string;
+  maxBodySize?: number;
+  sessionIdleTimeout?: number; // Milliseconds without a request before a Streamable HTTP session is closed
+}
+
+export class HIGHttpServer {
+  private createServer: () => Server;
+  private isContentAvailable: () => Promise<boolean>;
+  private options: Required<HIGHttpServerOptions>;
+  private httpServer?: http.Server;
+  private streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+  private sseTransports = new Map<string, SSEServerTransport>();
+  private lastRequestAt = new Map<string, number>(); // Streamable HTTP session id → time of its latest request
+  private idleSweep?: ReturnType<typeof setInterval>;
+
+  /**
+   * Every session gets its own MCP Server from `createServer`, sharing the caller's providers
+   */
+  constructor(createServer: () => Server, isContentAvailable: () => Promise<boolean>, options: HIGHttpServerOptions) {
+    this.createServer = createServer;
+    this.isContentAvailable = isContentAvailable;
+    this.options = { maxBodySize: 4 * 1024 * 1024, sessionIdleTimeout: 30 * 60 * 1000, ...options };
+  }
+
+  /**
+   * Start listening, resolving with the bound port
+   */
+  async start(): Promise<number> {
+    const httpServer = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        console.error('❌ HTTP request failed:', error);
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.options.port, this.options.host, () => resolve());
+    });
+
+    this.httpServer = httpServer;
+    this.idleSweep = setInterval(() => this.closeIdleSessions(), Math.min(this.options.sessionIdleTimeout, 60 * 1000));
+    this.idleSweep.unref();
+    return (httpServer.address() as AddressInfo).port;
+  }
+
+  /**
+   * Close all sessions and stop listening
+   */
+  async close(): Promise<void> {
+    clearInterval(this.idleSweep);
+    const transports = [...this.streamableTransports.values(), ...this.sseTransports.values()];
+    await Promise.all(transports.map(transport => transport.close().catch(() => undefined)));
+    this.streamableTransports.clear();
+    this.sseTransports.clear();
+    this.lastRequestAt.clear();
+
+    const httpServer = this.httpServer;
+    if (httpServer) {
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+      this.httpServer = undefined;
+    }
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (url.pathname === '/healthz' && req.method === 'GET') {
+      return this.handleHealthCheck(res);
+    }
+    if (url.pathname === '/mcp') {
+      return this.handleStreamableRequest(req, res);
+    }
+    if (url.pathname === '/sse' && req.method === 'GET') {
+      return this.handleSseConnection(res);
+    }
+    if (url.pathname === '/messages' && req.method === 'POST') {
+      return this.handleSseMessage(req, res, url.searchParams.get('sessionId'));
+    }
+
+    res.writeHead(404, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: 'Not found' }));
+  }
+
+  private async handleHealthCheck(res: ServerResponse): Promise<void> {
+    const contentAvailable = await this.isContentAvailable().catch(() => false);
+
+    res.writeHead(contentAvailable ? 200 : 503, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+      status: contentAvailable ? 'ok' : 'degraded',
+      contentAvailable,
+      sessions: {
+        streamableHttp: this.streamableTransports.size,
+        sse: this.sseTransports.size
+      }
+    }));
+  }
+
+  private async handleStreamableRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const body = req.method === 'POST' ? await this.readJsonBody(req, res) : undefined;
+    if (body === null) return;
+
+    if (sessionId) {
+      const transport = this.streamableTransports.get(sessionId);
+      if (!transport) {
+        return this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+      }
+      this.lastRequestAt.set(sessionId, Date.now());
+      return transport.handleRequest(req, res, body);
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      return this.sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.streamableTransports.set(id, transport);
+        this.lastRequestAt.set(id, Date.now());
+      }
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.streamableTransports.delete(transport.sessionId);
+        this.lastRequestAt.delete(transport.sessionId);
+      }
+    };
+
+    await this.createServer().connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Close the Streamable HTTP sessions whose latest request is older than `sessionIdleTimeout`
+   */
+  private closeIdleSessions(): void {
+    const cutoff = Date.now() - this.options.sessionIdleTimeout;
+    for (const [sessionId, transport] of this.streamableTransports) {
+      if ((this.lastRequestAt.get(sessionId) ?? 0) <= cutoff) {
+        this.streamableTransports.delete(sessionId);
+        this.lastRequestAt.delete(sessionId);
+        transport.close().catch(error => console.error(`❌ Failed to close idle session ${sessionId}:`, error));
+      }
+    }
+  }
+
+  private async handleSseConnection(res: ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport('/messages', res);
+    this.sseTransports.set(transport.sessionId, transport);
+
+    res.on('close', () => {
+      this.sseTransports.delete(transport.sessionId);
+    });
+
+    await this.createServer().connect(transport);
+  }
+
+  private async handleSseMessage(req: IncomingMessage, res: ServerResponse, sessionId: string | null): Promise<void> {
+    const transport = sessionId ? this.sseTransports.get(sessionId) : undefined;
+    if (!transport) {
+      return this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+    }
+
+    const body = await this.readJsonBody(req, res);
+    if (body === null) return;
+
+    await transport.handlePostMessage(req, res, body);
+  }
+
+  /**
+   * Read and parse a JSON request body, answering the request itself (and returning null) when it is invalid
+   */
+  private async readJsonBody(req: IncomingMessage, res: ServerResponse): Promise<unknown | null> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > this.options.maxBodySize) {
+        this.sendJsonRpcError(res, 413, -32000, 'Request body too large');
+        return null;
+      }
+      chunks.push(chunk);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    } catch {
+      this.sendJsonRpcError(res, 400, -32700, 'Parse error');
+      return null;
+    }
+  }
+
+  private sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code, message },
+      id: null
+    }));
+  }
+}
@@ -11,7 +11,11 @@ import type {
   ContentQualityMetrics,
   ProcessedContent,
   QualityValidationResult,
-  ExtractionStatistics
+  ExtractionStatistics,
+  SpecificationTable,
+  StructuredHIGContent,
+  DiscoveryConfig,
+  ChangeLogEntry
 } from '../types.js';
 
 // Single Responsibility: File system operations only
@@ -25,10 +29,66 @@ export interface IFileSystemService {
   calculateDirectorySize(path: string): Promise<number>;
 }
 
+// HTTP validators of a previous fetch
+export interface ContentValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface FetchedPage extends ContentValidators {
+  html: string;
+}
+
+// Single Responsibility: Fetching the raw HTML of a section only
+export interface IContentSource {
+  readonly name: string;
+  fetchHtml(section: HIGSection): Promise<string>;
+  // Conditional fetch for sources that support validators; resolves to null when the page is not modified
+  fetchIfModified?(section: HIGSection, validators: ContentValidators): Promise<FetchedPage | null>;
+  // Sources that hold a fixed set of pages (fixtures) report which sections they can serve
+  hasSection?(section: HIGSection): Promise<boolean>;
+}
+
+// A page on its way through the processing pipeline; each stage reads what earlier stages produced
+export interface ContentProcessingContext {
+  readonly section: HIGSection;
+  readonly html: string; // As fetched
+  cleanedHtml: string;
+  rawMarkdown: string; // As converted, before normalization
+  markdown: string;
+  changeLog?: ChangeLogEntry[]; // Taken out of the markdown with the Change log section
+  structuredContent?: StructuredHIGContent;
+  specificationTables?: SpecificationTable[];
+  keywords?: string[];
+  relatedSections?: string[];
+  quality?: ContentQualityMetrics;
+}
+
+// Single Responsibility: One step of content processing (clean, convert, normalize, extract, score)
+export interface IContentProcessingStage {
+  readonly name: string;
+  run(context: ContentProcessingContext): ContentProcessingContext;
+}
+
+// Everything one pass of the pipeline produces for a page
+export interface ProcessedPage {
+  cleanedMarkdown: string;
+  frontMatter: string;
+  quality: ContentQualityMetrics;
+  keywords: string[];
+  relatedSections: string[];
+  specificationTables: SpecificationTable[];
+  structuredContent: StructuredHIGContent;
+  changeLog: ChangeLogEntry[];
+}
+
+// The parts of a processed page the indexes are built from; a metadata rebuild reads them back from disk
+export type IndexedPage = Pick<ProcessedPage, 'cleanedMarkdown' | 'keywords' | 'relatedSections'> & Partial<Pick<ProcessedPage, 'quality' | 'changeLog'>>;
+
 // Single Responsibility: Content processing only
 export interface IContentProcessor {
   process(section: HIGSection): Promise<string>;
-  processContent(html: string, url: string): Promise<any>; // Enhanced processing method
+  processContent(html: string, section: HIGSection): Promise<ProcessedPage>;
   extractSnippet(content: string, maxLength?: number): string;
   extractKeywords(content: string, section: HIGSection): string[];
 }
@@ -42,14 +102,14 @@ export interface IContentEnhancer {
 // Single Responsibility: Search indexing only
 export interface ISearchIndexer {
   addSection(section: HIGSection): void;
-  generateIndex(): Record<string, any>;
+  generateIndex(): Record<string, unknown>;
   clear(): void;
 }
 
 // Single Responsibility: Cross-reference generation only
 export interface ICrossReferenceGenerator {
   addSection(section: HIGSection): void;
-  generateReferences(): Record<string, any>;
+  generateReferences(): Record<string, unknown>;
   clear(): void;
 }
 
@@ -86,10 +146,14 @@ export interface IExtractionMonitor {
 // Configuration value object
 export interface ContentGenerationConfig {
   readonly outputDirectory: string;
-  readonly batchSize: number;
-  readonly rateLimitDelay: number;
-  readonly forceUpdate: boolean;
-  readonly maxRetries: number;
+  readonly batchSize: number; // Sections fetched and processed at once
+  readonly rateLimitDelay: number; // Milliseconds between requests to the source, and before the first retry (doubled for each further one)
+  readonly forceUpdate: boolean; // Reprocess and rewrite every section, ignoring validators and hashes
+  readonly maxRetries: number; // Extra attempts after a failed fetch
+  readonly minQualityThreshold: number; // Pages scoring below this are not written
+  readonly sections?: readonly string[]; // Only generate these section ids
+  readonly liveDiscovery?: Partial<DiscoveryConfig>; // Crawl Apple's navigation index or sitemap instead of using the known section list
+  readonly prune?: boolean; // Delete sections a complete live crawl didn't find; otherwise they are only reported
 }
 
 // Metadata value object
@@ -0,0 +1,259 @@
+/**
+ * MCP Prompts implementation for common design-review workflows
+ */
+
+import { StaticContentSearchService } from './services/static-content-search.service.js';
+import { HIGResourceProvider, HIG_RESOURCE_MIME_TYPE } from './resources.js';
+import type { SearchIndexEntry } from './services/content/search-indexer.service.js';
+import type { ApplePlatform } from './types.js';
+
+export interface HIGPromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface HIGPromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  arguments: HIGPromptArgument[];
+}
+
+export type HIGPromptMessage = {
+  role: 'user' | 'assistant';
+  content:
+    | { type: 'text'; text: string }
+    | { type: 'resource'; resource: { uri: string; mimeType: string; text: string } };
+};
+
+export interface HIGPromptResult {
+  description: string;
+  messages: HIGPromptMessage[];
+}
+
+const PLATFORMS: ApplePlatform[] = ['iOS', 'macOS', 'watchOS', 'tvOS', 'visionOS', 'universal'];
+
+// SwiftUI views and modifiers mapped to the HIG section that covers them
+const SWIFTUI_SECTIONS: Array<{ pattern: RegExp; sectionId: string }> = [
+  { pattern: /\bButton\s*[({]/, sectionId: 'universal-buttons' },
+  { pattern: /\bToggle\s*\(/, sectionId: 'universal-toggles' },
+  { pattern: /\b(List|Table)\s*[({]/, sectionId: 'universal-lists-and-tables' },
+  { pattern: /\b(TextField|SecureField)\s*\(/, sectionId: 'universal-text-fields' },
+  { pattern: /\bTextEditor\s*\(/, sectionId: 'universal-text-views' },
+  { pattern: /\b(Picker|DatePicker|ColorPicker)\s*\(/, sectionId: 'universal-pickers' },
+  { pattern: /\bSlider\s*\(/, sectionId: 'universal-sliders' },
+  { pattern: /\bStepper\s*\(/, sectionId: 'universal-steppers' },
+  { pattern: /\b(ProgressView|Gauge)\s*[({]/, sectionId: 'universal-progress-indicators' },
+  { pattern: /\bTabView\s*[({]/, sectionId: 'universal-tab-bars' },
+  { pattern: /\bNavigationSplitView\s*[({]/, sectionId: 'universal-split-views' },
+  { pattern: /\.navigationTitle\(|\bNavigationStack\s*[({]|\bNavigationView\s*[({]/, sectionId: 'universal-navigation-bars' },
+  { pattern: /\.toolbar\s*[({]/, sectionId: 'universal-toolbars' },
+  { pattern: /\.searchable\(/, sectionId: 'universal-search-fields' },
+  { pattern: /\bMenu\s*[({]|\.contextMenu\s*[({]/, sectionId: 'universal-menus' },
+  { pattern: /\.alert\(|\.confirmationDialog\(/, sectionId: 'universal-alerts' },
+  { pattern: /\.sheet\(|\.fullScreenCover\(/, sectionId: 'universal-sheets' },
+  { pattern: /\.popover\(/, sectionId: 'universal-popovers' },
+  { pattern: /\bScrollView\s*[({]/, sectionId: 'universal-scroll-views' },
+  { pattern: /\bLazy[VH]Grid\s*[({]/, sectionId: 'universal-collections' },
+  { pattern: /Image\(systemName:/, sectionId: 'universal-sf-symbols' },
+  { pattern: /\.font\(/, sectionId: 'universal-typography' },
+  { pattern: /\.(foregroundStyle|foregroundColor|background)\(/, sectionId: 'universal-color' }
+];
+
+export class HIGPromptProvider {
+  private staticContentSearch: StaticContentSearchService;
+  private resourceProvider: HIGResourceProvider;
+
+  constructor(staticContentSearch?: StaticContentSearchService) {
+    this.staticContentSearch = staticContentSearch || new StaticContentSearchService();
+    this.resourceProvider = new HIGResourceProvider(this.staticContentSearch);
+  }
+
+  /**
+   * List the built-in design-review prompts
+   */
+  listPrompts(): HIGPromptDefinition[] {
+    return [
+      {
+        name: 'review-swiftui-view',
+        title: 'Review SwiftUI view against the HIG',
+        description: 'Review SwiftUI code against the Human Interface Guidelines for the components it uses',
+        arguments: [
+          { name: 'code', description: 'The SwiftUI view source to review', required: true },
+          { name: 'platform', description: 'Target platform: iOS, macOS, watchOS, tvOS or visionOS (default iOS)' },
+          { name: 'component', description: 'Component to focus on, e.g. "buttons" (detected from the code when omitted)' }
+        ]
+      },
+      {
+        name: 'plan-visionos-port',
+        title: 'Plan a visionOS port',
+        description: 'Plan how an existing iOS screen should adapt to visionOS windows, ornaments and spatial layout',
+        arguments: [
+          { name: 'screen', description: 'Description or SwiftUI code of the iOS screen', required: true },
+          { name: 'component', description: 'Main component on the screen, e.g. "tab bars"' }
+        ]
+      },
+      {
+        name: 'accessibility-audit',
+        title: 'Accessibility audit',
+        description: 'Audit a component for VoiceOver, Dynamic Type, contrast and touch target requirements',
+        arguments: [
+          { name: 'component', description: 'Component to audit, e.g. "toggles"', required: true },
+          { name: 'platform', description: 'Target platform (default iOS)' },
+          { name: 'code', description: 'Optional implementation to audit' }
+        ]
+      }
+    ];
+  }
+
+  /**
+   * Render a prompt with the relevant HIG sections embedded as resources
+   */
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<HIGPromptResult> {
+    const definition = this.listPrompts().find(prompt => prompt.name === name);
+    if (!definition) {
+      throw new Error(`Unknown prompt: ${name}`);
+    }
+
+    for (const argument of definition.arguments) {
+      if (argument.required && !args[argument.name]?.trim()) {
+        throw new Error(`Missing required argument: ${argument.name}`);
+      }
+    }
+
+    switch (name) {
+      case 'review-swiftui-view':
+        return this.reviewSwiftUIView(args.code, this.parsePlatform(args.platform), args.component);
+      case 'plan-visionos-port':
+        return this.planVisionOSPort(args.screen, args.component);
+      default:
+        return this.accessibilityAudit(args.component, this.parsePlatform(args.platform), args.code);
+    }
+  }
+
+  private async reviewSwiftUIView(code: string, platform: ApplePlatform, component?: string): Promise<HIGPromptResult> {
+    const sectionIds = SWIFTUI_SECTIONS
+      .filter(({ pattern }) => pattern.test(code))
+      .map(({ sectionId }) => sectionId);
+
+    const sections = this.collectSections([
+      ...(component ? [await this.resolveSection(component, platform)] : []),
+      ...await Promise.all(sectionIds.map(id => this.staticContentSearch.findSection(id))),
+      await this.staticContentSearch.findSection(`designing for ${platform}`, platform)
+    ], 4);
+
+    const focus = component ? ` with a focus on ${component}` : '';
+    const instructions = [
+      `Review the following SwiftUI view for ${platform}${focus} against Apple's Human Interface Guidelines.`,
+      'For each issue, quote the offending code, cite the guideline it conflicts with and suggest a concrete fix.',
+      'Call out sizing, spacing, typography, color and accessibility problems, and note what the view already does well.',
+      '',
+      '```swift',
+      code.trim(),
+      '```'
+    ].join('\n');
+
+    return {
+      description: `HIG review of a SwiftUI view for ${platform}${focus}`,
+      messages: await this.buildMessages(instructions, sections)
+    };
+  }
+
+  private async planVisionOSPort(screen: string, component?: string): Promise<HIGPromptResult> {
+    const sections = this.collectSections([
+      await this.staticContentSearch.findSection('visionos-designing-for-visionos'),
+      ...(component ? [await this.resolveSection(component, 'visionOS')] : []),
+      await this.staticContentSearch.findSection('visionos-spatial-layout'),
+      await this.staticContentSearch.findSection('visionos-ornaments'),
+      await this.staticContentSearch.findSection('visionos-materials')
+    ], 5);
+
+    const instructions = [
+      'Plan a visionOS port of the following iOS screen using the Human Interface Guidelines below.',
+      'Cover window sizing and placement, which controls move into ornaments or toolbars, materials and depth,',
+      'eye and indirect-gesture input (target sizes and hover effects), and anything that should not be carried over.',
+      'Finish with an ordered list of implementation steps.',
+      '',
+      screen.trim()
+    ].join('\n');
+
+    return {
+      description: component ? `visionOS port plan for a screen built around ${component}` : 'visionOS port plan for an iOS screen',
+      messages: await this.buildMessages(instructions, sections)
+    };
+  }
+
+  private async accessibilityAudit(component: string, platform: ApplePlatform, code?: string): Promise<HIGPromptResult> {
+    const sections = this.collectSections([
+      await this.resolveSection(component, platform),
+      await this.staticContentSearch.findSection('universal-accessibility')
+    ], 2);
+
+    const lines = [
+      `Perform an accessibility audit of ${component} on ${platform} using the Human Interface Guidelines below.`,
+      'Check VoiceOver labels and traits, Dynamic Type, color contrast, minimum touch target size, keyboard and Switch Control access, and Reduce Motion.',
+      'Report each finding as pass, fail or needs review, with the guideline it is based on.'
+    ];
+    if (code?.trim()) {
+      lines.push('', 'Implementation:', '', '```swift', code.trim(), '```');
+    }
+
+    return {
+      description: `Accessibility audit of ${component} on ${platform}`,
+      messages: await this.buildMessages(lines.join('\n'), sections)
+    };
+  }
+
+  /**
+   * Resolve a component name to its best section, preferring the exact page over search
+   */
+  private async resolveSection(component: string, platform: ApplePlatform): Promise<SearchIndexEntry | null> {
+    const exact = await this.staticContentSearch.findSection(component, platform);
+    if (exact) return exact;
+
+    const [topResult] = await this.staticContentSearch.searchContent(component, platform, undefined, 1);
+    return topResult ? this.staticContentSearch.findSection(topResult.id) : null;
+  }
+
+  private collectSections(candidates: Array<SearchIndexEntry | null>, limit: number): SearchIndexEntry[] {
+    const sections: SearchIndexEntry[] = [];
+    for (const entry of candidates) {
+      if (entry && !sections.some(section => section.id === entry.id)) {
+        sections.push(entry);
+      }
+    }
+    return sections.slice(0, limit);
+  }
+
+  private async buildMessages(instructions: string, sections: SearchIndexEntry[]): Promise<HIGPromptMessage[]> {
+    const messages: HIGPromptMessage[] = [];
+
+    for (const section of sections) {
+      messages.push({
+        role: 'user',
+        content: {
+          type: 'resource',
+          resource: {
+            uri: this.resourceProvider.buildResourceUri(section),
+            mimeType: HIG_RESOURCE_MIME_TYPE,
+            text: `# ${section.title}\n\nSource: ${section.url}\n\n${await this.staticContentSearch.getSectionContent(section)}`
+          }
+        }
+      });
+    }
+
+    messages.push({ role: 'user', content: { type: 'text', text: instructions } });
+    return messages;
+  }
+
+  private parsePlatform(value?: string): ApplePlatform {
+    if (!value?.trim()) return 'iOS';
+
+    const platform = PLATFORMS.find(p => p.toLowerCase() === value.trim().toLowerCase());
+    if (!platform) {
+      throw new Error(`Invalid platform: ${value}. Expected one of ${PLATFORMS.join(', ')}`);
+    }
+    return platform;
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * MCP Resources implementation exposing generated HIG content by reference
+ */
+
+import { StaticContentSearchService } from './services/static-content-search.service.js';
+import type { SearchIndexEntry } from './services/content/search-indexer.service.js';
+import type { HIGResource } from './types.js';
+
+export const HIG_RESOURCE_SCHEME = 'hig';
+export const HIG_RESOURCE_MIME_TYPE = 'text/markdown';
+
+export type HIGResourceDescriptor = Omit<HIGResource, 'content'>;
+
+export interface HIGResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export class HIGResourceProvider {
+  private staticContentSearch: StaticContentSearchService;
+
+  constructor(staticContentSearch?: StaticContentSearchService) {
+    this.staticContentSearch = staticContentSearch || new StaticContentSearchService();
+  }
+
+  /**
+   * List every generated HIG section as a resource
+   */
+  async listResources(): Promise<HIGResourceDescriptor[]> {
+    const entries = await this.staticContentSearch.getSearchIndex();
+
+    return entries.map(entry => this.toDescriptor(entry));
+  }
+
+  /**
+   * Describe the URI scheme clients can use to address sections directly
+   */
+  listResourceTemplates(): HIGResourceTemplate[] {
+    return [
+      {
+        uriTemplate: `${HIG_RESOURCE_SCHEME}://{platform}/{slug}`,
+        name: 'HIG Section',
+        description: 'A Human Interface Guidelines page by platform (universal, ios, macos, watchos, tvos, visionos) and slug, e.g. hig://macos/windows',
+        mimeType: HIG_RESOURCE_MIME_TYPE
+      }
+    ];
+  }
+
+  /**
+   * Read the full markdown for a resource URI
+   */
+  async readResource(uri: string): Promise<HIGResource> {
+    const parsed = this.parseResourceUri(uri);
+    if (!parsed) {
+      throw new Error(`Invalid resource URI: ${uri}. Expected ${HIG_RESOURCE_SCHEME}://{platform}/{slug}`);
+    }
+
+    const entries = await this.staticContentSearch.getSearchIndex();
+    const entry = entries.find(e =>
+      this.getPlatformSegment(e) === parsed.platform && this.getSlug(e) === parsed.slug
+    );
+
+    if (!entry) {
+      throw new Error(`Resource not found: ${uri}`);
+    }
+
+    const content = await this.staticContentSearch.getSectionContent(entry);
+
+    return {
+      ...this.toDescriptor(entry),
+      content
+    };
+  }
+
+  /**
+   * Build the resource URI for a search index entry
+   */
+  buildResourceUri(entry: SearchIndexEntry): string {
+    return `${HIG_RESOURCE_SCHEME}://${this.getPlatformSegment(entry)}/${this.getSlug(entry)}`;
+  }
+
+  /**
+   * Split a hig:// URI into its platform and slug segments
+   */
+  parseResourceUri(uri: string): { platform: string; slug: string } | null {
+    const match = uri.match(new RegExp(`^${HIG_RESOURCE_SCHEME}://([a-z]+)/([a-z0-9-]+)$`, 'i'));
+    if (!match) {
+      return null;
+    }
+
+    return {
+      platform: match[1].toLowerCase(),
+      slug: match[2].toLowerCase()
+    };
+  }
+
+  private toDescriptor(entry: SearchIndexEntry): HIGResourceDescriptor {
+    const platformLabel = entry.platform === 'universal' ? 'All platforms' : entry.platform;
+
+    return {
+      uri: this.buildResourceUri(entry),
+      name: `${entry.title} (${platformLabel})`,
+      description: entry.snippet,
+      mimeType: HIG_RESOURCE_MIME_TYPE
+    };
+  }
+
+  private getPlatformSegment(entry: SearchIndexEntry): string {
+    return entry.platform.toLowerCase();
+  }
+
+  private getSlug(entry: SearchIndexEntry): string {
+    return entry.filename.replace(/\.md$/, '');
+  }
+}
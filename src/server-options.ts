@@ -0,0 +1,64 @@
+/**
+ * Command line options for the MCP server
+ */
+
+export interface ServerOptions {
+  transport: 'stdio' | 'http';
+  port: number;
+  host: string;
+}
+
+export const DEFAULT_SERVER_OPTIONS: ServerOptions = {
+  transport: 'stdio', // Desktop extensions launch the server over stdio
+  port: 3000,
+  host: '127.0.0.1'
+};
+
+/**
+ * Parse `--transport http --port 3000 --host 0.0.0.0` style arguments (also `--port=3000`)
+ */
+export function parseServerOptions(argv: string[]): ServerOptions {
+  const options: ServerOptions = { ...DEFAULT_SERVER_OPTIONS };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+
+    const [flag, inlineValue] = arg.split('=', 2);
+    const readValue = (): string => {
+      const value = inlineValue ?? argv[++i];
+      if (value === undefined || value.startsWith('--')) {
+        throw new Error(`Missing value for ${flag}`);
+      }
+      return value;
+    };
+
+    switch (flag) {
+      case '--transport': {
+        const transport = readValue();
+        if (transport !== 'stdio' && transport !== 'http') {
+          throw new Error(`Invalid --transport "${transport}": expected "stdio" or "http"`);
+        }
+        options.transport = transport;
+        break;
+      }
+      case '--port': {
+        const value = readValue();
+        const port = Number(value);
+        if (!/^\d+$/.test(value) || port > 65535) {
+          throw new Error(`Invalid --port "${value}": expected an integer between 0 and 65535`);
+        }
+        options.port = port;
+        break;
+      }
+      case '--host':
+        options.host = readValue();
+        break;
+      default:
+        // Unknown flags are ignored so wrappers can pass their own arguments through
+        break;
+    }
+  }
+
+  return options;
+}
@@ -40,22 +40,74 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   ListToolsRequestSchema,
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
   ErrorCode,
   McpError,
 } from '@modelcontextprotocol/sdk/types.js';
 
 import { HIGCache } from './cache.js';
 import { HIGToolProvider } from './tools.js';
+import { HIGResourceProvider } from './resources.js';
+import { HIGPromptProvider } from './prompts.js';
+import { formatToolResult } from './tool-formatters.js';
 import { AppleContentAPIClient } from './services/apple-content-api-client.service.js';
+import { StaticContentSearchService } from './services/static-content-search.service.js';
+import { HIGHttpServer } from './http-server.js';
+import { parseServerOptions } from './server-options.js';
+import type { ServerOptions } from './server-options.js';
+import type {
+  SearchGuidelinesArgs,
+  GetHIGSectionArgs,
+  GetRelatedSectionsArgs,
+  GetComponentSpecArgs,
+  GetSpecificationTableArgs,
+  ComparePlatformsArgs,
+  GetLatestUpdatesArgs,
+  ListHIGSectionsArgs,
+  GetAccessibilityRequirementsArgs,
+  SearchTechnicalArgs,
+  SearchUnifiedArgs,
+  HIGSectionDetail,
+  RelatedSectionsResult,
+  ComponentSpecResult,
+  SpecificationTableResult,
+  PlatformComparison,
+  LatestUpdatesResult,
+  HIGTableOfContents,
+  AccessibilityRequirements
+} from './types.js';
+
+// Whatever one of the tools returns
+type ToolResult =
+  | Awaited<ReturnType<HIGToolProvider['searchHumanInterfaceGuidelines']>>
+  | HIGSectionDetail
+  | RelatedSectionsResult
+  | ComponentSpecResult
+  | SpecificationTableResult
+  | PlatformComparison
+  | LatestUpdatesResult
+  | HIGTableOfContents
+  | AccessibilityRequirements
+  | Awaited<ReturnType<HIGToolProvider['searchTechnicalDocumentation']>>
+  | Awaited<ReturnType<HIGToolProvider['searchUnified']>>;
 
 class AppleHIGMCPServer {
-  private server: Server;
   private cache: HIGCache;
   private toolProvider: HIGToolProvider;
+  private resourceProvider: HIGResourceProvider;
+  private promptProvider: HIGPromptProvider;
   private appleContentAPIClient: AppleContentAPIClient;
+  private staticContentSearch: StaticContentSearchService;
 
-  constructor() {
-    this.server = new Server(
+  /**
+   * Create an MCP server wired to the shared providers (one per stdio process or HTTP session)
+   */
+  createServer(): Server {
+    const server = new Server(
       {
         name: 'Apple Dev MCP',
         version: '2.0.0',
@@ -64,9 +116,14 @@ class AppleHIGMCPServer {
       {
         capabilities: {
           tools: {},
+          resources: {},
+          prompts: {},
         },
       }
     );
+
+    this.setupHandlers(server);
+    return server;
   }
 
   /**
@@ -95,12 +152,15 @@ class AppleHIGMCPServer {
         this.appleContentAPIClient = new AppleContentAPIClient(this.cache);
         console.error('✅ API client created');
         
-        this.toolProvider = new HIGToolProvider(this.cache, this.appleContentAPIClient);
+        this.staticContentSearch = new StaticContentSearchService();
+        this.toolProvider = new HIGToolProvider(this.cache, this.appleContentAPIClient, this.staticContentSearch);
         console.error('✅ Tool provider created');
 
-        console.error('🔌 Setting up request handlers...');
-        this.setupHandlers();
-        console.error('✅ Request handlers configured');
+        this.resourceProvider = new HIGResourceProvider(this.staticContentSearch);
+        console.error('✅ Resource provider created');
+
+        this.promptProvider = new HIGPromptProvider(this.staticContentSearch);
+        console.error('✅ Prompt provider created');
       } catch (error) {
         console.error('💥 Initialization failed:', error);
         throw error;
@@ -128,101 +188,15 @@ class AppleHIGMCPServer {
   /**
    * Set up MCP request handlers with comprehensive error handling
    */
-  private setupHandlers(): void {
+  private setupHandlers(server: Server): void {
     // Tool handlers
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
-        tools: [
-          {
-            name: 'search_human_interface_guidelines',
-            title: 'Search HIG Guidelines',
-            description: 'Search Apple Human Interface Guidelines by keywords',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                query: {
-                  type: 'string',
-                  description: 'Search query (keywords, component names, design concepts)',
-                },
-                platform: {
-                  type: 'string',
-                  enum: ['iOS', 'macOS', 'watchOS', 'tvOS', 'visionOS', 'universal'],
-                  description: 'Optional: Filter by Apple platform',
-                },
-              },
-              required: ['query'],
-            },
-          },
-          // TODO: Future release - re-enable with static content integration
-          // For now, users should search "accessibility" + component through regular HIG search
-          // {
-          //   name: 'get_accessibility_requirements',
-          //   title: 'Get Accessibility Requirements',
-          //   description: 'Get accessibility requirements and guidelines for specific components',
-          //   inputSchema: {
-          //     type: 'object',
-          //     properties: {
-          //       component: {
-          //         type: 'string',
-          //         description: 'Component name (e.g., "Button", "Navigation Bar", "Tab Bar")',
-          //       },
-          //       platform: {
-          //         type: 'string',
-          //         enum: ['iOS', 'macOS', 'watchOS', 'tvOS', 'visionOS'],
-          //         description: 'Target platform',
-          //       },
-          //     },
-          //     required: ['component', 'platform'],
-          //   },
-          // },
-          {
-            name: 'search_technical_documentation',
-            title: 'Search Technical Documentation',
-            description: 'Search Apple technical documentation and API references',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                query: {
-                  type: 'string',
-                  description: 'Search query (API names, symbols, frameworks)',
-                },
-                framework: {
-                  type: 'string',
-                  description: 'Optional: Search within specific framework (e.g., "SwiftUI", "UIKit")',
-                },
-                platform: {
-                  type: 'string',
-                  description: 'Optional: Filter by platform (iOS, macOS, etc.)',
-                },
-              },
-              required: ['query'],
-            },
-          },
-          {
-            name: 'search_unified',
-            title: 'Unified Search',
-            description: 'Unified search across both HIG design guidelines and technical documentation',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                query: {
-                  type: 'string',
-                  description: 'Search query (keywords, component names, design concepts)',
-                },
-                platform: {
-                  type: 'string',
-                  enum: ['iOS', 'macOS', 'watchOS', 'tvOS', 'visionOS', 'universal'],
-                  description: 'Optional: Filter by Apple platform',
-                },
-              },
-              required: ['query'],
-            },
-          },
-        ],
+        tools: await this.toolProvider.listTools(),
       };
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       try {
         const { name, arguments: args } = request.params;
         
@@ -236,36 +210,65 @@ class AppleHIGMCPServer {
           throw new McpError(ErrorCode.InvalidRequest, 'Tool arguments must be an object');
         }
 
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        let result: any;
+        let result: ToolResult;
         
         switch (name) {
           case 'search_human_interface_guidelines': {
-            result = await this.toolProvider.searchHumanInterfaceGuidelines(args as any);
+            result = await this.toolProvider.searchHumanInterfaceGuidelines(args as unknown as SearchGuidelinesArgs);
+            break;
+          }
+          case 'get_hig_section': {
+            result = await this.toolProvider.getHIGSection(args as unknown as GetHIGSectionArgs);
+            break;
+          }
+          case 'get_related_sections': {
+            result = await this.toolProvider.getRelatedSections(args as unknown as GetRelatedSectionsArgs);
+            break;
+          }
+          case 'get_component_spec': {
+            result = await this.toolProvider.getComponentSpec(args as unknown as GetComponentSpecArgs);
+            break;
+          }
+          case 'get_specification_table': {
+            result = await this.toolProvider.getSpecificationTable(args as unknown as GetSpecificationTableArgs);
+            break;
+          }
+          case 'compare_platforms': {
+            result = await this.toolProvider.comparePlatforms(args as unknown as ComparePlatformsArgs);
+            break;
+          }
+          case 'get_latest_updates': {
+            result = await this.toolProvider.getLatestUpdates(args as unknown as GetLatestUpdatesArgs);
+            break;
+          }
+          case 'list_hig_sections': {
+            result = await this.toolProvider.listHIGSections(args as unknown as ListHIGSectionsArgs);
+            break;
+          }
+          case 'get_accessibility_requirements': {
+            result = await this.toolProvider.getAccessibilityRequirements(args as unknown as GetAccessibilityRequirementsArgs);
             break;
           }
-          // TODO: Future release - re-enable with static content integration
-          // case 'get_accessibility_requirements': {
-          //   result = await this.toolProvider.getAccessibilityRequirements(args as any);
-          //   break;
-          // }
           case 'search_technical_documentation': {
-            result = await this.toolProvider.searchTechnicalDocumentation(args as any);
+            result = await this.toolProvider.searchTechnicalDocumentation(args as unknown as SearchTechnicalArgs);
             break;
           }
           case 'search_unified': {
-            result = await this.toolProvider.searchUnified(args as any);
+            result = await this.toolProvider.searchUnified(args as unknown as SearchUnifiedArgs);
             break;
           }
           default:
             throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
         }
 
+        // Full data goes to structuredContent (round-tripped so Dates become ISO strings),
+        // the text block is a compact markdown rendering for clients that only read text
         return {
           content: [{
             type: 'text',
-            text: JSON.stringify(result, null, 2),
+            text: formatToolResult(name, result),
           }],
+          structuredContent: JSON.parse(JSON.stringify(result)),
         };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -280,12 +283,69 @@ class AppleHIGMCPServer {
         );
       }
     });
+
+    // Resource handlers
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return {
+        resources: await this.resourceProvider.listResources(),
+      };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: this.resourceProvider.listResourceTemplates(),
+      };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+
+      try {
+        const resource = await this.resourceProvider.readResource(uri);
+
+        return {
+          contents: [{
+            uri: resource.uri,
+            mimeType: resource.mimeType,
+            text: resource.content,
+          }],
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+        throw new McpError(ErrorCode.InvalidParams, errorMessage);
+      }
+    });
+
+    // Prompt handlers
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return {
+        prompts: this.promptProvider.listPrompts(),
+      };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+
+      try {
+        const prompt = await this.promptProvider.getPrompt(name, args);
+
+        return {
+          description: prompt.description,
+          messages: prompt.messages,
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+        throw new McpError(ErrorCode.InvalidParams, errorMessage);
+      }
+    });
   }
 
   /**
    * Start the MCP server with proper error handling and logging
    */
-  async run(): Promise<void> {
+  async run(options: ServerOptions): Promise<void> {
     try {
       // Minimal startup logging for fast DXT validation
       console.error('🚀 Apple Dev MCP Server starting...');
@@ -294,25 +354,44 @@ class AppleHIGMCPServer {
       await this.initialize();
       console.error('✅ Server initialized successfully');
 
-      const transport = new StdioServerTransport();
-      
-      // Add error handling for transport
-      transport.onclose = () => {
-        console.error('🔌 Transport closed');
-      };
-
-      transport.onerror = (error) => {
-        console.error('❌ Transport error:', error);
-      };
-
-      console.error('🔗 Connecting to transport...');
-      await this.server.connect(transport);
-      console.error('✅ Server connected and ready');
+      if (options.transport === 'http') {
+        await this.runHttp(options);
+      } else {
+        await this.runStdio();
+      }
     } catch (error) {
       console.error('💥 Server startup failed:', error);
       process.exit(1);
     }
   }
+
+  private async runStdio(): Promise<void> {
+    const transport = new StdioServerTransport();
+    
+    // Add error handling for transport
+    transport.onclose = () => {
+      console.error('🔌 Transport closed');
+    };
+
+    transport.onerror = (error) => {
+      console.error('❌ Transport error:', error);
+    };
+
+    console.error('🔗 Connecting to transport...');
+    await this.createServer().connect(transport);
+    console.error('✅ Server connected and ready');
+  }
+
+  private async runHttp(options: ServerOptions): Promise<void> {
+    const httpServer = new HIGHttpServer(
+      () => this.createServer(),
+      () => this.staticContentSearch.isContentAvailable(),
+      { port: options.port, host: options.host }
+    );
+
+    const port = await httpServer.start();
+    console.error(`✅ HTTP transport listening on http://${options.host}:${port} (Streamable HTTP: /mcp, SSE: /sse, health: /healthz)`);
+  }
 }
 
 // Handle graceful shutdown
@@ -324,10 +403,31 @@ process.on('SIGTERM', async () => {
   process.exit(0);
 });
 
-// Start the server immediately (remove conditional for DXT compatibility)
-console.error('🎯 Creating Apple Dev MCP Server instance...');
-const server = new AppleHIGMCPServer();
-server.run().catch((error) => {
-  console.error('💀 Fatal server error:', error);
-  process.exit(1);
-});
\ No newline at end of file
+const [command, ...commandArgs] = process.argv.slice(2);
+
+if (command === 'generate') {
+  // `apple-dev-mcp generate` regenerates content/ instead of serving it; loaded lazily to keep server startup fast
+  import('./generate.js')
+    .then(({ runGenerate }) => runGenerate(commandArgs))
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('💥 Content generation failed:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    });
+} else {
+  // Start the server immediately (remove conditional for DXT compatibility)
+  let options: ServerOptions;
+  try {
+    options = parseServerOptions(process.argv.slice(2));
+  } catch (error) {
+    console.error('💥 Invalid arguments:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  console.error('🎯 Creating Apple Dev MCP Server instance...');
+  const server = new AppleHIGMCPServer();
+  server.run(options).catch((error) => {
+    console.error('💀 Fatal server error:', error);
+    process.exit(1);
+  });
+}
\ No newline at end of file
@@ -0,0 +1,54 @@
+/**
+ * Accessibility Guidance Service
+ *
+ * Picks the accessibility-related sentences (VoiceOver, keyboard, contrast,
+ * touch targets, Dynamic Type and other settings) out of HIG page text.
+ */
+
+export interface AccessibilitySentences {
+  voiceOver: string[];
+  keyboard: string[];
+  contrast: string[];
+  touchTargets: string[];
+  other: string[];
+}
+
+export class AccessibilityGuidanceService {
+  private readonly topics: Array<{ topic: keyof AccessibilitySentences; pattern: RegExp }> = [
+    { topic: 'voiceOver', pattern: /voice ?over|screen reader|accessibility labels?\b|alt text/i },
+    { topic: 'keyboard', pattern: /keyboard|switch control/i },
+    { topic: 'contrast', pattern: /(?<!\b(by|in) )contrast/i },
+    { topic: 'touchTargets', pattern: /touch target|hit (region|target|area)|tap target|control size/i },
+    { topic: 'other', pattern: /dynamic type|text size|larger text|bold text|reduce (motion|transparency)|differentiate without color|color ?blind|captions|assistive|accessib/i }
+  ];
+
+  private readonly changeBannerPattern = /^(January|February|March|April|May|June|July|August|September|October|November|December) \d{1,2}, \d{4}\b/;
+
+  /**
+   * Group the accessibility-related sentences of a page by topic, in page order
+   */
+  extractSentences(markdown: string): AccessibilitySentences {
+    const result: AccessibilitySentences = { voiceOver: [], keyboard: [], contrast: [], touchTargets: [], other: [] };
+
+    for (const sentence of this.splitSentences(markdown)) {
+      // "For developer guidance, see ..." only points elsewhere, and change banners aren't guidance
+      if (/^for (more |additional |developer )?guidance/i.test(sentence) || this.changeBannerPattern.test(sentence)) continue;
+      if (sentence.length < 15) continue;
+
+      const match = this.topics.find(({ pattern }) => pattern.test(sentence));
+      if (match && !result[match.topic].includes(sentence)) {
+        result[match.topic].push(sentence);
+      }
+    }
+
+    return result;
+  }
+
+  private splitSentences(markdown: string): string[] {
+    return markdown
+      .replace(/\s+/g, ' ')
+      .split(/(?<=[.!?])\s+(?=[A-Z])/)
+      .map(sentence => sentence.trim())
+      .filter(Boolean);
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * BM25 Search Service
+ *
+ * Scores documents of a pre-built inverted index with BM25F (per-field length
+ * normalization and weights) plus a small bonus for query terms that appear
+ * next to each other. Query terms missing from the vocabulary are matched
+ * fuzzily against it.
+ */
+
+import { InvertedIndexService } from './content/inverted-index.service.js';
+import { FuzzyTermMatcherService } from './fuzzy-term-matcher.service.js';
+import type { InvertedIndex } from './content/inverted-index.service.js';
+
+export interface BM25Match {
+  id: string;
+  score: number;
+  matchedTerms: string[];
+}
+
+export class BM25SearchService {
+  private index: InvertedIndex;
+  private tokenizer: InvertedIndexService;
+  private fuzzyMatcher?: FuzzyTermMatcherService;
+  private readonly k1 = 1.2;
+  private readonly b = 0.75;
+  private readonly phraseBoost = 0.25;
+  private readonly expansionWeight = 0.5;
+  private readonly fuzzyWeights = [1, 0.8, 0.6]; // By edit distance
+
+  constructor(index: InvertedIndex, tokenizer?: InvertedIndexService) {
+    this.index = index;
+    this.tokenizer = tokenizer || new InvertedIndexService();
+  }
+
+  /**
+   * Score every document containing at least one query term, best first.
+   * Expansion terms (e.g. synonyms) count at a reduced weight and don't earn the phrase bonus.
+   */
+  search(query: string, expansions: string[] = []): BM25Match[] {
+    const termWeights = new Map<string, number>();
+    // Misspelled terms are replaced by their closest vocabulary match, keeping query order for the phrase bonus
+    const terms = [...new Set(this.tokenizer.tokenize(query).map(({ term }) => {
+      const correction = this.correct(term);
+      if (!correction) return term;
+
+      termWeights.set(correction.term, this.fuzzyWeights[correction.distance]);
+      return correction.term;
+    }))];
+    const expansionTerms = [...new Set(expansions.flatMap(expansion => this.tokenizer.tokenize(expansion).map(token => token.term)))]
+      .filter(term => !terms.includes(term));
+    expansionTerms.forEach(term => termWeights.set(term, this.expansionWeight));
+    if (terms.length === 0 && expansionTerms.length === 0) return [];
+
+    const documentCount = this.index.documents.length;
+    const scores = new Map<number, { score: number; matchedTerms: string[] }>();
+    // documentIndex -> fieldIndex -> term -> positions, for the phrase bonus
+    const positions = new Map<number, Map<number, Map<string, number[]>>>();
+
+    for (const term of [...terms, ...expansionTerms]) {
+      const termWeight = termWeights.get(term) ?? 1;
+      if (!this.hasTerm(term)) continue;
+      const postings = this.index.postings[term];
+
+      const documentFrequency = new Set(postings.map(([documentIndex]) => documentIndex)).size;
+      const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+
+      // Combine per-field term frequencies into one weighted, length-normalized frequency
+      const weightedFrequencies = new Map<number, number>();
+      for (const [documentIndex, fieldIndex, ...termPositions] of postings) {
+        const field = this.index.fields[fieldIndex];
+        const length = this.index.documents[documentIndex].lengths[fieldIndex];
+        const averageLength = this.index.averageLengths[fieldIndex] || 1;
+        const normalization = 1 - this.b + this.b * (length / averageLength);
+
+        weightedFrequencies.set(
+          documentIndex,
+          (weightedFrequencies.get(documentIndex) || 0) + field.weight * termPositions.length / normalization
+        );
+
+        if (!positions.has(documentIndex)) positions.set(documentIndex, new Map());
+        const fieldPositions = positions.get(documentIndex) as Map<number, Map<string, number[]>>;
+        if (!fieldPositions.has(fieldIndex)) fieldPositions.set(fieldIndex, new Map());
+        (fieldPositions.get(fieldIndex) as Map<string, number[]>).set(term, termPositions);
+      }
+
+      for (const [documentIndex, frequency] of weightedFrequencies) {
+        const entry = scores.get(documentIndex) || { score: 0, matchedTerms: [] };
+        entry.score += termWeight * idf * (frequency * (this.k1 + 1)) / (frequency + this.k1);
+        entry.matchedTerms.push(term);
+        scores.set(documentIndex, entry);
+      }
+    }
+
+    const matches: BM25Match[] = [];
+    for (const [documentIndex, { score, matchedTerms }] of scores) {
+      const adjacentPairs = this.countAdjacentPairs(terms, positions.get(documentIndex));
+      const phraseFactor = terms.length > 1 ? 1 + this.phraseBoost * adjacentPairs / (terms.length - 1) : 1;
+
+      matches.push({
+        id: this.index.documents[documentIndex].id,
+        score: score * phraseFactor,
+        matchedTerms
+      });
+    }
+
+    return matches.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Spelling suggestion for a query whose words are missing from the vocabulary, e.g.
+   * "segmnted control" -> "segmented control"; null when nothing needs correcting
+   */
+  suggest(query: string): string | null {
+    let corrected = false;
+
+    const words = query.trim().split(/\s+/).map(word => {
+      const [token] = this.tokenizer.tokenize(word);
+      const correction = token ? this.correct(token.term) : null;
+      if (!correction) return word;
+
+      corrected = true;
+      return correction.term;
+    });
+
+    return corrected ? words.join(' ') : null;
+  }
+
+  /**
+   * Closest vocabulary term for an unknown query term
+   */
+  private correct(term: string): { term: string; distance: number } | null {
+    if (this.hasTerm(term) || term.length < 4 || /\d/.test(term)) return null;
+
+    if (!this.fuzzyMatcher) {
+      const frequencies = new Map<string, number>();
+      for (const [vocabularyTerm, postings] of Object.entries(this.index.postings)) {
+        frequencies.set(vocabularyTerm, new Set(postings.map(([documentIndex]) => documentIndex)).size);
+      }
+      this.fuzzyMatcher = new FuzzyTermMatcherService(frequencies);
+    }
+
+    const [best] = this.fuzzyMatcher.lookup(term, 1);
+    return best ? { term: best.term, distance: best.distance } : null;
+  }
+
+  private hasTerm(term: string): boolean {
+    return Object.prototype.hasOwnProperty.call(this.index.postings, term);
+  }
+
+  /**
+   * Count consecutive query term pairs that appear side by side in some field
+   */
+  private countAdjacentPairs(terms: string[], fieldPositions?: Map<number, Map<string, number[]>>): number {
+    if (!fieldPositions) return 0;
+
+    let pairs = 0;
+    for (let i = 0; i < terms.length - 1; i++) {
+      const adjacent = [...fieldPositions.values()].some(termPositions => {
+        const first = termPositions.get(terms[i]);
+        const second = new Set(termPositions.get(terms[i + 1]) || []);
+        return first?.some(position => second.has(position + 1));
+      });
+      if (adjacent) pairs++;
+    }
+    return pairs;
+  }
+}
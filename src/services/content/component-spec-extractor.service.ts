@@ -0,0 +1,205 @@
+/**
+ * Component Spec Extractor Service
+ *
+ * Extracts structured measurements (dimensions, touch targets, spacing and
+ * typography values) from HIG markdown so they can be stored at index time.
+ */
+
+import type { ApplePlatform, ComponentSpec, SpecMeasurement } from '../../types.js';
+
+export class ComponentSpecExtractorService {
+  private readonly maxMeasurements = 40;
+
+  // Values like "34.67 x 34.67 pt (104 x 104 px @3x)" or "16 points"
+  private readonly measurementPattern = /(?<![\w.])(\d+(?:\.\d+)?)(?:\s*[x×]\s*(\d+(?:\.\d+)?))?\s*(points|point|pixels|pixel|pts|pt|px)(?:\s*(@\d(?:\.\d)?x))?(?:\s*\(([^)]*)\))?/g;
+
+  // Apple product names, including the "i OS" style tokens left by older extraction runs
+  private readonly platformPattern = /(i ?Pad ?OS|i ?OS|mac ?OS|tv ?OS|vision ?OS|watch ?OS)/g;
+
+  /**
+   * Extract a ComponentSpec from markdown, or undefined when it carries no measurements
+   */
+  extract(markdown: string): ComponentSpec | undefined {
+    const measurements = this.extractMeasurements(markdown);
+    if (measurements.length === 0) {
+      return undefined;
+    }
+
+    const spec: ComponentSpec = {};
+    const find = (predicate: (m: SpecMeasurement) => boolean) => measurements.find(predicate)?.value;
+    const labelHas = (m: SpecMeasurement, pattern: RegExp) => pattern.test(m.label.toLowerCase());
+
+    const touchTarget = find(m => m.kind === 'touch-target');
+    if (touchTarget) spec.touchTarget = touchTarget;
+
+    const minimumSize = find(m => m.kind !== 'spacing' && m.kind !== 'typography' && labelHas(m, /minimum/));
+    if (minimumSize) spec.minimumSize = minimumSize;
+
+    const dimensions: NonNullable<ComponentSpec['dimensions']> = {};
+    const width = find(m => m.kind === 'dimension' && labelHas(m, /width/) && !labelHas(m, /minimum/));
+    const height = find(m => m.kind === 'dimension' && labelHas(m, /height/) && !labelHas(m, /minimum/));
+    const minWidth = find(m => labelHas(m, /minimum width/));
+    const minHeight = find(m => labelHas(m, /minimum height/));
+    if (width) dimensions.width = width;
+    if (height) dimensions.height = height;
+    if (minWidth) dimensions.minWidth = minWidth;
+    if (minHeight) dimensions.minHeight = minHeight;
+    if (Object.keys(dimensions).length > 0) spec.dimensions = dimensions;
+
+    const spacing: NonNullable<ComponentSpec['spacing']> = {};
+    const padding = find(m => m.kind === 'spacing' && /padding/.test(`${m.label} ${m.context}`.toLowerCase()));
+    const margin = find(m => m.kind === 'spacing' && /margin|inset/.test(`${m.label} ${m.context}`.toLowerCase()));
+    if (padding) spacing.padding = padding;
+    if (margin) spacing.margin = margin;
+    if (Object.keys(spacing).length > 0) spec.spacing = spacing;
+
+    const fontSize = find(m => m.kind === 'typography');
+    if (fontSize) spec.typography = { fontSize };
+
+    spec.measurements = measurements;
+
+    return spec;
+  }
+
+  /**
+   * Find every point/pixel measurement with its label, platform and scale variants
+   */
+  extractMeasurements(markdown: string): SpecMeasurement[] {
+    const text = this.normalize(markdown);
+    const measurements: SpecMeasurement[] = [];
+    const seen = new Set<string>();
+
+    let previousEnd = 0;
+    let previousLabel = '';
+    let match: RegExpExecArray | null;
+
+    this.measurementPattern.lastIndex = 0;
+    while ((match = this.measurementPattern.exec(text)) !== null) {
+      const [raw, first, second, rawUnit, primaryScale, parenthetical] = match;
+      const unit: 'pt' | 'px' = /^(px|pixel)/.test(rawUnit) ? 'px' : 'pt';
+
+      const sentenceStart = this.findSentenceStart(text, match.index);
+      const labelStart = Math.max(previousEnd, sentenceStart);
+      let label = this.cleanLabel(text.slice(labelStart, match.index));
+      if (!label) label = previousLabel;
+
+      const value = second ? `${first} x ${second} ${unit}` : `${first} ${unit}`;
+      const scales = this.parseScales(parenthetical);
+      if (primaryScale && unit === 'px') {
+        // The value itself is a pixel size at a given scale, e.g. "17 x 17 px @1x"
+        scales.unshift({ value, scale: primaryScale });
+      }
+      const context = this.extractContext(text, match.index, match.index + raw.length);
+
+      previousEnd = match.index + raw.length;
+      previousLabel = label;
+
+      const key = `${label}|${value}|${scales.map(s => s.scale).join(',')}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const measurement: SpecMeasurement = {
+        label,
+        value,
+        unit,
+        kind: this.classify(label, context),
+        context
+      };
+
+      const platform = this.detectPlatform(label);
+      if (platform) measurement.platform = platform;
+      if (scales.length > 0) measurement.scales = scales;
+
+      measurements.push(measurement);
+      if (measurements.length >= this.maxMeasurements) break;
+    }
+
+    return measurements;
+  }
+
+  private normalize(markdown: string): string {
+    return markdown
+      .replace(/@\s*(\d(?:\.\d)?)\s*x\b/g, '@$1x') // "@3 x" -> "@3x"
+      .replace(/[ \t]+/g, ' ');
+  }
+
+  private parseScales(parenthetical: string | undefined): Array<{ value: string; scale: string }> {
+    const scales: Array<{ value: string; scale: string }> = [];
+    if (!parenthetical) return scales;
+
+    for (const part of parenthetical.split(',')) {
+      const scaleMatch = part.match(/(\d+(?:\.\d+)?)(?:\s*[x×]\s*(\d+(?:\.\d+)?))?\s*px\s*(@\d(?:\.\d)?x)?/);
+      if (!scaleMatch) continue;
+
+      const [, first, second, scale] = scaleMatch;
+      scales.push({
+        value: second ? `${first} x ${second} px` : `${first} px`,
+        scale: scale || '@1x'
+      });
+    }
+
+    return scales;
+  }
+
+  private findSentenceStart(text: string, index: number): number {
+    const before = text.slice(Math.max(0, index - 200), index);
+    const boundary = Math.max(before.lastIndexOf('. '), before.lastIndexOf('\n'), before.lastIndexOf(': '));
+    return boundary === -1 ? Math.max(0, index - 200) : index - before.length + boundary + 2;
+  }
+
+  private extractContext(text: string, start: number, end: number): string {
+    const sentenceStart = this.findSentenceStart(text, start);
+    const after = text.slice(end, end + 160);
+    const boundary = after.search(/\.\s|\n/);
+    const sentenceEnd = boundary === -1 ? end + after.length : end + boundary + 1;
+
+    return text.slice(sentenceStart, sentenceEnd).trim();
+  }
+
+  private cleanLabel(raw: string): string {
+    const words = raw
+      .replace(/[()[\]{}—–:;,]/g, ' ')
+      .replace(/^[\s.]+|[\s.]+$/g, '')
+      .split(/\s+/)
+      .filter(Boolean);
+
+    return words.slice(-6).join(' ');
+  }
+
+  private detectPlatform(label: string): ApplePlatform | undefined {
+    const matches = label.match(this.platformPattern);
+    if (!matches) return undefined;
+
+    const token = matches[matches.length - 1].replace(/\s+/g, '').toLowerCase();
+    const platformMap: Record<string, ApplePlatform> = {
+      'ios': 'iOS',
+      'ipados': 'iOS',
+      'macos': 'macOS',
+      'tvos': 'tvOS',
+      'visionos': 'visionOS',
+      'watchos': 'watchOS'
+    };
+
+    return platformMap[token];
+  }
+
+  private classify(label: string, context: string): SpecMeasurement['kind'] {
+    const labelLower = label.toLowerCase();
+    const contextLower = context.toLowerCase();
+
+    if (/touch target|hit target|hit region|hit area|tap target|control size/.test(`${labelLower} ${contextLower}`)) {
+      return 'touch-target';
+    }
+    if (/padding|margin|spacing|inset|apart|gap/.test(labelLower) || /padding|margin|spacing|inset|apart/.test(contextLower)) {
+      return 'spacing';
+    }
+    if (/font|text|type size|point size|weight/.test(labelLower) || /font|text size/.test(contextLower)) {
+      return 'typography';
+    }
+    if (/width|height|size|measur|dimension|icon|image|glyph|thickness|length/.test(`${labelLower} ${contextLower}`)) {
+      return 'dimension';
+    }
+
+    return 'size';
+  }
+}
@@ -0,0 +1,482 @@
+/**
+ * Content Generator Service
+ *
+ * Regenerates `content/` end to end: discovers HIG sections, fetches their HTML
+ * from a content source with bounded concurrency and retries, converts it to
+ * markdown, drops pages that fail the quality gate, and writes the markdown,
+ * search index, generation info and report before rebuilding derived metadata.
+ * Pages with tables also get a `<page>.tables.json` sidecar of typed rows.
+ *
+ * Sections come from the known section list, or with `liveDiscovery` from Apple's
+ * navigation index or sitemap, compared against that list in the report. Sections
+ * a crawl didn't find are kept and reported unless `prune` is set.
+ *
+ * Runs are incremental. Each index entry keeps the HTTP validators and hashes of
+ * its page, so unchanged pages are neither processed nor rewritten, and derived
+ * metadata is only rebuilt when a section was added, modified or removed.
+ */
+
+import path from 'path';
+import type { HIGSection, ApplePlatform, HIGCategory, ContentChangelog, ContentChange, DiscoverySource } from '../../types.js';
+import type { IContentSource, ContentGenerationConfig, FetchedPage, ProcessedPage } from '../../interfaces/content-interfaces.js';
+import { ContentHIGDiscoveryService } from './hig-discovery.service.js';
+import { ContentProcessorService } from './content-processor.service.js';
+import { ContentQualityValidatorService } from '../content-quality-validator.service.js';
+import { SearchIndexerService } from './search-indexer.service.js';
+import type { SearchIndexEntry } from './search-indexer.service.js';
+import { MetadataRebuildService } from './metadata-rebuild.service.js';
+import { ContentUpdatesService } from './content-updates.service.js';
+import { FileSystemService } from './file-system.service.js';
+
+export const DEFAULT_GENERATION_CONFIG: ContentGenerationConfig = {
+  outputDirectory: 'content',
+  batchSize: 3,
+  rateLimitDelay: 1000,
+  forceUpdate: false,
+  maxRetries: 2,
+  minQualityThreshold: 0.5
+};
+
+export interface GenerationFailure {
+  sectionId: string;
+  url: string;
+  stage: 'fetch' | 'process' | 'quality';
+  attempts: number;
+  reason: string;
+}
+
+export interface GenerationReport {
+  timestamp: string;
+  duration: number;
+  source: string;
+  statistics: {
+    totalSections: number;
+    successful: number; // Regenerated or confirmed unchanged
+    unchanged: number;
+    failed: number;
+    skipped: number; // Sections the source has no page for
+    successRate: number;
+    averageQuality: number;
+  };
+  config: {
+    outputDirectory: string;
+    maxConcurrentScrapes: number;
+    maxRetries: number;
+    enableQualityValidation: boolean;
+    minQualityThreshold: number;
+  };
+  platforms: ApplePlatform[];
+  categories: HIGCategory[];
+  changes: { added: number; modified: number; removed: number };
+  discovery?: { // Live discovery only: section ids compared with the known list
+    source: DiscoverySource;
+    truncated: boolean;
+    added: string[];
+    missing: string[];
+    reclassified: string[];
+    stale: string[]; // Previously generated sections the crawl didn't find, kept on disk unless pruned
+  };
+  failures: GenerationFailure[];
+  filesWritten: string[];
+}
+
+type SectionHashes = Pick<SearchIndexEntry, 'contentHash' | 'sourceHash' | 'etag' | 'lastModified'>;
+
+type SectionOutcome =
+  | {
+    status: 'generated';
+    section: HIGSection;
+    processed: ProcessedPage;
+    files: string[]; // The markdown, then its table sidecar if it has one
+    hashes: SectionHashes;
+    change: 'added' | 'modified' | null; // null when a forced run rewrote identical content
+    previousContentHash?: string;
+  }
+  | { status: 'unchanged'; entry: SearchIndexEntry }
+  | { status: 'failed'; failure: GenerationFailure };
+
+export class ContentGeneratorService {
+  private config: ContentGenerationConfig;
+  private source: IContentSource;
+  private fileSystem: FileSystemService;
+  private discovery: ContentHIGDiscoveryService;
+  private processor: ContentProcessorService;
+  private validator: ContentQualityValidatorService;
+  private searchIndexer: SearchIndexerService;
+  private metadataRebuild: MetadataRebuildService;
+  private contentUpdates: ContentUpdatesService;
+  private nextRequestAt = 0; // When the next request to the source may start, shared by concurrent sections
+
+  constructor(source: IContentSource, config: Partial<ContentGenerationConfig> = {}, fileSystem?: FileSystemService) {
+    this.config = { ...DEFAULT_GENERATION_CONFIG, ...config };
+    this.source = source;
+    this.fileSystem = fileSystem || new FileSystemService();
+    this.discovery = new ContentHIGDiscoveryService();
+    this.processor = new ContentProcessorService();
+    this.validator = new ContentQualityValidatorService({ minQualityScore: this.config.minQualityThreshold });
+    this.searchIndexer = new SearchIndexerService();
+    this.metadataRebuild = new MetadataRebuildService(this.fileSystem);
+    this.contentUpdates = new ContentUpdatesService();
+  }
+
+  /**
+   * Run the whole pipeline and write the generation report
+   */
+  async generate(): Promise<GenerationReport> {
+    const startTime = Date.now();
+    const { outputDirectory } = this.config;
+    const metadataDir = path.join(outputDirectory, 'metadata');
+    const indexPath = path.join(metadataDir, 'search-index.json');
+    const infoPath = path.join(metadataDir, 'generation-info.json');
+
+    const live = this.config.liveDiscovery ? await this.discoverLive() : null;
+    const discovered = live ? live.sections : await this.discovery.discoverSections();
+    const previousIndex = await this.readPreviousIndex(indexPath);
+    const { sections, skipped } = await this.selectSections(discovered);
+    console.log(`⚙️ Generating ${sections.length} sections from ${this.source.name}...`);
+
+    const outcomes = await this.mapWithConcurrency(sections, section => this.generateSection(section, previousIndex.get(section.id)));
+    const generated = outcomes.flatMap(outcome => outcome.status === 'generated' ? [outcome] : []);
+    const unchanged = outcomes.flatMap(outcome => outcome.status === 'unchanged' ? [outcome.entry] : []);
+    const failures = outcomes.flatMap(outcome => outcome.status === 'failed' ? [outcome.failure] : []);
+
+    if (generated.length === 0 && unchanged.length === 0) {
+      throw new Error(`No sections passed generation (${failures.length} failed); existing content was left untouched`);
+    }
+
+    const processedContent = new Map<string, ProcessedPage>(generated.map(outcome => [outcome.section.id, outcome.processed]));
+    const generatedSections = generated.map(outcome => outcome.section);
+    const filesWritten = generated.flatMap(outcome => outcome.files);
+
+    // Sections Apple no longer publishes leave the index; their markdown goes with them. A crawl can miss
+    // pages that still exist, so what it didn't find is only deleted on request, and never after a crawl cut short by maxPages.
+    const discoveredIds = new Set(discovered.map(section => section.id));
+    const stale = [...previousIndex.values()].filter(entry => !discoveredIds.has(entry.id));
+    const kept = live && !(this.config.prune && !live.truncated) ? stale : [];
+    const removed = stale.filter(entry => !kept.includes(entry));
+    if (kept.length > 0) {
+      console.log(`🗂️ Kept ${kept.length} sections the crawl didn't find${live?.truncated ? ' (it was cut short)' : '; rerun with --prune to delete them'}`);
+      kept.forEach(entry => console.log(`   ? ${entry.id}`));
+    }
+    for (const entry of removed) {
+      await this.fileSystem.remove(this.contentPath(entry));
+      await this.fileSystem.remove(this.sidecarPath(this.contentPath(entry)));
+    }
+
+    // Entries are replaced in place; sections that weren't fetched or failed keep their last good entry
+    const removedIds = new Set(removed.map(entry => entry.id));
+    const entries = new Map<string, SearchIndexEntry>([...previousIndex].filter(([id]) => !removedIds.has(id)));
+    unchanged.forEach(entry => entries.set(entry.id, entry));
+    const hashes = new Map(generated.map(outcome => [outcome.section.id, outcome.hashes]));
+    for (const entry of this.searchIndexer.generateSearchIndex(generatedSections, processedContent)) {
+      entries.set(entry.id, { ...entry, ...hashes.get(entry.id) });
+    }
+    const order = new Map(discovered.map((section, i) => [section.id, i]));
+    const searchIndex = [...entries.values()].sort((a, b) => (order.get(a.id) ?? order.size) - (order.get(b.id) ?? order.size));
+    filesWritten.push(await this.writeJson(indexPath, searchIndex));
+
+    const toChange = (section: Pick<HIGSection, 'title' | 'url' | 'platform' | 'category'> & { id: string }): ContentChange => ({
+      sectionId: section.id,
+      title: section.title,
+      url: section.url,
+      platform: section.platform,
+      category: section.category
+    });
+    const changelog: ContentChangelog = {
+      generatedAt: new Date().toISOString(),
+      since: (await this.readJson<{ generatedAt?: string }>(infoPath))?.generatedAt,
+      added: generated.filter(outcome => outcome.change === 'added')
+        .map(outcome => ({ ...toChange(outcome.section), contentHash: outcome.hashes.contentHash })),
+      modified: generated.filter(outcome => outcome.change === 'modified')
+        .map(outcome => ({ ...toChange(outcome.section), contentHash: outcome.hashes.contentHash, previousContentHash: outcome.previousContentHash })),
+      removed: removed.map(entry => ({ ...toChange(this.entryToSection(entry)), previousContentHash: entry.contentHash })),
+      unchanged: unchanged.length + generated.filter(outcome => outcome.change === null).length
+    };
+    const contentChanged = changelog.added.length + changelog.modified.length + changelog.removed.length > 0;
+
+    if (contentChanged) {
+      const allSections = searchIndex.map(entry => this.entryToSection(entry));
+      const allProcessed = new Map(searchIndex.map(entry => [entry.id, { quality: entry.quality }]));
+      filesWritten.push(await this.writeJson(infoPath, this.searchIndexer.generateMetadata(allSections, allProcessed)));
+      filesWritten.push(await this.writeJson(path.join(metadataDir, 'changelog.json'), changelog));
+
+      // Cross-references, specs, passages, indexes and updates all derive from the markdown just written
+      filesWritten.push(...(await this.metadataRebuild.rebuild(outputDirectory)).filesWritten);
+    } else {
+      console.log('📭 No sections added, modified or removed; derived metadata left as is');
+    }
+
+    const qualities = generated.map(outcome => outcome.processed.quality.score);
+    const attempted = sections.length;
+    const successful = generated.length + unchanged.length;
+    const report: GenerationReport = {
+      timestamp: new Date().toISOString(),
+      duration: Date.now() - startTime,
+      source: this.source.name,
+      statistics: {
+        totalSections: attempted,
+        successful,
+        unchanged: unchanged.length,
+        failed: failures.length,
+        skipped,
+        successRate: Math.round(successful / attempted * 100),
+        averageQuality: qualities.length > 0 ? Math.round(qualities.reduce((sum, score) => sum + score, 0) / qualities.length * 100) : 0
+      },
+      config: {
+        outputDirectory,
+        maxConcurrentScrapes: this.config.batchSize,
+        maxRetries: this.config.maxRetries,
+        enableQualityValidation: true,
+        minQualityThreshold: this.config.minQualityThreshold
+      },
+      platforms: [...new Set(generatedSections.map(section => section.platform))],
+      categories: [...new Set(generatedSections.map(section => section.category))],
+      changes: { added: changelog.added.length, modified: changelog.modified.length, removed: changelog.removed.length },
+      ...(live ? { discovery: { ...live.summary, stale: kept.map(entry => entry.id) } } : {}),
+      failures,
+      filesWritten
+    };
+
+    const reportPath = path.join(outputDirectory, 'generation-report.json');
+    report.filesWritten.push(reportPath);
+    await this.writeJson(reportPath, report);
+
+    console.log(`✅ ${successful}/${attempted} sections up to date: ${report.changes.added} added, ${report.changes.modified} modified, ` +
+      `${report.changes.removed} removed, ${unchanged.length} unchanged (${failures.length} failed, ${skipped} skipped)`);
+    return report;
+  }
+
+  /**
+   * Fetch, convert and quality-check one section, writing its markdown only if it passes and changed
+   *
+   * @param previous The section's entry in the existing index, if its markdown is still on disk
+   */
+  private async generateSection(section: HIGSection, previous?: SearchIndexEntry): Promise<SectionOutcome> {
+    const fail = (stage: GenerationFailure['stage'], attempts: number, reason: string): SectionOutcome => {
+      console.warn(`⚠️ ${section.id}: ${stage} failed after ${attempts} attempt(s): ${reason}`);
+      return { status: 'failed', failure: { sectionId: section.id, url: section.url, stage, attempts, reason } };
+    };
+    const incremental = previous !== undefined && !this.config.forceUpdate;
+
+    let page: FetchedPage | null | undefined;
+    let attempts = 0;
+    let fetchError = '';
+    while (page === undefined && attempts <= this.config.maxRetries) {
+      if (attempts > 0) {
+        await this.delay(this.config.rateLimitDelay * 2 ** (attempts - 1));
+      }
+      attempts++;
+      try {
+        page = await this.fetchPage(section, incremental ? previous : undefined);
+      } catch (error) {
+        fetchError = error instanceof Error ? error.message : String(error);
+      }
+    }
+    if (page === undefined) {
+      return fail('fetch', attempts, fetchError);
+    }
+    if (page === null) {
+      return previous ? { status: 'unchanged', entry: previous } : fail('fetch', attempts, 'Source reported the page as not modified without a previous version');
+    }
+
+    const pageHashes: SectionHashes = { sourceHash: this.contentUpdates.hashContent(page.html), etag: page.etag, lastModified: page.lastModified };
+    if (incremental && previous.sourceHash === pageHashes.sourceHash) {
+      return { status: 'unchanged', entry: { ...previous, ...pageHashes } };
+    }
+
+    let processed: ProcessedPage;
+    try {
+      processed = await this.processor.processContent(page.html, section);
+    } catch (error) {
+      return fail('process', attempts, error instanceof Error ? error.message : String(error));
+    }
+
+    const validation = await this.validator.validateContent(processed.cleanedMarkdown, { ...section, quality: processed.quality });
+    if (!validation.isValid || processed.quality.isFallbackContent) {
+      return fail('quality', attempts, validation.issues.join('; ') || 'Content appears to be fallback/placeholder content');
+    }
+
+    // Hashed as the metadata rebuild reads it back: the body below the front matter, trimmed
+    const hashes: SectionHashes = { ...pageHashes, contentHash: this.contentUpdates.hashContent(processed.cleanedMarkdown.trim()) };
+    const previousContentHash = previous && (previous.contentHash ?? await this.hashStoredContent(previous));
+    if (incremental && previousContentHash === hashes.contentHash) {
+      // New markup around the same guidance, e.g. a redesigned page chrome
+      return { status: 'unchanged', entry: { ...previous, ...hashes } };
+    }
+
+    const file = path.join(
+      this.config.outputDirectory,
+      section.platform === 'universal' ? 'universal' : path.join('platforms', this.discovery.getPlatformDirectory(section.platform)),
+      this.discovery.generateFilename(section)
+    );
+    await this.fileSystem.writeFile(file, processed.frontMatter + processed.cleanedMarkdown);
+    const files = [file];
+    if (processed.specificationTables.length > 0) {
+      files.push(await this.writeJson(this.sidecarPath(file), processed.specificationTables));
+    } else {
+      await this.fileSystem.remove(this.sidecarPath(file));
+    }
+
+    return {
+      status: 'generated',
+      section: { ...section, quality: processed.quality },
+      processed,
+      files,
+      hashes,
+      change: !previous ? 'added' : previousContentHash === hashes.contentHash ? null : 'modified',
+      previousContentHash
+    };
+  }
+
+  /**
+   * Fetch a page, conditionally on the previous validators when the source supports them
+   */
+  private async fetchPage(section: HIGSection, previous?: SearchIndexEntry): Promise<FetchedPage | null> {
+    await this.waitForRequestSlot();
+    if (this.source.fetchIfModified) {
+      return this.source.fetchIfModified(section, { etag: previous?.etag, lastModified: previous?.lastModified });
+    }
+    return { html: await this.source.fetchHtml(section) };
+  }
+
+  /**
+   * Crawl for sections and log how they differ from the known list; without the crawl, the known list is used
+   */
+  private async discoverLive(): Promise<{ sections: HIGSection[]; truncated: boolean; summary: Omit<NonNullable<GenerationReport['discovery']>, 'stale'> } | null> {
+    const discovery = new ContentHIGDiscoveryService(this.config.liveDiscovery);
+    let result;
+    try {
+      result = await discovery.crawlSections();
+    } catch (error) {
+      console.warn(`⚠️ Live discovery failed (${error instanceof Error ? error.message : error}); using the known section list`);
+      return null;
+    }
+
+    const diff = discovery.diffWithKnownSections(result.sections);
+    console.log(`🆚 Compared with the known list: ${diff.added.length} new, ${diff.missing.length} not found, ${diff.reclassified.length} reclassified`);
+    diff.added.forEach(section => console.log(`   + ${section.id} (${section.category})`));
+
+    return {
+      sections: result.sections,
+      truncated: result.truncated,
+      summary: {
+        source: result.source,
+        truncated: result.truncated,
+        added: diff.added.map(section => section.id),
+        missing: diff.missing.map(section => section.id),
+        reclassified: diff.reclassified.map(({ section }) => section.id)
+      }
+    };
+  }
+
+  /**
+   * Discovered sections narrowed to the configured ids and to the pages the source holds
+   */
+  private async selectSections(discovered: HIGSection[]): Promise<{ sections: HIGSection[]; skipped: number }> {
+    const wanted = this.config.sections;
+    const requested = wanted ? discovered.filter(section => wanted.includes(section.id)) : discovered;
+
+    if (wanted) {
+      const unknown = wanted.filter(id => !discovered.some(section => section.id === id));
+      if (unknown.length > 0) {
+        throw new Error(`Unknown section ids: ${unknown.join(', ')}`);
+      }
+    }
+
+    if (!this.source.hasSection) {
+      return { sections: requested, skipped: 0 };
+    }
+
+    const sections: HIGSection[] = [];
+    for (const section of requested) {
+      if (await this.source.hasSection(section)) sections.push(section);
+    }
+    return { sections, skipped: requested.length - sections.length };
+  }
+
+  /**
+   * Run the worker over every item with at most batchSize in flight, keeping input order
+   */
+  private async mapWithConcurrency<T, R>(items: T[], worker: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const runners = Array.from({ length: Math.max(1, Math.min(this.config.batchSize, items.length)) }, async () => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await worker(items[index]);
+      }
+    });
+    await Promise.all(runners);
+
+    return results;
+  }
+
+  /**
+   * Entries of the existing index whose markdown is still on disk, by section id
+   */
+  private async readPreviousIndex(indexPath: string): Promise<Map<string, SearchIndexEntry>> {
+    const previous = await this.readJson<SearchIndexEntry[]>(indexPath) || [];
+    const entries = new Map<string, SearchIndexEntry>();
+    for (const entry of previous) {
+      if (await this.fileSystem.exists(this.contentPath(entry))) entries.set(entry.id, entry);
+    }
+    return entries;
+  }
+
+  /**
+   * Hash of markdown written before entries carried a content hash
+   */
+  private async hashStoredContent(entry: SearchIndexEntry): Promise<string> {
+    const raw = await this.fileSystem.readFile(this.contentPath(entry));
+    return this.contentUpdates.hashContent(raw.replace(/^---\n[\s\S]*?\n---\n/, '').trim());
+  }
+
+  private sidecarPath(markdownFile: string): string {
+    return markdownFile.replace(/\.md$/, '.tables.json');
+  }
+
+  private contentPath(entry: SearchIndexEntry): string {
+    return entry.platform === 'universal'
+      ? path.join(this.config.outputDirectory, 'universal', entry.filename)
+      : path.join(this.config.outputDirectory, 'platforms', entry.platform.toLowerCase(), entry.filename);
+  }
+
+  private entryToSection(entry: SearchIndexEntry): HIGSection {
+    return {
+      id: entry.id,
+      title: entry.title,
+      url: entry.url,
+      platform: entry.platform as ApplePlatform,
+      category: entry.category as HIGCategory,
+      lastUpdated: new Date(entry.lastUpdated),
+      quality: entry.quality
+    };
+  }
+
+  private async readJson<T>(filePath: string): Promise<T | null> {
+    if (!(await this.fileSystem.exists(filePath))) return null;
+    return JSON.parse(await this.fileSystem.readFile(filePath));
+  }
+
+  private async writeJson(filePath: string, data: unknown): Promise<string> {
+    await this.fileSystem.writeFile(filePath, JSON.stringify(data, null, 2));
+    return filePath;
+  }
+
+  /**
+   * Wait until `rateLimitDelay` milliseconds have passed since the previous request started, whichever section sent it
+   */
+  private async waitForRequestSlot(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextRequestAt);
+    this.nextRequestAt = slot + this.config.rateLimitDelay;
+    if (slot > now) {
+      await this.delay(slot - now);
+    }
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Content Source Services
+ *
+ * Where the generator reads sections from: Apple's website, as HTML or as the DocC
+ * render-node JSON its pages are built from, or a directory of saved pages so content
+ * can be generated offline and in tests.
+ */
+
+import axios from 'axios';
+import path from 'path';
+import type { HIGSection } from '../../types.js';
+import type { IContentSource, ContentValidators, FetchedPage } from '../../interfaces/content-interfaces.js';
+import { FileSystemService } from './file-system.service.js';
+
+export const REQUEST_HEADERS = {
+  'User-Agent': 'Apple-Dev-MCP/2.0.3 (Development Purpose; Educational Use)',
+  'Accept': 'text/html,application/xhtml+xml',
+  'Accept-Language': 'en-US,en;q=0.9'
+};
+
+export class HttpContentSourceService implements IContentSource {
+  readonly name = 'developer.apple.com';
+  private timeout: number;
+  private headers: Record<string, string>;
+
+  constructor(timeout: number = 30000, headers: Record<string, string> = REQUEST_HEADERS) {
+    this.timeout = timeout;
+    this.headers = headers;
+  }
+
+  async fetchHtml(section: HIGSection): Promise<string> {
+    const response = await axios.get<string>(section.url, {
+      headers: this.headers,
+      timeout: this.timeout,
+      responseType: 'text'
+    });
+    return response.data;
+  }
+
+  /**
+   * Conditional GET: Apple answers 304 Not Modified when the validators still match
+   */
+  async fetchIfModified(section: HIGSection, validators: ContentValidators): Promise<FetchedPage | null> {
+    const response = await axios.get<string>(section.url, {
+      headers: {
+        ...this.headers,
+        ...(validators.etag ? { 'If-None-Match': validators.etag } : {}),
+        ...(validators.lastModified ? { 'If-Modified-Since': validators.lastModified } : {})
+      },
+      timeout: this.timeout,
+      responseType: 'text',
+      validateStatus: status => (status >= 200 && status < 300) || status === 304
+    });
+
+    if (response.status === 304) {
+      return null;
+    }
+    return {
+      html: response.data,
+      etag: response.headers['etag'] || undefined,
+      lastModified: response.headers['last-modified'] || undefined
+    };
+  }
+}
+
+/**
+ * Fetches the DocC render-node JSON a HIG page is rendered from in the browser
+ * (`/tutorials/data/design/human-interface-guidelines/<page>.json`), which needs no
+ * browser to turn into markdown
+ */
+export class DocCContentSourceService implements IContentSource {
+  readonly name = 'developer.apple.com (DocC JSON)';
+  private http: HttpContentSourceService;
+
+  constructor(timeout: number = 30000) {
+    this.http = new HttpContentSourceService(timeout, { ...REQUEST_HEADERS, 'Accept': 'application/json' });
+  }
+
+  async fetchHtml(section: HIGSection): Promise<string> {
+    return this.http.fetchHtml(this.toJsonSection(section));
+  }
+
+  async fetchIfModified(section: HIGSection, validators: ContentValidators): Promise<FetchedPage | null> {
+    return this.http.fetchIfModified(this.toJsonSection(section), validators);
+  }
+
+  /**
+   * The section with its page URL swapped for the URL of the page's JSON
+   */
+  private toJsonSection(section: HIGSection): HIGSection {
+    const url = new URL(section.url);
+    return { ...section, url: `${url.origin}/tutorials/data${url.pathname.replace(/\/+$/, '')}.json` };
+  }
+}
+
+/**
+ * Reads `<slug>.html`, or the page's DocC JSON saved as `<slug>.json`, where the slug is the last segment of the section URL. Pages that
+ * exist on several platforms under one URL can be told apart as `<platform>/<slug>.html`.
+ */
+export class FixtureContentSourceService implements IContentSource {
+  readonly name: string;
+  private directory: string;
+  private fileSystem: FileSystemService;
+
+  constructor(directory: string, fileSystem?: FileSystemService) {
+    this.directory = directory;
+    this.name = `fixtures in ${directory}`;
+    this.fileSystem = fileSystem || new FileSystemService();
+  }
+
+  async fetchHtml(section: HIGSection): Promise<string> {
+    const filePath = await this.findFixture(section);
+    if (!filePath) {
+      throw new Error(`No fixture for ${section.id} in ${this.directory}`);
+    }
+    return this.fileSystem.readFile(filePath);
+  }
+
+  async hasSection(section: HIGSection): Promise<boolean> {
+    return (await this.findFixture(section)) !== null;
+  }
+
+  private async findFixture(section: HIGSection): Promise<string | null> {
+    const slug = section.url.replace(/\/+$/, '').split('/').pop() || section.id;
+    const candidates = [
+      path.join(this.directory, section.platform.toLowerCase(), `${slug}.html`),
+      path.join(this.directory, `${slug}.html`),
+      path.join(this.directory, section.platform.toLowerCase(), `${slug}.json`),
+      path.join(this.directory, `${slug}.json`)
+    ];
+
+    for (const candidate of candidates) {
+      if (await this.fileSystem.exists(candidate)) return candidate;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Content Updates Service
+ *
+ * Derives dated HIGUpdate records from Apple's change banners
+ * ("June 9, 2025 Updated guidance for..."), from the Change log tables of pages,
+ * from content snapshot diffs and from the changelog of generation runs.
+ */
+
+import { createHash } from 'crypto';
+import type { HIGSection, HIGUpdate, ContentSnapshot, ContentChangelog, ContentChange } from '../../types.js';
+import type { IndexedPage } from '../../interfaces/content-interfaces.js';
+
+export class ContentUpdatesService {
+  private readonly months = [
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December'
+  ];
+
+  private readonly bannerPattern = new RegExp(`^(${this.months.join('|')}) (\\d{1,2}), (\\d{4})\\s+`);
+
+  /**
+   * Parse the change banner at the top of a page, if present
+   */
+  parseChangeBanner(markdown: string, title: string): { date: Date; description: string } | null {
+    const text = markdown.trim();
+    const match = text.match(this.bannerPattern);
+    if (!match) return null;
+
+    const [prefix, month, day, year] = match;
+    const date = new Date(Date.UTC(Number(year), this.months.indexOf(month), Number(day)));
+    const rest = text.slice(prefix.length);
+
+    // The banner runs straight into the page title, e.g. "...layered icons. App icons A unique..."
+    const titleIndex = rest.toLowerCase().indexOf(`. ${title.toLowerCase()} `);
+    let description: string;
+    if (titleIndex !== -1) {
+      description = rest.slice(0, titleIndex + 1);
+    } else {
+      const sentenceEnd = rest.search(/\.\s/);
+      description = sentenceEnd === -1 ? rest.slice(0, 300) : rest.slice(0, sentenceEnd + 1);
+    }
+
+    return { date, description: description.trim() };
+  }
+
+  /**
+   * Build update records from the change banners of processed sections
+   */
+  extractBannerUpdates(sections: HIGSection[], processedContent: Map<string, IndexedPage>): HIGUpdate[] {
+    const updates: HIGUpdate[] = [];
+
+    for (const section of sections) {
+      const processed = processedContent.get(section.id);
+      if (!processed?.cleanedMarkdown) continue;
+
+      const banner = this.parseChangeBanner(processed.cleanedMarkdown, section.title);
+      if (!banner) continue;
+
+      updates.push({
+        id: `${section.id}-${this.formatDate(banner.date)}`,
+        sectionId: section.id,
+        title: section.title,
+        description: banner.description,
+        url: section.url,
+        date: banner.date,
+        platform: section.platform,
+        type: this.classifyBanner(banner.description),
+        category: section.category,
+        source: 'change-banner'
+      });
+    }
+
+    return updates;
+  }
+
+  /**
+   * Build update records from the Change log rows of processed sections; a row dated like the
+   * page's banner gets the banner record's id, so the two collapse into one
+   */
+  extractChangeLogUpdates(sections: HIGSection[], processedContent: Map<string, IndexedPage>): HIGUpdate[] {
+    const updates: HIGUpdate[] = [];
+
+    for (const section of sections) {
+      const usedIds = new Set<string>();
+      for (const entry of processedContent.get(section.id)?.changeLog || []) {
+        const match = entry.date.match(/^(\w+) (\d{1,2}), (\d{4})$/);
+        const month = match ? this.months.indexOf(match[1]) : -1;
+        if (!match || month === -1) continue;
+
+        const date = new Date(Date.UTC(Number(match[3]), month, Number(match[2])));
+        let id = `${section.id}-${this.formatDate(date)}`;
+        for (let n = 2; usedIds.has(id); n++) {
+          id = `${section.id}-${this.formatDate(date)}-${n}`;
+        }
+        usedIds.add(id);
+
+        updates.push({
+          id,
+          sectionId: section.id,
+          title: section.title,
+          description: entry.description,
+          url: section.url,
+          date,
+          platform: section.platform,
+          type: this.classifyBanner(entry.description),
+          category: section.category,
+          source: 'change-log'
+        });
+      }
+    }
+
+    return updates;
+  }
+
+  /**
+   * Capture a content hash per section so the next generation run can be diffed against it
+   */
+  createSnapshot(sections: HIGSection[], processedContent: Map<string, IndexedPage>, generatedAt: Date = new Date()): ContentSnapshot {
+    const snapshot: ContentSnapshot = {
+      generatedAt: generatedAt.toISOString(),
+      sections: {}
+    };
+
+    for (const section of sections) {
+      const processed = processedContent.get(section.id);
+      if (!processed?.cleanedMarkdown) continue;
+
+      snapshot.sections[section.id] = {
+        title: section.title,
+        url: section.url,
+        platform: section.platform,
+        category: section.category,
+        contentHash: this.hashContent(processed.cleanedMarkdown)
+      };
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Short content hash, shared by snapshots and the search index so the two agree
+   */
+  hashContent(content: string): string {
+    return createHash('sha256').update(content).digest('hex').slice(0, 16);
+  }
+
+  /**
+   * Compare two snapshots into new, updated and deprecated (removed) section records
+   */
+  diffSnapshots(previous: ContentSnapshot, current: ContentSnapshot): HIGUpdate[] {
+    const date = new Date(current.generatedAt);
+    const since = previous.generatedAt.slice(0, 10);
+    const updates: HIGUpdate[] = [];
+
+    for (const [sectionId, section] of Object.entries(current.sections)) {
+      const before = previous.sections[sectionId];
+      if (!before) {
+        updates.push(this.diffUpdate({ sectionId, ...section }, date, 'new', `New section since the ${since} snapshot.`));
+      } else if (before.contentHash !== section.contentHash) {
+        updates.push(this.diffUpdate({ sectionId, ...section }, date, 'updated', `Content changed since the ${since} snapshot.`));
+      }
+    }
+
+    for (const [sectionId, section] of Object.entries(previous.sections)) {
+      if (!current.sections[sectionId]) {
+        updates.push(this.diffUpdate({ sectionId, ...section }, date, 'deprecated', `Section no longer published since the ${since} snapshot.`));
+      }
+    }
+
+    return updates;
+  }
+
+  /**
+   * Records for the sections a generation run added, modified and removed; ids match the
+   * snapshot diff of the same day, so both sources of one change collapse into one record
+   */
+  changelogToUpdates(changelog: ContentChangelog): HIGUpdate[] {
+    const date = new Date(changelog.generatedAt);
+    const since = changelog.since ? ` since ${changelog.since.slice(0, 10)}` : '';
+
+    return [
+      ...changelog.added.map(change => this.diffUpdate(change, date, 'new', `New section${since}.`)),
+      ...changelog.modified.map(change => this.diffUpdate(change, date, 'updated', `Content changed${since}.`)),
+      ...changelog.removed.map(change => this.diffUpdate(change, date, 'deprecated', `Section no longer published${since}.`))
+    ];
+  }
+
+  private diffUpdate(change: ContentChange, date: Date, type: HIGUpdate['type'], description: string): HIGUpdate {
+    return {
+      id: `${change.sectionId}-${this.formatDate(date)}-${type}`,
+      sectionId: change.sectionId,
+      title: change.title,
+      description,
+      url: change.url,
+      date,
+      platform: change.platform,
+      type,
+      category: change.category,
+      source: 'content-diff'
+    };
+  }
+
+  private classifyBanner(description: string): HIGUpdate['type'] {
+    if (/^(removed|deprecated|retired)\b/i.test(description)) return 'deprecated';
+    if (/^new (page|section)\b/i.test(description)) return 'new';
+    return 'updated';
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+}
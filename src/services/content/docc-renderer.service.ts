@@ -0,0 +1,229 @@
+/**
+ * DocC Renderer Service
+ *
+ * Apple's design pages are rendered in the browser from DocC render-node JSON
+ * (/tutorials/data/design/human-interface-guidelines/<page>.json). Rendering that
+ * JSON straight to markdown needs no browser and gives the same structure the HTML
+ * conversion keeps: headings, nested lists, `> Note` callouts, GitHub tables, code,
+ * images and absolute links.
+ */
+
+export interface DocCInline {
+  type: string; // 'text', 'emphasis', 'strong', 'codeVoice', 'reference', 'link', 'image', ...
+  text?: string;
+  code?: string;
+  inlineContent?: DocCInline[];
+  identifier?: string;
+  isActive?: boolean;
+  overridingTitle?: string;
+  destination?: string;
+  title?: string;
+}
+
+export interface DocCBlock {
+  type: string; // 'heading', 'paragraph', 'unorderedList', 'orderedList', 'aside', 'table', 'codeListing', ...
+  level?: number;
+  text?: string;
+  inlineContent?: DocCInline[];
+  items?: Array<{ content?: DocCBlock[] }> | string[];
+  start?: number;
+  style?: string;
+  name?: string;
+  content?: DocCBlock[];
+  header?: 'row' | 'column' | 'both' | 'none';
+  rows?: DocCBlock[][][];
+  syntax?: string;
+  code?: string[];
+  columns?: Array<{ content?: DocCBlock[] }>;
+  tabs?: Array<{ title?: string; content?: DocCBlock[] }>;
+}
+
+export interface DocCReference {
+  type: string; // 'topic', 'link', 'image', ...
+  title?: string;
+  url?: string;
+  alt?: string;
+  variants?: Array<{ url: string; traits?: string[] }>;
+}
+
+export interface DocCRenderNode {
+  metadata?: { title?: string };
+  abstract?: DocCInline[];
+  primaryContentSections?: Array<{ kind: string; content?: DocCBlock[] }>;
+  references?: Record<string, DocCReference>;
+}
+
+export class DocCRendererService {
+  private origin: string;
+
+  constructor(origin: string = 'https://developer.apple.com') {
+    this.origin = origin.replace(/\/+$/, '');
+  }
+
+  /**
+   * The render node in a fetched body, or null when the body is something else (e.g. HTML)
+   */
+  parse(body: string): DocCRenderNode | null {
+    if (!body.trimStart().startsWith('{')) return null;
+
+    try {
+      const node = JSON.parse(body);
+      return node && typeof node === 'object' && (Array.isArray(node.primaryContentSections) || node.metadata) ? node : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Title, abstract and content sections as markdown
+   */
+  render(node: DocCRenderNode): string {
+    const references = node.references || {};
+    const blocks: string[] = [];
+
+    if (node.metadata?.title) {
+      blocks.push(`# ${node.metadata.title.trim()}`);
+    }
+    const abstract = this.renderInline(node.abstract || [], references).trim();
+    if (abstract) {
+      blocks.push(abstract);
+    }
+    for (const section of node.primaryContentSections || []) {
+      if (section.kind === 'content') {
+        blocks.push(this.renderBlocks(section.content || [], references));
+      }
+    }
+
+    return blocks.filter(Boolean).join('\n\n').replace(/\n{3,}/g, '\n\n').trim();
+  }
+
+  private renderBlocks(blocks: DocCBlock[], references: Record<string, DocCReference>): string {
+    return blocks.map(block => this.renderBlock(block, references)).filter(Boolean).join('\n\n');
+  }
+
+  private renderBlock(block: DocCBlock, references: Record<string, DocCReference>): string {
+    switch (block.type) {
+      case 'heading':
+        return block.text?.trim() ? `${'#'.repeat(Math.min(Math.max(block.level || 2, 1), 6))} ${block.text.trim()}` : '';
+      case 'paragraph':
+      case 'small':
+        return this.renderInline(block.inlineContent || [], references).trim();
+      case 'unorderedList':
+      case 'orderedList':
+        return this.renderList(block, references);
+      case 'aside': {
+        const body = this.renderBlocks(block.content || [], references).trim();
+        if (!body) return '';
+        const label = block.name || (block.style ? block.style.charAt(0).toUpperCase() + block.style.slice(1) : 'Note');
+        return `> ${label}\n>\n${body.split('\n').map(line => line ? `> ${line}` : '>').join('\n')}`;
+      }
+      case 'table':
+        return this.renderTable(block.rows || [], references);
+      case 'codeListing':
+        return `\`\`\`${block.syntax || ''}\n${(block.code || []).join('\n')}\n\`\`\``;
+      case 'links':
+        return (block.items as string[] || [])
+          .map(identifier => this.renderReference({ type: 'reference', identifier }, references))
+          .filter(Boolean)
+          .map(link => `- ${link}`)
+          .join('\n');
+      case 'termList':
+        return (block.items as Array<{ term?: { inlineContent?: DocCInline[] }; definition?: { content?: DocCBlock[] } }> || [])
+          .map(item => `- **${this.renderInline(item.term?.inlineContent || [], references).trim()}**: ${this.renderBlocks(item.definition?.content || [], references).trim()}`)
+          .join('\n');
+      case 'row':
+        return (block.columns || []).map(column => this.renderBlocks(column.content || [], references)).filter(Boolean).join('\n\n');
+      case 'tabNavigator':
+        return (block.tabs || []).map(tab => [tab.title ? `**${tab.title}**` : '', this.renderBlocks(tab.content || [], references)].filter(Boolean).join('\n\n')).join('\n\n');
+      case 'thematicBreak':
+        return '---';
+      default:
+        // Videos, endpoint examples and other interactive blocks have no markdown form
+        return '';
+    }
+  }
+
+  /**
+   * "- item" or "N. item", with continuation lines indented under the text so nested lists stay nested
+   */
+  private renderList(block: DocCBlock, references: Record<string, DocCReference>): string {
+    const items = (block.items || []) as Array<{ content?: DocCBlock[] }>;
+
+    return items.map((item, i) => {
+      const marker = block.type === 'orderedList' ? `${(block.start ?? 1) + i}. ` : '- ';
+      const body = (item.content || [])
+        .map(child => ({ child, text: this.renderBlock(child, references) }))
+        .filter(({ text }) => text)
+        .map(({ child, text }, j) => (j === 0 ? '' : /List$/.test(child.type) ? '\n' : '\n\n') + text)
+        .join('')
+        .trim();
+      return `${marker}${body.replace(/\n/g, `\n${' '.repeat(marker.length)}`).replace(/\n +\n/g, '\n\n')}`;
+    }).join('\n');
+  }
+
+  /**
+   * GitHub table; like the HTML conversion, the first row is the header row
+   */
+  private renderTable(rows: DocCBlock[][][], references: Record<string, DocCReference>): string {
+    if (rows.length === 0) return '';
+
+    const cell = (blocks: DocCBlock[]) => this.renderBlocks(blocks || [], references).replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim();
+    const line = (row: DocCBlock[][]) => `| ${row.map(cell).join(' | ')} |`;
+    return [line(rows[0]), `|${' --- |'.repeat(rows[0].length)}`, ...rows.slice(1).map(line)].join('\n');
+  }
+
+  private renderInline(inlines: DocCInline[], references: Record<string, DocCReference>): string {
+    return inlines.map(inline => {
+      const content = () => this.renderInline(inline.inlineContent || [], references);
+
+      switch (inline.type) {
+        case 'text':
+          return inline.text || '';
+        case 'emphasis':
+        case 'newTerm':
+          return `*${content()}*`;
+        case 'strong':
+        case 'inlineHead':
+          return `**${content()}**`;
+        case 'strikethrough':
+          return `~~${content()}~~`;
+        case 'codeVoice':
+          return `\`${inline.code || ''}\``;
+        case 'reference':
+          return this.renderReference(inline, references);
+        case 'link':
+          return inline.destination ? `[${inline.title || inline.destination}](${this.absoluteUrl(inline.destination)})` : (inline.title || '');
+        case 'image': {
+          const image = inline.identifier ? references[inline.identifier] : undefined;
+          const url = this.imageUrl(image);
+          return url ? `![${image?.alt || ''}](${url})` : '';
+        }
+        default:
+          return inline.inlineContent ? content() : (inline.text || '');
+      }
+    }).join('');
+  }
+
+  private renderReference(inline: DocCInline, references: Record<string, DocCReference>): string {
+    const reference = inline.identifier ? references[inline.identifier] : undefined;
+    const title = inline.overridingTitle || reference?.title || '';
+    if (!reference?.url || inline.isActive === false) {
+      return title;
+    }
+    return `[${title || reference.url}](${this.absoluteUrl(reference.url)})`;
+  }
+
+  /**
+   * The light, 2x variant where there is one
+   */
+  private imageUrl(image: DocCReference | undefined): string | null {
+    const variants = image?.variants || [];
+    const score = (traits: string[] = []) => (traits.includes('light') ? 2 : 0) + (traits.includes('2x') ? 1 : 0) - (traits.includes('dark') ? 2 : 0);
+    const best = [...variants].sort((a, b) => score(b.traits) - score(a.traits))[0];
+    return best ? this.absoluteUrl(best.url) : null;
+  }
+
+  private absoluteUrl(url: string): string {
+    return /^\/(?!\/)/.test(url) ? `${this.origin}${url}` : url;
+  }
+}
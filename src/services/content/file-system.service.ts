@@ -37,6 +37,10 @@ export class FileSystemService {
     }
   }
 
+  async remove(filePath: string): Promise<void> {
+    await fs.rm(filePath, { force: true });
+  }
+
   existsSync(filePath: string): boolean {
     return existsSync(filePath);
   }
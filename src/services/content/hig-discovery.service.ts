@@ -2,13 +2,81 @@
  * HIG Discovery Service
  * 
  * Comprehensive discovery service that identifies all Apple HIG sections
- * across all platforms using known URL patterns and structures.
+ * across all platforms using known URL patterns and structures, or live by
+ * crawling the HIG navigation index (falling back to the sitemap) so pages
+ * Apple adds are picked up.
  */
 
-import type { HIGSection, ApplePlatform, HIGCategory } from '../../types.js';
+import axios from 'axios';
+import type {
+  HIGSection,
+  ApplePlatform,
+  HIGCategory,
+  DiscoveredLink,
+  DiscoveryConfig,
+  DiscoveryDiff,
+  DiscoverySource,
+  LiveDiscoveryResult
+} from '../../types.js';
+import { REQUEST_HEADERS } from './content-source.service.js';
+
+export const DEFAULT_DISCOVERY_CONFIG: DiscoveryConfig = {
+  baseUrl: 'https://developer.apple.com/design/human-interface-guidelines',
+  maxDepth: 3,
+  maxPages: 500,
+  respectfulDelay: 1000,
+  cacheKey: 'hig-discovery',
+  cacheTTL: 86400
+};
+
+// A node of the DocC navigator index Apple's site renders its sidebar from
+interface NavigationNode {
+  title?: string;
+  path?: string;
+  type?: string; // 'module', 'article', 'groupMarker', ...
+  children?: NavigationNode[];
+}
+
+interface CrawlState {
+  links: DiscoveredLink[];
+  seen: Set<string>;
+  truncated: boolean;
+}
 
 export class ContentHIGDiscoveryService {
   private readonly baseUrl = 'https://developer.apple.com/design/human-interface-guidelines';
+  private config: DiscoveryConfig;
+  private timeout: number;
+  private requests = 0;
+
+  // Sidebar groups of the HIG, most specific first when nested
+  private readonly groupCategories: Record<string, HIGCategory> = {
+    'getting started': 'foundations',
+    'foundations': 'foundations',
+    'content': 'visual-design',
+    'layout and organization': 'layout',
+    'menus and actions': 'selection-and-input',
+    'navigation and search': 'navigation',
+    'presentation': 'presentation',
+    'selection and input': 'selection-and-input',
+    'status': 'status',
+    'system experiences': 'system-capabilities',
+    'inputs': 'selection-and-input',
+    'technologies': 'technologies'
+  };
+
+  private readonly platformSlugs: Array<[RegExp, ApplePlatform]> = [
+    [/\b(ios|ipados|iphone|ipad)\b/, 'iOS'],
+    [/\b(macos|mac)\b/, 'macOS'],
+    [/\b(watchos|watch)\b/, 'watchOS'],
+    [/\b(tvos|tv)\b/, 'tvOS'],
+    [/\b(visionos|vision)\b/, 'visionOS']
+  ];
+
+  constructor(config: Partial<DiscoveryConfig> = {}, timeout: number = 30000) {
+    this.config = { ...DEFAULT_DISCOVERY_CONFIG, ...config };
+    this.timeout = timeout;
+  }
 
   /**
    * Discover all HIG sections using comprehensive known structure
@@ -16,19 +84,77 @@ export class ContentHIGDiscoveryService {
   async discoverSections(): Promise<HIGSection[]> {
     console.log('🔍 Discovering HIG sections...');
     
-    const discoveredSections: HIGSection[] = [];
-
-    // Universal/Cross-platform sections
-    discoveredSections.push(...this.getUniversalSections());
-    
-    // Platform-specific sections
-    discoveredSections.push(...this.getPlatformSpecificSections());
+    const discoveredSections = this.getKnownSections();
     
     console.log(`📋 Discovered ${discoveredSections.length} HIG sections`);
     
     return discoveredSections;
   }
 
+  /**
+   * Discover sections from the navigation index Apple's sidebar is built from, or
+   * from the sitemap when the index can't be read
+   */
+  async crawlSections(): Promise<LiveDiscoveryResult> {
+    const base = new URL(this.config.baseUrl.replace(/\/+$/, ''));
+    console.log(`🕸️ Crawling HIG pages from ${base.origin}...`);
+
+    let source: DiscoverySource = 'navigation-index';
+    let state: CrawlState;
+    try {
+      state = await this.crawlNavigationIndex(base);
+      if (state.links.length === 0) {
+        throw new Error('no HIG pages listed');
+      }
+    } catch (error) {
+      console.warn(`⚠️ Navigation index unavailable (${error instanceof Error ? error.message : error}); reading the sitemap`);
+      source = 'sitemap';
+      state = { links: [], seen: new Set(), truncated: false };
+      await this.crawlSitemap(new URL('/sitemap.xml', base.origin), base, state, 0);
+    }
+
+    if (state.links.length === 0) {
+      throw new Error(`No HIG pages found in the navigation index or sitemap of ${base.origin}`);
+    }
+
+    const sections = state.links.map(link => this.toSection(this.slugOf(link.url), link.title, link.platform, link.category, link.url));
+    console.log(`📋 Discovered ${sections.length} HIG sections from the ${source}${state.truncated ? ` (stopped at ${this.config.maxPages} pages)` : ''}`);
+    return { source, links: state.links, sections, truncated: state.truncated };
+  }
+
+  /**
+   * Compare crawled sections with the hard-coded list by page slug
+   */
+  diffWithKnownSections(sections: HIGSection[]): DiscoveryDiff {
+    const known = new Map<string, HIGSection[]>();
+    for (const section of this.getKnownSections()) {
+      const slug = this.slugOf(section.url);
+      known.set(slug, [...(known.get(slug) || []), section]);
+    }
+    const crawled = new Set(sections.map(section => this.slugOf(section.url)));
+
+    return {
+      added: sections.filter(section => !known.has(this.slugOf(section.url))),
+      missing: [...known.entries()].filter(([slug]) => !crawled.has(slug)).flatMap(([, entries]) => entries),
+      reclassified: sections.flatMap(section => {
+        const entries = known.get(this.slugOf(section.url));
+        if (!entries || entries.some(entry => entry.platform === section.platform && entry.category === section.category)) {
+          return [];
+        }
+        return [{ section, known: entries[0] }];
+      })
+    };
+  }
+
+  private getKnownSections(): HIGSection[] {
+    return [
+      // Universal/Cross-platform sections
+      ...this.getUniversalSections(),
+      // Platform-specific sections
+      ...this.getPlatformSpecificSections()
+    ];
+  }
+
   private getUniversalSections(): HIGSection[] {
     const sections: HIGSection[] = [];
 
@@ -134,16 +260,164 @@ export class ContentHIGDiscoveryService {
     category: HIGCategory
   ): void {
     for (const slug of slugs) {
-      sections.push({
-        id: `${platform.toLowerCase()}-${slug}`,
-        title: this.slugToTitle(slug),
-        url: `${this.baseUrl}/${slug}`,
-        platform,
-        category,
-        content: '', // Will be populated during scraping
-        lastUpdated: new Date()
-      });
+      sections.push(this.toSection(slug, this.slugToTitle(slug), platform, category, `${this.baseUrl}/${slug}`));
+    }
+  }
+
+  private toSection(slug: string, title: string, platform: ApplePlatform, category: HIGCategory, url: string): HIGSection {
+    return {
+      id: `${platform.toLowerCase()}-${slug}`,
+      title,
+      url,
+      platform,
+      category,
+      content: '', // Will be populated during scraping
+      lastUpdated: new Date()
+    };
+  }
+
+  /**
+   * Walk the DocC navigator index, e.g. /tutorials/data/index/design--human-interface-guidelines
+   */
+  private async crawlNavigationIndex(base: URL): Promise<CrawlState> {
+    const indexUrl = new URL(`/tutorials/data/index/${base.pathname.replace(/^\/+/, '').replace(/\//g, '--')}`, base.origin);
+    const index = JSON.parse(await this.fetchText(indexUrl.href));
+    const languages: Record<string, NavigationNode[]> = index?.interfaceLanguages || {};
+    const nodes = languages.swift || Object.values(languages)[0];
+    if (!Array.isArray(nodes)) {
+      throw new Error('unexpected navigation index format');
     }
+
+    const state: CrawlState = { links: [], seen: new Set(), truncated: false };
+    this.walkNavigation(nodes, 0, [], base, state);
+    return state;
+  }
+
+  /**
+   * Pages at `depth` levels below the HIG root; group markers and pages with children name the group of what follows
+   */
+  private walkNavigation(nodes: NavigationNode[], depth: number, groups: string[], base: URL, state: CrawlState): void {
+    let currentGroups = groups;
+
+    for (const node of nodes) {
+      if (state.truncated) return;
+
+      if (node.type === 'groupMarker') {
+        currentGroups = node.title ? [...groups, node.title] : groups;
+        continue;
+      }
+
+      const path = node.path?.replace(/\/+$/, '');
+      if (path === base.pathname) {
+        this.walkNavigation(node.children || [], depth + 1, currentGroups, base, state);
+        continue;
+      }
+
+      if (depth >= 1 && path?.startsWith(`${base.pathname}/`)) {
+        this.addLink(new URL(path, base.origin).href, node.title, depth, currentGroups, state);
+      }
+      if (node.children?.length && depth + 1 <= this.config.maxDepth) {
+        this.walkNavigation(node.children, depth + 1, node.title ? [...currentGroups, node.title] : currentGroups, base, state);
+      }
+    }
+  }
+
+  /**
+   * Read a sitemap, following a sitemap index down to `maxDepth` levels. Pages keep their
+   * path but are requested from the configured origin.
+   */
+  private async crawlSitemap(url: URL, base: URL, state: CrawlState, level: number): Promise<void> {
+    const xml = await this.fetchText(url.href);
+    const locations = [...xml.matchAll(/<loc>\s*([^<]+?)\s*<\/loc>/g)]
+      .map(match => new URL(match[1].replace(/&amp;/g, '&'), base.origin).pathname.replace(/\/+$/, ''));
+
+    if (/<sitemapindex[\s>]/.test(xml)) {
+      if (level >= this.config.maxDepth) return;
+      // Apple splits its sitemap by area; follow the design ones when it names any
+      const design = locations.filter(location => /design/i.test(location));
+      for (const location of design.length > 0 ? design : locations) {
+        if (state.truncated) return;
+        await this.crawlSitemap(new URL(location, base.origin), base, state, level + 1);
+      }
+      return;
+    }
+
+    for (const location of locations) {
+      if (state.truncated) return;
+      if (!location.startsWith(`${base.pathname}/`)) continue;
+
+      const depth = location.slice(base.pathname.length + 1).split('/').length;
+      if (depth <= this.config.maxDepth) {
+        this.addLink(new URL(location, base.origin).href, undefined, depth, [], state);
+      }
+    }
+  }
+
+  private addLink(url: string, title: string | undefined, depth: number, groups: string[], state: CrawlState): void {
+    if (state.seen.has(url)) return;
+    if (state.links.length >= this.config.maxPages) {
+      state.truncated = true;
+      return;
+    }
+
+    const slug = this.slugOf(url);
+    const platform = this.classifyPlatform(slug);
+    state.seen.add(url);
+    state.links.push({
+      url,
+      title: title?.trim() || this.slugToTitle(slug),
+      platform,
+      category: this.classifyCategory(slug, platform, groups),
+      depth
+    });
+  }
+
+  /**
+   * "Designing for watchOS" and pages the list knows keep their platform; other pages are
+   * platform-specific only when their slug names a platform
+   */
+  private classifyPlatform(slug: string): ApplePlatform {
+    const known = this.getKnownSections().filter(section => this.slugOf(section.url) === slug);
+    if (known.length > 0) {
+      return known.some(section => section.platform === 'universal') ? 'universal' : known[0].platform;
+    }
+
+    const words = slug.replace(/-/g, ' ');
+    return this.platformSlugs.find(([pattern]) => pattern.test(words))?.[1] || 'universal';
+  }
+
+  /**
+   * The innermost sidebar group with a category, else the list's category, else foundations
+   */
+  private classifyCategory(slug: string, platform: ApplePlatform, groups: string[]): HIGCategory {
+    for (const group of [...groups].reverse()) {
+      const category = this.groupCategories[group.toLowerCase()];
+      if (category) return category;
+    }
+
+    const known = this.getKnownSections().find(section => this.slugOf(section.url) === slug && section.platform === platform);
+    return known?.category || 'foundations';
+  }
+
+  /**
+   * GET with `respectfulDelay` milliseconds between requests
+   */
+  private async fetchText(url: string): Promise<string> {
+    if (this.requests++ > 0 && this.config.respectfulDelay > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.config.respectfulDelay));
+    }
+
+    const response = await axios.get<string>(url, {
+      headers: { ...REQUEST_HEADERS, 'Accept': 'application/json, application/xml, text/xml' },
+      timeout: this.timeout,
+      responseType: 'text',
+      transformResponse: data => data
+    });
+    return response.data;
+  }
+
+  private slugOf(url: string): string {
+    return url.replace(/\/+$/, '').split('/').pop() || '';
   }
 
   private slugToTitle(slug: string): string {
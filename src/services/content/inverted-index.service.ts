@@ -0,0 +1,163 @@
+/**
+ * Inverted Index Service
+ *
+ * Tokenizes HIG pages (and their passages) into per-field postings with term
+ * positions, serialized next to search-index.json and scored at query time by
+ * BM25SearchService.
+ */
+
+import type { HIGSection } from '../../types.js';
+import type { IndexedPage } from '../../interfaces/content-interfaces.js';
+
+export type IndexField = 'title' | 'headings' | 'body' | 'keywords';
+
+export interface InvertedIndex {
+  version: number;
+  generatedAt: string;
+  fields: Array<{ name: IndexField; weight: number }>;
+  documents: Array<{ id: string; lengths: number[] }>; // Token count per field, in `fields` order
+  averageLengths: number[];
+  // term -> [documentIndex, fieldIndex, ...positions] per document field containing it
+  postings: Record<string, number[][]>;
+}
+
+export interface IndexDocument {
+  id: string;
+  fields: Record<IndexField, string>;
+}
+
+export const INVERTED_INDEX_VERSION = 1;
+
+export class InvertedIndexService {
+  private readonly fieldWeights: Record<IndexField, number> = {
+    title: 3,
+    headings: 2,
+    body: 1,
+    keywords: 1.5
+  };
+
+  // The processor splits camel-cased names ("i OS", "Voice Over"); join them back into single terms
+  private readonly compounds: Array<[RegExp, string]> = [
+    [/\bi ?pad ?os\b/gi, 'ipados'],
+    [/\bi ?os\b/gi, 'ios'],
+    [/\bmac ?os\b/gi, 'macos'],
+    [/\bwatch ?os\b/gi, 'watchos'],
+    [/\btv ?os\b/gi, 'tvos'],
+    [/\bvision ?os\b/gi, 'visionos'],
+    [/\bi ?phone\b/gi, 'iphone'],
+    [/\bi ?pad\b/gi, 'ipad'],
+    [/\bi ?cloud\b/gi, 'icloud'],
+    [/\bvoice ?over\b/gi, 'voiceover'],
+    [/\bswift ?ui\b/gi, 'swiftui'],
+    [/\bui ?kit\b/gi, 'uikit'],
+    [/\bapp ?kit\b/gi, 'appkit']
+  ];
+
+  private readonly stopWords = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'for', 'from', 'has', 'have',
+    'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'so', 'than', 'that', 'the', 'their',
+    'them', 'then', 'there', 'these', 'they', 'this', 'to', 'was', 'were', 'when', 'which', 'while',
+    'with', 'you', 'your'
+  ]);
+
+  /**
+   * Split text into normalized terms with their positions (stop words keep their slot)
+   */
+  tokenize(text: string): Array<{ term: string; position: number }> {
+    let normalized = text
+      // Headings glued to the next sentence, e.g. "i Pad OSUse the switch"
+      .replace(/([A-Z]{2,})([A-Z][a-z])/g, '$1 $2');
+    for (const [pattern, replacement] of this.compounds) {
+      normalized = normalized.replace(pattern, replacement);
+    }
+
+    const words = normalized.toLowerCase().match(/[a-z0-9]+/g) || [];
+    const tokens: Array<{ term: string; position: number }> = [];
+
+    words.forEach((word, position) => {
+      if (this.stopWords.has(word)) return;
+      tokens.push({ term: this.stem(word), position });
+    });
+
+    return tokens;
+  }
+
+  /**
+   * Build the inverted index for processed sections
+   */
+  build(sections: HIGSection[], processedContent: Map<string, IndexedPage>, generatedAt: Date = new Date()): InvertedIndex {
+    const documents = sections
+      .filter(section => processedContent.get(section.id)?.cleanedMarkdown)
+      .map(section => ({ id: section.id, fields: this.getFieldTexts(section, processedContent.get(section.id)) }));
+
+    return this.buildDocuments(documents, generatedAt);
+  }
+
+  /**
+   * Build an inverted index over any documents with per-field text, such as page passages
+   */
+  buildDocuments(documents: IndexDocument[], generatedAt: Date = new Date()): InvertedIndex {
+    const fields = (Object.keys(this.fieldWeights) as IndexField[]).map(name => ({ name, weight: this.fieldWeights[name] }));
+    const indexedDocuments: InvertedIndex['documents'] = [];
+    const postings: Record<string, number[][]> = {};
+    const totals = fields.map(() => 0);
+
+    documents.forEach((document, documentIndex) => {
+      const lengths: number[] = [];
+
+      fields.forEach(({ name }, fieldIndex) => {
+        const tokens = this.tokenize(document.fields[name]);
+        lengths.push(tokens.length);
+        totals[fieldIndex] += tokens.length;
+
+        const positions = new Map<string, number[]>();
+        for (const { term, position } of tokens) {
+          const list = positions.get(term);
+          if (list) list.push(position);
+          else positions.set(term, [position]);
+        }
+
+        for (const [term, termPositions] of positions) {
+          // Own-property check: terms like "constructor" must not hit Object.prototype
+          if (!Object.prototype.hasOwnProperty.call(postings, term)) postings[term] = [];
+          postings[term].push([documentIndex, fieldIndex, ...termPositions]);
+        }
+      });
+
+      indexedDocuments.push({ id: document.id, lengths });
+    });
+
+    return {
+      version: INVERTED_INDEX_VERSION,
+      generatedAt: generatedAt.toISOString(),
+      fields,
+      documents: indexedDocuments,
+      averageLengths: totals.map(total => indexedDocuments.length > 0 ? Number((total / indexedDocuments.length).toFixed(2)) : 0),
+      postings
+    };
+  }
+
+  private getFieldTexts(section: HIGSection, processed: IndexedPage): Record<IndexField, string> {
+    const lines: string[] = processed.cleanedMarkdown.split('\n');
+    const headings = lines.filter(line => /^#{1,6}\s/.test(line)).map(line => line.replace(/^#+\s*/, ''));
+    const body = lines.filter(line => !/^#{1,6}\s/.test(line)).join('\n');
+
+    return {
+      title: section.title,
+      headings: headings.join('\n'),
+      body,
+      keywords: (processed.keywords || []).join(' ')
+    };
+  }
+
+  /**
+   * Light plural stemming so "buttons" and "button" share a term
+   */
+  private stem(word: string): string {
+    if (word.length <= 3 || /\d/.test(word)) return word;
+    if (word.endsWith('ies') && word.length > 4) return `${word.slice(0, -3)}y`;
+    if (/(ches|shes|sses|xes)$/.test(word)) return word.slice(0, -2);
+    if (word.endsWith('s') && !/(ss|us|is|os)$/.test(word)) return word.slice(0, -1);
+    return word;
+  }
+}
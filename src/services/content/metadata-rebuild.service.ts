@@ -0,0 +1,179 @@
+/**
+ * Metadata Rebuild Service
+ *
+ * Regenerates derived metadata (cross-references, component specifications, specification tables,
+ * inverted indexes, passages, embeddings, updates) from the already generated markdown, without
+ * re-scraping Apple's website.
+ */
+
+import path from 'path';
+import type { HIGSection, ApplePlatform, HIGCategory, HIGUpdate, ContentSnapshot, ContentChangelog } from '../../types.js';
+import type { IndexedPage } from '../../interfaces/content-interfaces.js';
+import { FileSystemService } from './file-system.service.js';
+import { SearchIndexerService } from './search-indexer.service.js';
+import { ContentUpdatesService } from './content-updates.service.js';
+import type { SearchIndexEntry } from './search-indexer.service.js';
+
+export interface MetadataRebuildResult {
+  sections: number;
+  filesWritten: string[];
+}
+
+export class MetadataRebuildService {
+  private fileSystem: FileSystemService;
+  private searchIndexer: SearchIndexerService;
+  private contentUpdates: ContentUpdatesService;
+
+  constructor(fileSystem?: FileSystemService, searchIndexer?: SearchIndexerService, contentUpdates?: ContentUpdatesService) {
+    this.fileSystem = fileSystem || new FileSystemService();
+    this.searchIndexer = searchIndexer || new SearchIndexerService();
+    this.contentUpdates = contentUpdates || new ContentUpdatesService();
+  }
+
+  /**
+   * Rebuild derived metadata files for a content directory
+   */
+  async rebuild(contentDirectory: string): Promise<MetadataRebuildResult> {
+    const metadataDir = path.join(contentDirectory, 'metadata');
+    const { sections, processedContent } = await this.loadSections(contentDirectory);
+
+    const filesWritten: string[] = [];
+
+    const crossReferences = this.searchIndexer.generateCrossReferences(sections, processedContent);
+    filesWritten.push(await this.writeJson(path.join(metadataDir, 'cross-references.json'), crossReferences));
+
+    const componentSpecs = this.searchIndexer.generateComponentSpecs(sections, processedContent);
+    filesWritten.push(await this.writeJson(path.join(metadataDir, 'component-specs.json'), componentSpecs));
+
+    const specificationTables = this.searchIndexer.generateSpecificationTables(sections, processedContent);
+    filesWritten.push(await this.writeJson(path.join(metadataDir, 'specification-tables.json'), specificationTables));
+
+    const invertedIndex = this.searchIndexer.generateInvertedIndex(sections, processedContent);
+    filesWritten.push(await this.writeJson(path.join(metadataDir, 'inverted-index.json'), invertedIndex, false));
+
+    const passages = this.searchIndexer.generatePassages(sections, processedContent);
+    filesWritten.push(await this.writeJson(path.join(metadataDir, 'passages.json'), passages, false));
+    const passageIndex = this.searchIndexer.generatePassageIndex(sections, passages);
+    filesWritten.push(await this.writeJson(path.join(metadataDir, 'passage-index.json'), passageIndex, false));
+
+    const semanticIndex = this.searchIndexer.generateSemanticIndex(sections, processedContent, passages);
+    filesWritten.push(await this.writeJson(path.join(metadataDir, 'semantic-index.json'), semanticIndex, false));
+
+    filesWritten.push(...await this.rebuildUpdates(metadataDir, sections, processedContent));
+
+    return {
+      sections: sections.length,
+      filesWritten
+    };
+  }
+
+  /**
+   * Write updates.json from change banners and Change log tables, a diff against the previous
+   * content snapshot and the changelog of the last generation run
+   */
+  private async rebuildUpdates(metadataDir: string, sections: HIGSection[], processedContent: Map<string, IndexedPage>): Promise<string[]> {
+    console.log('🗓️ Collecting content updates...');
+
+    const snapshotPath = path.join(metadataDir, 'content-snapshot.json');
+    const updatesPath = path.join(metadataDir, 'updates.json');
+    const changelogPath = path.join(metadataDir, 'changelog.json');
+
+    const previousSnapshot = await this.readJson<ContentSnapshot>(snapshotPath);
+    const currentSnapshot = this.contentUpdates.createSnapshot(sections, processedContent);
+
+    // Diff records can't be recomputed once the snapshot is replaced, so keep earlier ones
+    const previousUpdates = await this.readJson<HIGUpdate[]>(updatesPath) || [];
+    const diffUpdates = new Map<string, HIGUpdate>(
+      previousUpdates.filter(update => update.source === 'content-diff').map(update => [update.id, update])
+    );
+    if (previousSnapshot) {
+      for (const update of this.contentUpdates.diffSnapshots(previousSnapshot, currentSnapshot)) {
+        diffUpdates.set(update.id, update);
+      }
+    }
+    const changelog = await this.readJson<ContentChangelog>(changelogPath);
+    if (changelog) {
+      for (const update of this.contentUpdates.changelogToUpdates(changelog)) {
+        diffUpdates.set(update.id, update);
+      }
+    }
+
+    // A banner repeats the newest Change log row; keep the one record
+    const pageUpdates = new Map<string, HIGUpdate>([
+      ...this.contentUpdates.extractChangeLogUpdates(sections, processedContent),
+      ...this.contentUpdates.extractBannerUpdates(sections, processedContent)
+    ].map(update => [update.id, update]));
+
+    const updates = [
+      ...pageUpdates.values(),
+      ...diffUpdates.values()
+    ].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime() || a.sectionId.localeCompare(b.sectionId));
+
+    console.log(`🗓️ Recorded ${updates.length} updates`);
+
+    return [
+      await this.writeJson(updatesPath, updates),
+      await this.writeJson(snapshotPath, currentSnapshot)
+    ];
+  }
+
+  private async readJson<T>(filePath: string): Promise<T | null> {
+    if (!(await this.fileSystem.exists(filePath))) return null;
+    return JSON.parse(await this.fileSystem.readFile(filePath));
+  }
+
+  private async writeJson(filePath: string, data: unknown, pretty: boolean = true): Promise<string> {
+    await this.fileSystem.writeFile(filePath, pretty ? JSON.stringify(data, null, 2) : JSON.stringify(data));
+    return filePath;
+  }
+
+  /**
+   * Load sections and their markdown bodies using the existing search index
+   */
+  private async loadSections(contentDirectory: string): Promise<{
+    sections: HIGSection[];
+    processedContent: Map<string, IndexedPage>;
+  }> {
+    const indexPath = path.join(contentDirectory, 'metadata', 'search-index.json');
+    const index: SearchIndexEntry[] = JSON.parse(await this.fileSystem.readFile(indexPath));
+
+    const sections: HIGSection[] = [];
+    const processedContent = new Map<string, IndexedPage>();
+
+    for (const entry of index) {
+      const filePath = entry.platform === 'universal'
+        ? path.join(contentDirectory, 'universal', entry.filename)
+        : path.join(contentDirectory, 'platforms', entry.platform.toLowerCase(), entry.filename);
+
+      if (!(await this.fileSystem.exists(filePath))) {
+        console.warn(`⚠️ Skipping ${entry.id}: ${filePath} not found`);
+        continue;
+      }
+
+      const raw = await this.fileSystem.readFile(filePath);
+      const cleanedMarkdown = raw.replace(/^---\n[\s\S]*?\n---\n/, '').trim();
+      const frontMatter = raw.match(/^---\n([\s\S]*?)\n---\n/)?.[1] || '';
+      const changeLog = frontMatter.match(/^change_log: (.+)$/m);
+
+      sections.push({
+        id: entry.id,
+        title: entry.title,
+        url: entry.url,
+        platform: entry.platform as ApplePlatform,
+        category: entry.category as HIGCategory,
+        lastUpdated: new Date(entry.lastUpdated),
+        quality: entry.quality
+      });
+
+      processedContent.set(entry.id, {
+        cleanedMarkdown,
+        keywords: entry.keywords,
+        quality: entry.quality,
+        relatedSections: [],
+        ...(changeLog ? { changeLog: JSON.parse(changeLog[1]) } : {})
+      });
+    }
+
+    return { sections, processedContent };
+  }
+}
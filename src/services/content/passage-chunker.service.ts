@@ -0,0 +1,171 @@
+/**
+ * Passage Chunker Service
+ *
+ * Splits HIG pages into heading-anchored passages so search can return the
+ * paragraph that answers a query instead of the whole page. Markdown headings
+ * are used when a page has them; otherwise the standard HIG headings and
+ * platform blocks the processor glued into the text mark the boundaries.
+ */
+
+import type { HIGSection, HIGPassage, ApplePlatform } from '../../types.js';
+import { PlatformGuidanceService } from '../platform-guidance.service.js';
+
+interface PassageBoundary {
+  path: string[];
+  platforms?: ApplePlatform[];
+  start: number; // Where the heading begins
+  end: number; // Where its text begins
+}
+
+export class PassageChunkerService {
+  private platformGuidance: PlatformGuidanceService;
+  private readonly maxLength = 1200;
+  private readonly minLength = 200;
+
+  // "...at a glance. Best practices Make buttons..." / ". Platform considerations i OS, i Pad OSUse..."
+  private readonly inlineHeadingPattern =
+    /(?<=[.!?”")\]])\s?(Best practices|Platform considerations|Specifications|Anatomy|Resources)(?=\s?(?:[A-Z]|i ?OS|i ?Pad ?OS|mac ?OS|tv ?OS|vision ?OS|watch ?OS))/g;
+
+  constructor(platformGuidance?: PlatformGuidanceService) {
+    this.platformGuidance = platformGuidance || new PlatformGuidanceService();
+  }
+
+  /**
+   * Split a page into passages, in page order
+   */
+  chunk(section: Pick<HIGSection, 'id' | 'title'>, markdown: string): HIGPassage[] {
+    const boundaries = /^#{1,6}\s/m.test(markdown)
+      ? this.findMarkdownBoundaries(markdown, section.title)
+      : this.findInlineBoundaries(markdown);
+
+    const passages: HIGPassage[] = [];
+    const usedIds = new Set<string>();
+    const segments: PassageBoundary[] = [{ path: [], start: 0, end: 0 }, ...boundaries];
+
+    segments.forEach((segment, i) => {
+      const segmentEnd = i + 1 < segments.length ? segments[i + 1].start : markdown.length;
+      const text = markdown.slice(segment.end, segmentEnd).trim();
+      if (!text) return;
+
+      const baseId = this.uniqueId(`${section.id}--${this.slugify(segment.path) || 'overview'}`, usedIds);
+      const anchor = segment.path.length > 0
+        ? segment.path[segment.path.length - 1].replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '')
+        : undefined;
+
+      this.splitLongText(text).forEach((windowText, windowIndex) => {
+        const id = windowIndex === 0 ? baseId : this.uniqueId(`${baseId}-${windowIndex + 1}`, usedIds);
+        passages.push({
+          id,
+          sectionId: section.id,
+          headingPath: [section.title, ...segment.path],
+          ...(anchor ? { anchor } : {}),
+          ...(segment.platforms ? { platforms: segment.platforms } : {}),
+          text: windowText
+        });
+      });
+    });
+
+    return passages;
+  }
+
+  private findMarkdownBoundaries(markdown: string, title: string): PassageBoundary[] {
+    const boundaries: PassageBoundary[] = [];
+    const stack: Array<{ level: number; heading: string }> = [];
+    const headingPattern = /^(#{1,6})\s+(.+?)\s*#*$/gm;
+    const platformHeadings = new Map(this.platformGuidance.findHeadings(markdown).map(heading => [heading.start, heading.platforms]));
+
+    let match: RegExpExecArray | null;
+    while ((match = headingPattern.exec(markdown)) !== null) {
+      const level = match[1].length;
+      while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+      // "# Page title" introduces the overview rather than a passage of its own
+      if (level > 1 || match[2].toLowerCase() !== title.toLowerCase()) {
+        stack.push({ level, heading: match[2] });
+      }
+
+      const platforms = platformHeadings.get(match.index);
+      boundaries.push({
+        path: stack.map(entry => entry.heading),
+        ...(platforms ? { platforms } : {}),
+        start: match.index,
+        end: match.index + match[0].length
+      });
+    }
+
+    return boundaries;
+  }
+
+  /**
+   * Standard HIG headings, with platform blocks nested under Platform considerations
+   */
+  private findInlineBoundaries(markdown: string): PassageBoundary[] {
+    const boundaries: PassageBoundary[] = [];
+
+    this.inlineHeadingPattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = this.inlineHeadingPattern.exec(markdown)) !== null) {
+      boundaries.push({ path: [match[1]], start: match.index, end: match.index + match[0].length });
+    }
+
+    const platformHeadings = this.platformGuidance.findHeadings(markdown);
+    for (const boundary of boundaries.filter(b => b.path[0] === 'Platform considerations')) {
+      // "Platform considerationsi OS, i Pad OSSF Pro is..." has no sentence end before the first platform
+      const glued = this.platformGuidance.headingAt(markdown, boundary.end);
+      if (glued && !platformHeadings.some(heading => heading.start === glued.start)) platformHeadings.push(glued);
+    }
+
+    for (const heading of platformHeadings) {
+      const parent = boundaries.filter(boundary => boundary.path.length === 1 && boundary.start < heading.start).pop();
+      const path = parent?.path[0] === 'Platform considerations' ? [parent.path[0], heading.label] : [heading.label];
+      boundaries.push({ path, platforms: heading.platforms, start: heading.start, end: heading.end });
+    }
+
+    return boundaries.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Break text longer than maxLength into windows at sentence boundaries,
+   * folding a short remainder into the window before it
+   */
+  private splitLongText(text: string): string[] {
+    if (text.length <= this.maxLength) return [text];
+
+    const sentences = text.split(/(?<=[.!?”"])\s*(?=[A-Z])/).flatMap(sentence => sentence.length <= this.maxLength
+      ? [sentence]
+      // Specification tables run on without sentence ends, so cut those at word boundaries
+      : sentence.match(new RegExp(`\\S[\\s\\S]{0,${this.maxLength - 2}}\\S(?=\\s|$)`, 'g')) || [sentence]);
+    const windows: string[] = [];
+    let current = '';
+
+    for (const sentence of sentences) {
+      if (current && current.length + sentence.length > this.maxLength) {
+        windows.push(current);
+        current = '';
+      }
+      current = current ? `${current} ${sentence}` : sentence;
+    }
+
+    if (current.length < this.minLength && windows.length > 0) {
+      windows[windows.length - 1] = `${windows[windows.length - 1]} ${current}`;
+    } else if (current) {
+      windows.push(current);
+    }
+
+    return windows;
+  }
+
+  private slugify(path: string[]): string {
+    return path
+      .map(heading => heading.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, ''))
+      .join('--');
+  }
+
+  private uniqueId(id: string, usedIds: Set<string>): string {
+    let candidate = id;
+    for (let n = 2; usedIds.has(candidate); n++) {
+      candidate = `${id}-${n}`;
+    }
+    usedIds.add(candidate);
+    return candidate;
+  }
+}
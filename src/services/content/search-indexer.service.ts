@@ -4,8 +4,15 @@
  * Generates search indices and metadata for static HIG content
  */
 
-import type { HIGSection } from '../../types.js';
-import type { ContentQualityMetrics } from './content-processor.service.js';
+import type { HIGSection, HIGPassage, ComponentSpecEntry, SpecificationTable, ContentQualityMetrics } from '../../types.js';
+import type { IndexedPage } from '../../interfaces/content-interfaces.js';
+import { ComponentSpecExtractorService } from './component-spec-extractor.service.js';
+import { SpecificationTableService } from './specification-table.service.js';
+import { InvertedIndexService } from './inverted-index.service.js';
+import { PassageChunkerService } from './passage-chunker.service.js';
+import { SemanticVectorizerService, SEMANTIC_MODEL_VERSION } from './semantic-vectorizer.service.js';
+import type { SemanticSearchIndex } from './semantic-vectorizer.service.js';
+import type { InvertedIndex } from './inverted-index.service.js';
 
 export interface SearchIndexEntry {
   id: string;
@@ -23,6 +30,10 @@ export interface SearchIndexEntry {
   hasExamples: boolean;
   hasSpecifications: boolean;
   conceptCount: number;
+  contentHash?: string; // Hash of the markdown body, compared to tell modified sections from unchanged ones
+  sourceHash?: string; // Hash of the fetched HTML; an identical page is not processed again
+  etag?: string; // HTTP validators of the last fetch, sent back on the next conditional request
+  lastModified?: string;
 }
 
 export interface CrossReference {
@@ -45,11 +56,16 @@ export interface GenerationInfo {
 export class SearchIndexerService {
   private searchIndex: SearchIndexEntry[] = [];
   private crossReferences: CrossReference[] = [];
+  private specExtractor = new ComponentSpecExtractorService();
+  private tableExtractor = new SpecificationTableService();
+  private invertedIndexer = new InvertedIndexService();
+  private passageChunker = new PassageChunkerService();
+  private vectorizer = new SemanticVectorizerService(this.invertedIndexer);
 
   /**
    * Generate search index from processed sections
    */
-  generateSearchIndex(sections: HIGSection[], processedContent: Map<string, any>): SearchIndexEntry[] {
+  generateSearchIndex(sections: HIGSection[], processedContent: Map<string, IndexedPage>): SearchIndexEntry[] {
     console.log('📊 Generating search index...');
     
     this.searchIndex = [];
@@ -84,9 +100,10 @@ export class SearchIndexerService {
   }
 
   /**
-   * Generate cross-references between sections
+   * Generate cross-references between sections. Each reference describes `toSection`
+   * as seen from `fromSection`, e.g. a `child` reference points from a page to its subpage.
    */
-  generateCrossReferences(sections: HIGSection[], processedContent: Map<string, any>): CrossReference[] {
+  generateCrossReferences(sections: HIGSection[], processedContent: Map<string, IndexedPage>): CrossReference[] {
     console.log('🔗 Generating cross-references...');
     
     this.crossReferences = [];
@@ -104,27 +121,174 @@ export class SearchIndexerService {
           this.crossReferences.push({
             fromSection: section.id,
             toSection: relatedSection.id,
-            relationshipType: 'related',
-            relevanceScore: this.calculateRelevanceScore(section, relatedSection)
+            relationshipType: 'see-also',
+            relevanceScore: 0.9
           });
         }
       }
     }
 
+    // Parent/child links from the HIG's structure
+    this.addHierarchyRelationships(sections);
+
+    // Pages that point readers at each other
+    this.addMentionRelationships(sections, processedContent);
+
     // Add platform-based relationships
     this.addPlatformRelationships(sections);
 
     // Add category-based relationships  
     this.addCategoryRelationships(sections);
 
+    this.crossReferences = this.deduplicateReferences(this.crossReferences);
+
     console.log(`🔗 Generated ${this.crossReferences.length} cross-references`);
     return this.crossReferences;
   }
 
+  /**
+   * Extract component specifications so tools can answer without scraping markdown at query time
+   */
+  generateComponentSpecs(sections: HIGSection[], processedContent: Map<string, IndexedPage>): ComponentSpecEntry[] {
+    console.log('📐 Extracting component specifications...');
+
+    const specs: ComponentSpecEntry[] = [];
+
+    for (const section of sections) {
+      const processed = processedContent.get(section.id);
+      if (!processed?.cleanedMarkdown) continue;
+
+      const specification = this.specExtractor.extract(processed.cleanedMarkdown);
+      if (!specification) continue;
+
+      specs.push({
+        sectionId: section.id,
+        title: section.title,
+        platform: section.platform,
+        url: section.url,
+        specification
+      });
+    }
+
+    console.log(`📐 Extracted specifications for ${specs.length} sections`);
+    return specs;
+  }
+
+  /**
+   * Collect the specification tables of every section, in index order
+   */
+  generateSpecificationTables(sections: HIGSection[], processedContent: Map<string, IndexedPage>): SpecificationTable[] {
+    const tables = sections.flatMap(section => {
+      const processed = processedContent.get(section.id);
+      return processed?.cleanedMarkdown ? this.tableExtractor.extract(section, processed.cleanedMarkdown) : [];
+    });
+
+    console.log(`📊 Extracted ${tables.length} specification tables`);
+    return tables;
+  }
+
+  /**
+   * Build the BM25 inverted index over titles, headings, body text and keywords
+   */
+  generateInvertedIndex(sections: HIGSection[], processedContent: Map<string, IndexedPage>): InvertedIndex {
+    console.log('🗂️ Building inverted index...');
+
+    const index = this.invertedIndexer.build(sections, processedContent);
+
+    console.log(`🗂️ Indexed ${Object.keys(index.postings).length} terms across ${index.documents.length} sections`);
+    return index;
+  }
+
+  /**
+   * Split every section into heading-anchored passages
+   */
+  generatePassages(sections: HIGSection[], processedContent: Map<string, IndexedPage>): HIGPassage[] {
+    console.log('✂️ Chunking sections into passages...');
+
+    const passages = sections.flatMap(section => {
+      const processed = processedContent.get(section.id);
+      return processed?.cleanedMarkdown ? this.passageChunker.chunk(section, processed.cleanedMarkdown) : [];
+    });
+
+    console.log(`✂️ Created ${passages.length} passages from ${sections.length} sections`);
+    return passages;
+  }
+
+  /**
+   * Generate the inverted index passage search scores against
+   */
+  generatePassageIndex(sections: HIGSection[], passages: HIGPassage[]): InvertedIndex {
+    const titles = new Map(sections.map(section => [section.id, section.title]));
+
+    return this.invertedIndexer.buildDocuments(passages.map(passage => ({
+      id: passage.id,
+      fields: {
+        title: titles.get(passage.sectionId) || passage.headingPath[0],
+        headings: passage.headingPath.slice(1).join('\n'),
+        body: passage.text,
+        keywords: ''
+      }
+    })));
+  }
+
+  /**
+   * Fit the offline embedding model on the passages and precompute section and passage vectors
+   */
+  generateSemanticIndex(sections: HIGSection[], processedContent: Map<string, IndexedPage>, passages: HIGPassage[]): SemanticSearchIndex {
+    console.log('🧭 Building semantic index...');
+
+    const passageText = (passage: HIGPassage) => `${passage.headingPath.join(' ')} ${passage.text}`;
+    const model = this.vectorizer.fit(passages.map(passageText));
+    const passagesBySection = new Map<string, HIGPassage[]>();
+    for (const passage of passages) {
+      const sectionPassages = passagesBySection.get(passage.sectionId);
+      if (sectionPassages) sectionPassages.push(passage);
+      else passagesBySection.set(passage.sectionId, [passage]);
+    }
+
+    const sectionEmbeddings = sections
+      .filter(section => processedContent.get(section.id)?.cleanedMarkdown)
+      .map(section => {
+        const processed = processedContent.get(section.id);
+        const sectionPassages = passagesBySection.get(section.id) || [];
+        const guidelines = sectionPassages.filter(passage => passage.headingPath[1] === 'Best practices');
+
+        return {
+          sectionId: section.id,
+          embeddings: {
+            title: this.vectorizer.embed(model, section.title),
+            overview: this.vectorizer.embed(model, sectionPassages[0] ? passageText(sectionPassages[0]) : section.title),
+            guidelines: this.vectorizer.embed(model, guidelines.length > 0 ? guidelines.map(passageText).join(' ') : processed.cleanedMarkdown),
+            fullContent: this.vectorizer.embed(model, processed.cleanedMarkdown)
+          },
+          metadata: {
+            platform: section.platform,
+            category: section.category,
+            concepts: processed.keywords || [],
+            lastUpdated: section.lastUpdated || new Date(),
+            qualityScore: processed.quality?.score || 0
+          }
+        };
+      });
+
+    console.log(`🧭 Embedded ${passages.length} passages in ${model.dimension} dimensions`);
+    return {
+      version: SEMANTIC_MODEL_VERSION,
+      generatedAt: new Date().toISOString(),
+      model,
+      sections: sectionEmbeddings,
+      passages: passages.map(passage => ({
+        passageId: passage.id,
+        sectionId: passage.sectionId,
+        embedding: this.vectorizer.embed(model, passageText(passage))
+      }))
+    };
+  }
+
   /**
    * Generate metadata about the content generation process
    */
-  generateMetadata(sections: HIGSection[], processedContent: Map<string, any>): GenerationInfo {
+  generateMetadata(sections: HIGSection[], processedContent: Map<string, Pick<IndexedPage, 'quality'>>): GenerationInfo {
     const successful = Array.from(processedContent.values()).filter(p => p.quality && !p.quality.isFallbackContent).length;
     const totalQuality = Array.from(processedContent.values())
       .filter(p => p.quality)
@@ -253,6 +417,106 @@ export class SearchIndexerService {
     return Math.min(1.0, score);
   }
 
+  /**
+   * "Pop Up Buttons" is a child of "Buttons", and "Designing for macOS" is the parent of every macOS page
+   */
+  private addHierarchyRelationships(sections: HIGSection[]): void {
+    for (const child of sections) {
+      const childWords = this.singularWords(child.title);
+
+      for (const parent of sections) {
+        if (parent.id === child.id) continue;
+
+        const parentWords = this.singularWords(parent.title);
+        const isSubtopic = parentWords.length < childWords.length &&
+          parentWords.every((word, i) => childWords[childWords.length - parentWords.length + i] === word);
+        const isPlatformOverview = /^designing for /i.test(parent.title) &&
+          parent.platform !== 'universal' && parent.platform === child.platform;
+
+        if (isSubtopic || isPlatformOverview) {
+          this.crossReferences.push({
+            fromSection: parent.id,
+            toSection: child.id,
+            relationshipType: 'child',
+            relevanceScore: isSubtopic ? 0.9 : 0.7
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * "See also" links from the body text: a page that says "see pull-down buttons", or keeps
+   * mentioning another page's topic, points readers there
+   */
+  private addMentionRelationships(sections: HIGSection[], processedContent: Map<string, IndexedPage>): void {
+    const patterns = sections.map(section => ({ section, pattern: this.titlePattern(section.title) }));
+
+    for (const section of sections) {
+      const markdown: string = processedContent.get(section.id)?.cleanedMarkdown || '';
+      if (!markdown) continue;
+
+      for (const { section: other, pattern } of patterns) {
+        if (other.id === section.id) continue;
+
+        const explicit = new RegExp(`\\bsee (?:also )?(?:the )?${pattern.source}`, 'i').test(markdown);
+        // Single words like "Color" or "Menus" appear everywhere, so only an explicit "see" counts for those
+        const mentions = other.title.includes(' ') ? (markdown.match(new RegExp(pattern.source, 'gi')) || []).length : 0;
+
+        if (explicit || mentions >= 2) {
+          this.crossReferences.push({
+            fromSection: section.id,
+            toSection: other.id,
+            relationshipType: 'see-also',
+            relevanceScore: explicit ? 0.9 : Math.min(0.8, 0.4 + mentions * 0.1)
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * One reference per pair of sections: structure beats mentions, mentions beat similarity
+   */
+  private deduplicateReferences(references: CrossReference[]): CrossReference[] {
+    const priority: Record<CrossReference['relationshipType'], number> = { 'parent': 3, 'child': 3, 'see-also': 2, 'related': 1 };
+    const byPair = new Map<string, CrossReference>();
+
+    for (const reference of references) {
+      if (reference.fromSection === reference.toSection) continue;
+
+      const key = [reference.fromSection, reference.toSection].sort().join('|');
+      const existing = byPair.get(key);
+      if (!existing || priority[reference.relationshipType] > priority[existing.relationshipType] ||
+          (priority[reference.relationshipType] === priority[existing.relationshipType] && reference.relevanceScore > existing.relevanceScore)) {
+        byPair.set(key, reference);
+      }
+    }
+
+    return [...byPair.values()].map(reference => ({ ...reference, relevanceScore: Math.round(reference.relevanceScore * 100) / 100 }));
+  }
+
+  /**
+   * Regex for a title as it appears in running text: any case, singular or plural, spaces or hyphens
+   */
+  private titlePattern(title: string): RegExp {
+    const words = this.singularWords(title).map(word => {
+      const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      if (word.endsWith('y')) return `${escaped.slice(0, -1)}(?:y|ies)`;
+      return `${escaped}(?:e?s)?`;
+    });
+    return new RegExp(`\\b${words.join('[\\s-]+')}\\b`);
+  }
+
+  private singularWords(title: string): string[] {
+    return title.toLowerCase().split(/[\s-]+/).filter(Boolean).map(word => {
+      if (word.length <= 3 || /(ss|us|is|os)$/.test(word)) return word;
+      if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+      if (/(x|ch|sh)es$/.test(word)) return word.slice(0, -2);
+      return word.replace(/s$/, '');
+    });
+  }
+
   private addPlatformRelationships(sections: HIGSection[]): void {
     // Link universal content to platform-specific versions
     const universalSections = sections.filter(s => s.platform === 'universal');
@@ -286,12 +550,13 @@ export class SearchIndexerService {
       }
     }
     
-    // Add relationships within categories
+    // Add relationships within categories, between pages on a shared topic
+    // (a category alone, like foundations, spans too much to relate its pages)
     for (const [, sectionList] of categoryGroups) {
       for (let i = 0; i < sectionList.length; i++) {
         for (let j = i + 1; j < sectionList.length; j++) {
           const score = this.calculateRelevanceScore(sectionList[i], sectionList[j]);
-          if (score > 0.3) {
+          if (score > 0.3 && this.areTopicallySimilar(sectionList[i], sectionList[j])) {
             this.crossReferences.push({
               fromSection: sectionList[i].id,
               toSection: sectionList[j].id,
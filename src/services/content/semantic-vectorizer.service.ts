@@ -0,0 +1,303 @@
+/**
+ * Semantic Vectorizer Service
+ *
+ * Deterministic, fully offline text embeddings: TF-IDF term vectors projected
+ * onto latent concepts learned with LSA (a truncated SVD of the passage-by-term
+ * matrix). Passages that share vocabulary with related passages end up close
+ * together even when they have no words in common with the query. Words the
+ * passages never use add nothing to an embedding.
+ */
+
+import { InvertedIndexService } from './inverted-index.service.js';
+import type { EmbeddingVector, SemanticIndex, PassageEmbedding } from '../../types.js';
+
+export interface SemanticModel {
+  version: number;
+  model: string;
+  dimension: number;
+  terms: string[]; // The vocabulary; term i owns idf[i] and projection[i]
+  idf: number[];
+  projection: number[][]; // terms x dimension, the right singular vectors
+}
+
+// Serialized to semantic-index.json: the fitted model plus vectors precomputed for every section and passage
+export interface SemanticSearchIndex {
+  version: number;
+  generatedAt: string;
+  model: SemanticModel;
+  sections: SemanticIndex[];
+  passages: PassageEmbedding[];
+}
+
+export const SEMANTIC_MODEL_VERSION = 2;
+
+type SparseVector = Map<number, number>;
+
+export class SemanticVectorizerService {
+  private tokenizer: InvertedIndexService;
+  private readonly dimension: number;
+  private readonly oversampling = 10;
+  private readonly powerIterations = 3;
+  private readonly minDocumentFrequency: number;
+  private vocabularies = new WeakMap<SemanticModel, Map<string, number>>();
+
+  /**
+   * @param minDocumentFrequency Documents a term must appear in to join the vocabulary; a term of a
+   * single document says nothing about how documents relate
+   */
+  constructor(tokenizer?: InvertedIndexService, dimension: number = 64, minDocumentFrequency: number = 2) {
+    this.tokenizer = tokenizer || new InvertedIndexService();
+    this.dimension = dimension;
+    this.minDocumentFrequency = minDocumentFrequency;
+  }
+
+  /**
+   * Learn term weights and the latent projection from a corpus of documents
+   */
+  fit(documents: string[]): SemanticModel {
+    const documentFrequency = new Map<string, number>();
+    for (const document of documents) {
+      new Set(this.terms(document)).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+    }
+    const vocabulary = new Map<string, number>();
+    for (const [term, df] of documentFrequency) {
+      if (df >= this.minDocumentFrequency) vocabulary.set(term, vocabulary.size);
+    }
+    const counts = documents.map(document => this.countTerms(document, vocabulary));
+
+    const idf = [...vocabulary.keys()].map(term => Math.log((documents.length + 1) / ((documentFrequency.get(term) || 0) + 1)) + 1);
+
+    const rows = counts.map(vector => this.weight(vector, idf));
+    const dimension = Math.min(this.dimension, documents.length);
+    const projection = this.truncatedSvd(rows, vocabulary.size, dimension);
+
+    return {
+      version: SEMANTIC_MODEL_VERSION,
+      model: `tfidf-lsa-${vocabulary.size}x${dimension}`,
+      dimension,
+      terms: [...vocabulary.keys()],
+      idf: idf.map(value => this.round(value)),
+      projection: projection.map(row => row.map(value => this.round(value)))
+    };
+  }
+
+  /**
+   * Embed text with a fitted model; the vector is unit length, or all zeros when no term is known
+   */
+  embed(model: SemanticModel, text: string): EmbeddingVector {
+    const weighted = this.weight(this.countTerms(text, this.vocabularyOf(model)), model.idf);
+    const values = new Array(model.dimension).fill(0);
+
+    for (const [term, weight] of weighted) {
+      const row = model.projection[term];
+      for (let j = 0; j < model.dimension; j++) values[j] += weight * row[j];
+    }
+
+    return { values: this.normalize(values), dimension: model.dimension, model: model.model };
+  }
+
+  /**
+   * Cosine similarity of two unit vectors
+   */
+  similarity(a: EmbeddingVector, b: EmbeddingVector): number {
+    let dot = 0;
+    for (let i = 0; i < Math.min(a.values.length, b.values.length); i++) dot += a.values[i] * b.values[i];
+    return dot;
+  }
+
+  private terms(text: string): string[] {
+    return this.tokenizer.tokenize(text).map(({ term }) => term);
+  }
+
+  /**
+   * Counts of the vocabulary terms in a text, by term index; other terms are ignored
+   */
+  private countTerms(text: string, vocabulary: Map<string, number>): SparseVector {
+    const vector: SparseVector = new Map();
+    for (const term of this.terms(text)) {
+      const index = vocabulary.get(term);
+      if (index !== undefined) vector.set(index, (vector.get(index) || 0) + 1);
+    }
+    return vector;
+  }
+
+  private vocabularyOf(model: SemanticModel): Map<string, number> {
+    let vocabulary = this.vocabularies.get(model);
+    if (!vocabulary) {
+      vocabulary = new Map(model.terms.map((term, index) => [term, index]));
+      this.vocabularies.set(model, vocabulary);
+    }
+    return vocabulary;
+  }
+
+  /**
+   * Sublinear TF-IDF, L2 normalized
+   */
+  private weight(counts: SparseVector, idf: number[]): SparseVector {
+    const weighted: SparseVector = new Map();
+    let norm = 0;
+    for (const [term, count] of counts) {
+      const value = (1 + Math.log(count)) * idf[term];
+      weighted.set(term, value);
+      norm += value * value;
+    }
+
+    norm = Math.sqrt(norm);
+    if (norm > 0) weighted.forEach((value, term) => weighted.set(term, value / norm));
+    return weighted;
+  }
+
+  /**
+   * Randomized truncated SVD (Halko et al.), returning the top right singular vectors
+   * as a columns x dimension matrix. Seeded, so regeneration is reproducible.
+   */
+  private truncatedSvd(rows: SparseVector[], columns: number, dimension: number): number[][] {
+    const width = Math.min(dimension + this.oversampling, rows.length);
+    const random = this.seededRandom(42);
+    const omega = Array.from({ length: columns }, () => Array.from({ length: width }, () => random() * 2 - 1));
+
+    // Range finder with power iterations: Y = (A Aᵀ)^q A Ω
+    let basis = this.orthonormalize(this.multiplyRows(rows, omega, width));
+    for (let i = 0; i < this.powerIterations; i++) {
+      basis = this.orthonormalize(this.multiplyRows(rows, this.multiplyTransposed(rows, columns, basis, width), width));
+    }
+
+    // B = Qᵀ A is small (width x columns); its Gram matrix B Bᵀ gives the singular vectors
+    const b = this.multiplyTransposed(rows, columns, basis, width); // columns x width, i.e. Bᵀ
+    const gram = Array.from({ length: width }, (_, i) => Array.from({ length: width }, (_, j) => {
+      let sum = 0;
+      for (let k = 0; k < columns; k++) sum += b[k][i] * b[k][j];
+      return sum;
+    }));
+    const { values, vectors } = this.symmetricEigen(gram);
+
+    const order = values.map((value, index) => ({ value, index }))
+      .sort((x, y) => y.value - x.value)
+      .slice(0, dimension);
+
+    // V = Bᵀ U Σ⁻¹
+    return b.map(row => order.map(({ value, index }) => {
+      const sigma = Math.sqrt(Math.max(value, 1e-12));
+      let sum = 0;
+      for (let k = 0; k < width; k++) sum += row[k] * vectors[k][index];
+      return sum / sigma;
+    }));
+  }
+
+  /**
+   * Sparse rows (n x columns) times a dense columns x width matrix
+   */
+  private multiplyRows(rows: SparseVector[], dense: number[][], width: number): number[][] {
+    return rows.map(row => {
+      const result = new Array(width).fill(0);
+      for (const [column, value] of row) {
+        const denseRow = dense[column];
+        for (let j = 0; j < width; j++) result[j] += value * denseRow[j];
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Transpose of the sparse rows (columns x n) times a dense n x width matrix
+   */
+  private multiplyTransposed(rows: SparseVector[], columns: number, dense: number[][], width: number): number[][] {
+    const result = Array.from({ length: columns }, () => new Array(width).fill(0));
+    rows.forEach((row, i) => {
+      for (const [column, value] of row) {
+        const target = result[column];
+        for (let j = 0; j < width; j++) target[j] += value * dense[i][j];
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Modified Gram-Schmidt over the columns of an n x width matrix
+   */
+  private orthonormalize(matrix: number[][]): number[][] {
+    const width = matrix[0]?.length || 0;
+    for (let j = 0; j < width; j++) {
+      for (let k = 0; k < j; k++) {
+        let dot = 0;
+        for (const row of matrix) dot += row[j] * row[k];
+        for (const row of matrix) row[j] -= dot * row[k];
+      }
+      let norm = 0;
+      for (const row of matrix) norm += row[j] * row[j];
+      norm = Math.sqrt(norm) || 1;
+      for (const row of matrix) row[j] /= norm;
+    }
+    return matrix;
+  }
+
+  /**
+   * Cyclic Jacobi eigendecomposition of a small symmetric matrix
+   */
+  private symmetricEigen(input: number[][]): { values: number[]; vectors: number[][] } {
+    const n = input.length;
+    const a = input.map(row => [...row]);
+    const vectors: number[][] = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+
+    for (let sweep = 0; sweep < 100; sweep++) {
+      let offDiagonal = 0;
+      for (let p = 0; p < n; p++) for (let q = p + 1; q < n; q++) offDiagonal += a[p][q] * a[p][q];
+      if (offDiagonal < 1e-18) break;
+
+      for (let p = 0; p < n; p++) {
+        for (let q = p + 1; q < n; q++) {
+          if (Math.abs(a[p][q]) < 1e-15) continue;
+
+          const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+          const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+          const c = 1 / Math.sqrt(t * t + 1);
+          const s = t * c;
+
+          for (let k = 0; k < n; k++) {
+            const akp = a[k][p];
+            const akq = a[k][q];
+            a[k][p] = c * akp - s * akq;
+            a[k][q] = s * akp + c * akq;
+          }
+          for (let k = 0; k < n; k++) {
+            const apk = a[p][k];
+            const aqk = a[q][k];
+            a[p][k] = c * apk - s * aqk;
+            a[q][k] = s * apk + c * aqk;
+          }
+          for (let k = 0; k < n; k++) {
+            const vkp = vectors[k][p];
+            const vkq = vectors[k][q];
+            vectors[k][p] = c * vkp - s * vkq;
+            vectors[k][q] = s * vkp + c * vkq;
+          }
+        }
+      }
+    }
+
+    return { values: a.map((row, i) => row[i]), vectors };
+  }
+
+  private normalize(values: number[]): number[] {
+    const norm = Math.sqrt(values.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? values.map(value => this.round(value / norm)) : values;
+  }
+
+  private round(value: number): number {
+    return Number(value.toFixed(5));
+  }
+
+  /**
+   * mulberry32
+   */
+  private seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Specification Table Service
+ *
+ * Reads the GitHub tables the processor writes into HIG markdown as typed
+ * specification tables, and answers lookups such as "tvOS app icon layout size"
+ * with the row and cell they point at.
+ */
+
+import type { HIGSection, SpecificationTable, SpecificationColumn } from '../../types.js';
+import { InvertedIndexService } from './inverted-index.service.js';
+
+export interface SpecificationLookup {
+  table: SpecificationTable; // Rows narrowed to the platform and row asked for
+  platform?: string;
+  column?: SpecificationColumn;
+  value?: string;
+}
+
+export interface SpecificationLookupRequest {
+  query?: string;
+  platform?: string;
+  column?: string;
+}
+
+export class SpecificationTableService {
+  private tokenizer: InvertedIndexService;
+
+  // Tokenizer terms of platform names, and how Apple writes them
+  private readonly platformTerms: Record<string, string> = {
+    ios: 'iOS',
+    ipados: 'iPadOS',
+    macos: 'macOS',
+    tvos: 'tvOS',
+    visionos: 'visionOS',
+    watchos: 'watchOS'
+  };
+
+  constructor(tokenizer?: InvertedIndexService) {
+    this.tokenizer = tokenizer || new InvertedIndexService();
+  }
+
+  /**
+   * Tables of a page, in page order, titled by the heading they sit under
+   */
+  extract(section: Pick<HIGSection, 'id' | 'title'>, markdown: string): SpecificationTable[] {
+    const tables: SpecificationTable[] = [];
+    const usedIds = new Set<string>();
+    const stack: Array<{ level: number; heading: string }> = [];
+    const lines = markdown.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+      const heading = lines[i].match(/^(#{1,6})\s+(.+?)\s*#*$/);
+      if (heading) {
+        const level = heading[1].length;
+        while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+        if (level > 1 || heading[2].toLowerCase() !== section.title.toLowerCase()) {
+          stack.push({ level, heading: heading[2] });
+        }
+        continue;
+      }
+
+      if (!lines[i].startsWith('|') || !/^\|(\s*:?-{3,}:?\s*\|)+\s*$/.test(lines[i + 1] || '')) continue;
+
+      const columns = this.toColumns(this.splitRow(lines[i]));
+      const rows: SpecificationTable['rows'] = [];
+      let next = i + 2;
+      for (; next < lines.length && lines[next].startsWith('|'); next++) {
+        const cells = this.splitRow(lines[next]);
+        rows.push(Object.fromEntries(columns.map((column, j) => [column.key, cells[j] ?? ''])));
+      }
+      i = next - 1;
+
+      const headingPath = [section.title, ...stack.map(entry => entry.heading)];
+      const title = headingPath[headingPath.length - 1];
+      tables.push({
+        id: this.uniqueId(`${section.id}--${title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`, usedIds),
+        sectionId: section.id,
+        title,
+        headingPath,
+        columns,
+        rows
+      });
+    }
+
+    return tables;
+  }
+
+  /**
+   * Find the table, column and rows a question points at. The query names the page or table,
+   * a column and optionally a platform or row label; with tables from several sections it has
+   * to name one of them.
+   */
+  lookup(tables: SpecificationTable[], request: SpecificationLookupRequest): SpecificationLookup | null {
+    const queryTerms = this.terms(request.query || '');
+    const platformTerm = request.platform?.toLowerCase() ?? queryTerms.find(term => term in this.platformTerms);
+    const wanted = queryTerms.filter(term => !(term in this.platformTerms));
+
+    let best: { table: SpecificationTable; score: number; namesTable: boolean; column?: SpecificationColumn; rest: string[] } | null = null;
+    for (const table of tables) {
+      const titleTerms = new Set(this.terms(table.headingPath.join(' ')));
+      const rest = wanted.filter(term => !titleTerms.has(term));
+      const match = request.column ? this.findColumn(table, request.column) : this.matchColumn(table, rest);
+      if (request.column && !match) continue;
+
+      const platformColumn = this.platformColumn(table);
+      const listsPlatform = platformTerm !== undefined && platformColumn !== undefined &&
+        table.rows.some(row => this.terms(row[platformColumn.key]).includes(platformTerm));
+      const score = (wanted.length - rest.length) * 2 + (match?.matched.length ?? 0) + (listsPlatform ? 1 : 0);
+
+      if (!best || score > best.score) {
+        best = { table, score, namesTable: rest.length < wanted.length, column: match?.column, rest: rest.filter(term => !match?.matched.includes(term)) };
+      }
+    }
+
+    if (!best || (!best.namesTable && new Set(tables.map(table => table.sectionId)).size > 1)) {
+      return null;
+    }
+
+    const { table, column } = best;
+    let rows = table.rows;
+
+    const platformColumn = this.platformColumn(table);
+    if (platformTerm && platformColumn) {
+      rows = rows.filter(row => this.terms(row[platformColumn.key]).includes(platformTerm));
+    }
+
+    // Words left over name a row, e.g. "glyph size" in "quick action glyph size @3x"
+    const labelKey = table.columns[0]?.key;
+    if (best.rest.length > 0 && labelKey) {
+      const counts = rows.map(row => this.terms(row[labelKey]).filter(term => best.rest.includes(term)).length);
+      const most = Math.max(0, ...counts);
+      if (most > 0) rows = rows.filter((_, i) => counts[i] === most);
+    }
+
+    return {
+      table: { ...table, rows },
+      ...(platformTerm ? { platform: request.platform ?? this.platformTerms[platformTerm] } : {}),
+      ...(column ? { column } : {}),
+      ...(column && rows.length === 1 ? { value: rows[0][column.key] } : {})
+    };
+  }
+
+  /**
+   * The column whose label shares the most words with the query, preferring shorter labels on ties
+   */
+  private matchColumn(table: SpecificationTable, terms: string[]): { column: SpecificationColumn; matched: string[] } | undefined {
+    let best: { column: SpecificationColumn; matched: string[]; coverage: number } | undefined;
+
+    for (const column of table.columns) {
+      const labelTerms = this.terms(column.label);
+      const matched = labelTerms.filter(term => terms.includes(term));
+      if (matched.length === 0) continue;
+
+      const coverage = matched.length / labelTerms.length;
+      if (!best || matched.length > best.matched.length || (matched.length === best.matched.length && coverage > best.coverage)) {
+        best = { column, matched, coverage };
+      }
+    }
+
+    return best && { column: best.column, matched: best.matched };
+  }
+
+  private findColumn(table: SpecificationTable, name: string): { column: SpecificationColumn; matched: string[] } | undefined {
+    const needle = name.trim().toLowerCase();
+    const nameTerms = this.terms(name);
+    const column = table.columns.find(c => c.key.toLowerCase() === needle || c.label.toLowerCase() === needle) ||
+      table.columns.find(c => nameTerms.length > 0 && nameTerms.every(term => this.terms(c.label).includes(term)));
+    return column && { column, matched: nameTerms };
+  }
+
+  /**
+   * A column labelled Platform, or a first column that names platforms
+   */
+  private platformColumn(table: SpecificationTable): SpecificationColumn | undefined {
+    const labelled = table.columns.find(column => /^platforms?$/.test(column.key));
+    if (labelled) return labelled;
+
+    const first = table.columns[0];
+    return first && table.rows.some(row => this.terms(row[first.key]).some(term => term in this.platformTerms)) ? first : undefined;
+  }
+
+  private toColumns(labels: string[]): SpecificationColumn[] {
+    const usedKeys = new Set<string>();
+
+    return labels.map((label, i) => {
+      const words = label.match(/[A-Za-z0-9]+/g) || [];
+      const camelCased = words
+        .map((word, j) => j === 0 ? word.toLowerCase() : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+        .join('');
+      return { key: this.uniqueId(camelCased || `column${i + 1}`, usedKeys), label };
+    });
+  }
+
+  /**
+   * Cells of a markdown table row, with inline markdown removed
+   */
+  private splitRow(line: string): string[] {
+    return line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '')
+      .split(/(?<!\\)\|/)
+      .map(cell => cell
+        .replace(/\\\|/g, '|')
+        .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/(\*\*|\*|`)(.+?)\1/g, '$2')
+        .trim());
+  }
+
+  private terms(text: string): string[] {
+    return this.tokenizer.tokenize(text || '').map(token => token.term);
+  }
+
+  private uniqueId(id: string, usedIds: Set<string>): string {
+    let candidate = id;
+    for (let n = 2; usedIds.has(candidate); n++) {
+      candidate = `${id}-${n}`;
+    }
+    usedIds.add(candidate);
+    return candidate;
+  }
+}
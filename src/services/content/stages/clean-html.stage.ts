@@ -0,0 +1,42 @@
+/**
+ * Clean HTML Stage
+ *
+ * Drops the parts of a fetched page that are never content: the document head,
+ * scripts, styles and the site's navigation, header and footer.
+ */
+
+import type { ContentProcessingContext, IContentProcessingStage } from '../../../interfaces/content-interfaces.js';
+
+export class CleanHtmlStage implements IContentProcessingStage {
+  readonly name = 'clean';
+
+  run(context: ContentProcessingContext): ContentProcessingContext {
+    if (context.markdown) {
+      return context; // Already rendered, e.g. from DocC JSON
+    }
+    return { ...context, cleanedHtml: this.cleanHtml(context.html) };
+  }
+
+  private cleanHtml(html: string): string {
+    let cleaned = html;
+
+    // Remove the document head (its <title> isn't page content), script and style tags
+    cleaned = cleaned.replace(/<head\b[^>]*>[\s\S]*?<\/head>/gi, ' ');
+    cleaned = cleaned.replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, ' ');
+    cleaned = cleaned.replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, ' ');
+
+    // Remove navigation elements with spacing to prevent word concatenation
+    cleaned = cleaned.replace(/<nav\b[^>]*>[\s\S]*?<\/nav>/gi, ' ');
+    cleaned = cleaned.replace(/<footer\b[^>]*>[\s\S]*?<\/footer>/gi, ' ');
+    cleaned = cleaned.replace(/<header\b[^>]*>[\s\S]*?<\/header>/gi, ' ');
+
+    // Comments, forms and their controls
+    cleaned = cleaned.replace(/<!--[\s\S]*?-->/g, ' ');
+    cleaned = cleaned.replace(/<form\b[^>]*>[\s\S]*?<\/form>/gi, ' ');
+    cleaned = cleaned.replace(/<(button|select)\b[^>]*>[\s\S]*?<\/\1>/gi, ' ');
+    cleaned = cleaned.replace(/<input\b[^>]*>/gi, ' ');
+
+    // Whitespace is left to Turndown, which collapses it per block and keeps <pre> intact
+    return cleaned;
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Convert Markdown Stage
+ *
+ * Turndown conversion of the cleaned HTML. The page structure is kept as markdown:
+ * headings, nested lists, `> Note` callouts and GitHub tables.
+ */
+
+import TurndownService from 'turndown';
+import type { ContentProcessingContext, IContentProcessingStage } from '../../../interfaces/content-interfaces.js';
+
+export class ConvertMarkdownStage implements IContentProcessingStage {
+  readonly name = 'convert';
+  private turndown: TurndownService;
+
+  constructor() {
+    // Configure Turndown for high-quality conversion
+    this.turndown = new TurndownService({
+      headingStyle: 'atx',           // Use # headers
+      bulletListMarker: '-',         // Use - for lists
+      codeBlockStyle: 'fenced',      // Use ``` code blocks
+      fence: '```',                  // Code fence marker
+      emDelimiter: '*',              // Use * for emphasis
+      strongDelimiter: '**',         // Use ** for strong
+      linkStyle: 'inlined',          // Inline links
+      linkReferenceStyle: 'full'     // Full reference links
+    });
+
+    this.configureTurndownRules();
+  }
+
+  run(context: ContentProcessingContext): ContentProcessingContext {
+    if (context.markdown) {
+      return context; // Already rendered, e.g. from DocC JSON
+    }
+    const markdown = this.turndown.turndown(context.cleanedHtml);
+    return { ...context, rawMarkdown: markdown, markdown };
+  }
+
+  private configureTurndownRules(): void {
+    // Remove images for MCP efficiency (as mentioned in original code)
+    this.turndown.addRule('removeImages', {
+      filter: 'img',
+      replacement: () => ''
+    });
+
+    // Clean navigation and footer elements with proper spacing
+    this.turndown.addRule('removeNavigation', {
+      filter: ['nav', 'footer', 'header'],
+      replacement: () => '\n\n' // Add spacing to prevent word concatenation
+    });
+
+    // Remove elements by class name with spacing
+    this.turndown.addRule('removeByClass', {
+      filter: (node) => {
+        if (node.nodeType === 1) { // Element node
+          const className = (node as Element).className;
+          return typeof className === 'string' && 
+                 (className.includes('navigation') || className.includes('breadcrumb') ||
+                  /(^|\s)(toc|sidebar|menu|skip-link)(\s|$)/.test(className));
+        }
+        return false;
+      },
+      replacement: () => '\n' // Add line break to prevent concatenation
+    });
+
+    // Links to other HIG pages are root-relative on Apple's site
+    this.turndown.addRule('absoluteLinks', {
+      filter: (node) => node.nodeName === 'A' && /^\/(?!\/)/.test((node as Element).getAttribute('href') || ''),
+      replacement: (content, node) => {
+        const text = content.trim();
+        return text ? `[${text}](https://developer.apple.com${(node as Element).getAttribute('href')})` : '';
+      }
+    });
+
+    // Preserve code blocks
+    this.turndown.addRule('preserveCode', {
+      filter: (node) => node.nodeName === 'CODE' && node.parentNode?.nodeName !== 'PRE',
+      replacement: (content) => `\`${content}\``
+    });
+
+    // Ensure headers have proper spacing
+    this.turndown.addRule('headerSpacing', {
+      filter: ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'],
+      replacement: (content, node) => {
+        const level = parseInt(node.nodeName.charAt(1));
+        const headerPrefix = '#'.repeat(level);
+        const trimmedContent = content.replace(/\s+/g, ' ').trim();
+        
+        if (!trimmedContent) return '';
+        
+        // Add spacing around headers
+        return `\n\n${headerPrefix} ${trimmedContent}\n\n`;
+      }
+    });
+
+    // "- item" with continuation lines indented under the text, so nested lists stay nested
+    this.turndown.addRule('listItem', {
+      filter: 'li',
+      replacement: (content, node) => {
+        const parent = node.parentNode as HTMLElement;
+        const marker = parent.nodeName === 'OL'
+          ? `${Number(parent.getAttribute('start') || 1) + Array.prototype.indexOf.call(parent.children, node)}. `
+          : '- ';
+        const body = content.replace(/^\n+/, '').replace(/\n+$/, '').replace(/\n/g, `\n${' '.repeat(marker.length)}`);
+        return `${marker}${body}${node.nextSibling ? '\n' : ''}`;
+      }
+    });
+
+    // Apple's asides ("Note", "Important", "Tip") become "> Note" callouts
+    this.turndown.addRule('asideLabel', {
+      filter: (node) => this.isAsideLabel(node),
+      replacement: () => ''
+    });
+    this.turndown.addRule('aside', {
+      filter: (node) => this.isAside(node),
+      replacement: (content, node) => {
+        const body = content.trim();
+        if (!body) return '';
+        const quoted = body.split('\n').map(line => line ? `> ${line}` : '>').join('\n');
+        return `\n\n> ${this.asideLabel(node as HTMLElement)}\n>\n${quoted}\n\n`;
+      }
+    });
+
+    // GitHub tables; the first row is the header row, whether or not Apple marked it up with <th>
+    this.turndown.addRule('tableCell', {
+      filter: ['th', 'td'],
+      replacement: (content, node) => {
+        const cell = content.replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim();
+        return `${node.previousSibling ? '' : '|'} ${cell} |`;
+      }
+    });
+    this.turndown.addRule('tableRow', {
+      filter: 'tr',
+      replacement: (content, node) => {
+        const table = this.closestTable(node);
+        const isHeader = table?.getElementsByTagName('tr')[0] === node;
+        const columns = (node as HTMLElement).children.length;
+        return `\n${content}${isHeader ? `\n|${' --- |'.repeat(columns)}` : ''}`;
+      }
+    });
+    this.turndown.addRule('tableSection', {
+      filter: ['thead', 'tbody', 'tfoot'],
+      replacement: (content) => content
+    });
+    this.turndown.addRule('tableCaption', {
+      filter: 'caption',
+      replacement: (content) => `\n\n${content.trim()}\n\n`
+    });
+    this.turndown.addRule('table', {
+      filter: 'table',
+      replacement: (content) => `\n\n${content.replace(/^\n+/, '')}\n\n`
+    });
+  }
+
+  private isAside(node: Node): boolean {
+    if (node.nodeName === 'ASIDE') return true;
+    const className = (node as Element).className;
+    return node.nodeName === 'DIV' && typeof className === 'string' && /(^|\s)aside(\s|$)/.test(className);
+  }
+
+  private isAsideLabel(node: Node): boolean {
+    const className = (node as Element).className;
+    return typeof className === 'string' && /(^|\s)(label|aside-title)(\s|$)/.test(className) &&
+      node.parentNode !== null && this.isAside(node.parentNode);
+  }
+
+  /**
+   * "Note" unless the aside carries its own label, e.g. <p class="label">Important</p> or class="aside tip"
+   */
+  private asideLabel(aside: HTMLElement): string {
+    const label = Array.from(aside.children).find(child => this.isAsideLabel(child));
+    if (label?.textContent?.trim()) return label.textContent.trim();
+
+    const kind = aside.className.split(/\s+/).find(name => ['note', 'important', 'tip', 'warning', 'experiment'].includes(name));
+    return kind ? kind.charAt(0).toUpperCase() + kind.slice(1) : 'Note';
+  }
+
+  private closestTable(node: Node): HTMLElement | null {
+    let current = node.parentNode;
+    while (current && current.nodeName !== 'TABLE') current = current.parentNode;
+    return current as HTMLElement | null;
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Extract Structure Stage
+ *
+ * Reads the normalized markdown for what the rest of the system indexes: overview,
+ * guidelines and examples, component measurements, specification tables, keywords
+ * and "See also" references.
+ */
+
+import type { ContentProcessingContext, IContentProcessingStage } from '../../../interfaces/content-interfaces.js';
+import type { HIGSection, StructuredHIGContent } from '../../../types.js';
+import { ComponentSpecExtractorService } from '../component-spec-extractor.service.js';
+import { SpecificationTableService } from '../specification-table.service.js';
+
+export const APPLE_DESIGN_TERMS = [
+  'accessibility', 'animation', 'branding', 'buttons', 'color', 'controls',
+  'design', 'feedback', 'gestures', 'haptics', 'icons', 'images', 'input',
+  'interface', 'layout', 'materials', 'motion', 'navigation', 'presentation',
+  'selection', 'status', 'system', 'typography', 'visual', 'widgets',
+  'human interface guidelines', 'user experience', 'user interface',
+  'touch target', 'dynamic type', 'voiceover', 'dark mode', 'light mode'
+];
+
+export class ExtractStructureStage implements IContentProcessingStage {
+  readonly name = 'extract';
+  private specExtractor = new ComponentSpecExtractorService();
+  private tableExtractor = new SpecificationTableService();
+  private readonly commonWords = new Set([
+    'the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by',
+    'a', 'an', 'is', 'are', 'was', 'were', 'be', 'been', 'have', 'has', 'had',
+    'do', 'does', 'did', 'will', 'would', 'should', 'could', 'can', 'may',
+    'might', 'must', 'shall'
+  ]);
+
+  run(context: ContentProcessingContext): ContentProcessingContext {
+    const { markdown, section } = context;
+
+    return {
+      ...context,
+      structuredContent: this.extractStructuredContent(markdown),
+      // Tables again as typed rows, for the JSON sidecar next to the markdown
+      specificationTables: this.tableExtractor.extract(section, markdown),
+      keywords: this.extractDesignKeywords(markdown, section),
+      relatedSections: this.extractRelatedSections(markdown)
+    };
+  }
+
+  /**
+   * Distinct words of a text, without common words, plus the section's platform, category and title
+   */
+  extractKeywords(content: string, section: HIGSection): string[] {
+    const text = content.toLowerCase();
+
+    // Extract words of 3+ characters
+    const words = text.match(/\b\w{3,}\b/g) || [];
+
+    // Filter out common words and get unique keywords
+    const keywords = [...new Set(words)]
+      .filter(word => !this.commonWords.has(word))
+      .slice(0, 20); // Top 20 keywords
+
+    // Add section-specific keywords
+    keywords.push(
+      section.platform.toLowerCase(),
+      section.category,
+      section.title.toLowerCase()
+    );
+
+    return [...new Set(keywords)];
+  }
+
+  /**
+   * Keywords written to a page's front matter and indexes: its title, platform and category, and the Apple design terms it uses
+   */
+  private extractDesignKeywords(content: string, section: HIGSection): string[] {
+    const keywords = new Set<string>();
+    
+    // Add section title and platform
+    keywords.add(section.title.toLowerCase());
+    keywords.add(section.platform.toLowerCase());
+    keywords.add(section.category.toLowerCase());
+    
+    // Extract from content
+    const words = content.toLowerCase().match(/\b[a-z]{3,}\b/g) || [];
+    
+    for (const word of words) {
+      if (APPLE_DESIGN_TERMS.includes(word)) {
+        keywords.add(word);
+      }
+    }
+    
+    return Array.from(keywords).slice(0, 20); // Limit to 20 keywords
+  }
+
+  private extractRelatedSections(content: string): string[] {
+    const related = new Set<string>();
+    
+    // Simple pattern matching for "See also" sections
+    const seeAlsoMatch = content.match(/see also[:\s]+(.*?)(?:\n|$)/i);
+    if (seeAlsoMatch) {
+      const links = seeAlsoMatch[1].match(/\[([^\]]+)\]/g) || [];
+      links.forEach(link => {
+        const title = link.slice(1, -1);
+        related.add(title);
+      });
+    }
+    
+    return Array.from(related).slice(0, 5);
+  }
+
+  /**
+   * Extract structured content from cleaned markdown
+   */
+  private extractStructuredContent(markdown: string): StructuredHIGContent {
+    const lines = markdown.split('\n');
+    
+    let overview = '';
+    const guidelines: string[] = [];
+    const examples: string[] = [];
+    const relatedConcepts: string[] = [];
+    
+    let currentSection = 'overview';
+    let currentContent = '';
+    
+    for (const line of lines) {
+      const trimmed = line.trim();
+      
+      // Detect section headers
+      if (trimmed.match(/^#+\s*(overview|summary|what|description)/i)) {
+        currentSection = 'overview';
+        continue;
+      } else if (trimmed.match(/^#+\s*(guidelines?|best practices?|do|don't|recommendations?)/i)) {
+        if (currentContent && currentSection === 'overview') {
+          overview = currentContent.trim();
+        }
+        currentSection = 'guidelines';
+        currentContent = '';
+        continue;
+      } else if (trimmed.match(/^#+\s*(examples?|usage|use cases?|for example)/i)) {
+        currentSection = 'examples';
+        currentContent = '';
+        continue;
+      } else if (trimmed.match(/^#+\s*(related|see also|links)/i)) {
+        currentSection = 'related';
+        currentContent = '';
+        continue;
+      } else if (/^#{2,6}\s/.test(trimmed)) {
+        // Any other subheading ends the list it follows
+        if (currentContent && currentSection === 'overview') {
+          overview = currentContent.trim();
+        }
+        currentSection = 'other';
+        currentContent = '';
+        continue;
+      }
+      
+      // Process content based on current section
+      if (trimmed) {
+        if (currentSection === 'overview' && !trimmed.startsWith('#')) {
+          currentContent += line + '\n';
+        } else if (currentSection === 'guidelines') {
+          if (trimmed.startsWith('-') || trimmed.startsWith('*') || /^\d+\./.test(trimmed)) {
+            guidelines.push(trimmed.replace(/^[-*\d.]+\s*/, ''));
+          } else if (!trimmed.startsWith('#')) {
+            guidelines.push(trimmed);
+          }
+        } else if (currentSection === 'examples') {
+          if (trimmed.startsWith('-') || trimmed.startsWith('*') || /^\d+\./.test(trimmed)) {
+            examples.push(trimmed.replace(/^[-*\d.]+\s*/, ''));
+          } else if (!trimmed.startsWith('#')) {
+            examples.push(trimmed);
+          }
+        }
+      }
+    }
+    
+    // Handle remaining overview content
+    if (currentContent && currentSection === 'overview') {
+      overview = currentContent.trim();
+    }
+    
+    // If no structured overview found, use first paragraph
+    if (!overview) {
+      const firstParagraph = lines.find(line => 
+        line.trim().length > 50 && 
+        !line.trim().startsWith('#') && 
+        !line.trim().startsWith('-') &&
+        !line.trim().startsWith('*')
+      );
+      overview = firstParagraph?.trim() || 'No overview available';
+    }
+    
+    // Extract related concepts from content
+    this.extractRelatedConcepts(markdown, relatedConcepts);
+    
+    return {
+      overview,
+      guidelines: guidelines.length ? guidelines : ['No specific guidelines identified'],
+      examples: examples.length ? examples : ['No examples provided'],
+      relatedConcepts,
+      specifications: this.specExtractor.extract(markdown)
+    };
+  }
+
+  /**
+   * Extract related concepts and cross-references
+   */
+  private extractRelatedConcepts(markdown: string, relatedConcepts: string[]): void {
+    // Look for Apple HIG component mentions
+    const componentPatterns = [
+      /\b(buttons?|navigation bars?|tab bars?|toolbars?|alerts?|action sheets?)\b/gi,
+      /\b(pickers?|text fields?|switches?|sliders?|steppers?)\b/gi,
+      /\b(color|typography|layout|spacing|accessibility)\b/gi
+    ];
+    
+    componentPatterns.forEach(pattern => {
+      const matches = markdown.match(pattern);
+      if (matches) {
+        matches.forEach(match => {
+          const normalized = match.toLowerCase().trim();
+          if (!relatedConcepts.includes(normalized)) {
+            relatedConcepts.push(normalized);
+          }
+        });
+      }
+    });
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Normalize Markdown Stage
+ *
+ * Removes what Apple's single-page app leaves in the converted markdown (JavaScript
+ * warnings, "Skip Navigation", repeated titles, Resources and Change log sections),
+ * tidies spacing and rejoins product names split by earlier extraction. The rows of
+ * the Change log are kept aside, as they date the page's updates.
+ */
+
+import type { ContentProcessingContext, IContentProcessingStage } from '../../../interfaces/content-interfaces.js';
+import type { ChangeLogEntry } from '../../../types.js';
+
+export class NormalizeMarkdownStage implements IContentProcessingStage {
+  readonly name = 'normalize';
+
+  // Product names split apart by earlier text extraction, e.g. "i Pad OS" and "3 D"; platform
+  // headings may be glued to the text around them, as in "Platform considerationsi OS, i Pad OSUse..."
+  private readonly productNameFixes: Array<[RegExp, string]> = [
+    [/i ?Pad ?OS/g, 'iPadOS'],
+    [/i OS/g, 'iOS'],
+    [/mac OS/g, 'macOS'],
+    [/tv OS/g, 'tvOS'],
+    [/watch OS/g, 'watchOS'],
+    [/vision OS/g, 'visionOS'],
+    [/\bi (Phone|Pad|Cloud|Message|Pod)(?![a-z])/g, 'i$1'],
+    [/\bAir (Play|Pods|Drop|Tag)(?![a-z])/g, 'Air$1'],
+    [/\b(Car|Share) Play(?![a-z])/g, '$1Play'],
+    [/\bSwift UI(?![a-z])/g, 'SwiftUI'],
+    [/\b(UI|App|Home|Health|Sprite|Scene|Reality|Web) Kit(?![a-z])/g, '$1Kit'],
+    [/\bVoice Over(?![a-z])/g, 'VoiceOver'],
+    [/\bMac Book(?![a-z])/g, 'MacBook'],
+    [/\b([23]) D\b/g, '$1D']
+  ];
+
+  private readonly changeLogDate = /(?:January|February|March|April|May|June|July|August|September|October|November|December) \d{1,2}, \d{4}/;
+
+  run(context: ContentProcessingContext): ContentProcessingContext {
+    return { ...context, changeLog: this.extractChangeLog(context.markdown), markdown: this.cleanMarkdown(context.markdown) };
+  }
+
+  /**
+   * Dated rows of the Change log section, which cleaning removes with the Resources section
+   */
+  private extractChangeLog(markdown: string): ChangeLogEntry[] {
+    const heading = markdown.search(/^#{1,6}\s+Change log\s*$/im);
+    if (heading !== -1) {
+      const section = markdown.slice(heading).split('\n').slice(1);
+      const end = section.findIndex(line => /^#{1,6}\s/.test(line));
+      return (end === -1 ? section : section.slice(0, end))
+        .filter(line => line.startsWith('|'))
+        .map(line => line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '').split(/(?<!\\)\|/).map(cell => cell.replace(/\\\|/g, '|').trim()))
+        .filter(([date, ...rest]) => new RegExp(`^${this.changeLogDate.source}$`).test(date) && rest.join(' ').trim())
+        .map(([date, ...rest]) => ({ date, description: this.fixProductNames(rest.join(' ').trim()) }));
+    }
+
+    // Pages extracted without headings run the rows together after "Change log Date Changes"
+    const flattened = markdown.match(/\bchange log\s*date\s*changes\b(.*)$/is);
+    if (!flattened) return [];
+    const rows = flattened[1].split(new RegExp(`(?=${this.changeLogDate.source})`));
+    return rows
+      .map(row => row.trim().match(new RegExp(`^(${this.changeLogDate.source})\\s+(.+)$`, 's')))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(([, date, description]) => ({ date, description: this.fixProductNames(description.replace(/\s+/g, ' ').trim()) }));
+  }
+
+  private cleanMarkdown(markdown: string): string {
+    let cleaned = markdown;
+    
+    // Remove JavaScript fallback content at the beginning (more aggressive pattern)
+    cleaned = cleaned.replace(/^.*?this page requires javascript.*?refresh the page to view its content\.?\s*/is, '');
+    
+    // Also remove the standalone JavaScript warning if it appears
+    cleaned = cleaned.replace(/^#\s*this page requires javascript\.?\s*please turn on javascript.*?\s*/is, '');
+    
+    // Remove any remaining JavaScript-related headers and content
+    cleaned = cleaned.replace(/^#\s*this page requires javascript\.?\s*/gim, '');
+    cleaned = cleaned.replace(/please turn on javascript.*?content\.\s*/gim, '');
+    
+    // Remove "Skip Navigation" and navigation elements
+    cleaned = cleaned.replace(/skip navigation\s*/gi, '');
+    
+    // Remove Apple SPA metadata sections
+    cleaned = this.removeAppleSPAMetadata(cleaned);
+    
+    // Clean up repeated section titles (common in Apple's SPA output)
+    cleaned = this.removeRepeatedTitles(cleaned);
+    
+    // Clean up spacing, keeping the indentation of nested list items
+    cleaned = cleaned.replace(/[ \t]+$/gm, ''); // Remove trailing spaces
+    cleaned = cleaned.replace(/(\S)[ \t]{2,}/g, '$1 '); // Collapse runs of spaces inside lines
+    
+    // Clean up malformed links and empty list items
+    cleaned = cleaned.replace(/\[([^\]]*)\]\(\)/g, '$1');
+    cleaned = cleaned.replace(/^[ \t]*-[ \t]*$/gm, '');
+    
+    // Remove empty headers
+    cleaned = cleaned.replace(/^#+\s*$/gm, '');
+    
+    cleaned = this.fixProductNames(cleaned);
+    
+    // Remove trailing metadata sections
+    cleaned = this.removeTrailingMetadata(cleaned);
+    
+    cleaned = cleaned.replace(/\n{3,}/g, '\n\n'); // Limit to double line breaks
+    return cleaned.trim();
+  }
+
+  private removeAppleSPAMetadata(content: string): string {
+    let cleaned = content;
+    
+    // Remove "Platform considerations" sections that are just "No additional considerations"; a
+    // markdown heading may still have platform subsections below the sentence, so it stays
+    cleaned = cleaned.replace(/(?<!#\s)platform considerations\s*no additional considerations for.*?\./gi, '');
+    
+    // Remove "Current page is X" indicators
+    cleaned = cleaned.replace(/current page is \w+\s*/gi, '');
+    
+    // Remove "Supported platforms" lists at the end
+    cleaned = cleaned.replace(/supported platforms.*$/gi, '');
+    
+    return cleaned;
+  }
+
+  private removeRepeatedTitles(content: string): string {
+    // If the page title appears multiple times, keep only the first occurrence; repeated
+    // subheadings such as "### Best practices" belong to different sections and stay
+    const lines = content.split('\n');
+    const titleCounts = new Map<string, number>();
+    
+    return lines.filter(line => {
+      const titleMatch = line.match(/^#\s+(.+)$/);
+      if (titleMatch) {
+        const title = titleMatch[1].toLowerCase().trim();
+        const count = titleCounts.get(title) || 0;
+        titleCounts.set(title, count + 1);
+        
+        return count === 0;
+      }
+      return true;
+    }).join('\n');
+  }
+
+  /**
+   * Rejoin product names that text extraction split apart
+   */
+  private fixProductNames(content: string): string {
+    return this.productNameFixes.reduce((fixed, [pattern, replacement]) => fixed.replace(pattern, replacement), content);
+  }
+
+  private removeTrailingMetadata(content: string): string {
+    // Everything from the Resources or Change log heading on is links and dates, not guidance
+    const trailingHeading = content.search(/^#{1,6}\s+(Resources|Change log)\s*$/im);
+    if (trailingHeading !== -1) {
+      return content.slice(0, trailingHeading).trim();
+    }
+
+    // Pages extracted without headings end in the same sections run together
+    return content.replace(/\b(resources?\s*related\b.*?change log|change log\s*date\s*changes)\b.*$/is, '').trim();
+  }
+}
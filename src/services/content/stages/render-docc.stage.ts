@@ -0,0 +1,28 @@
+/**
+ * Render DocC Stage
+ *
+ * Pages fetched as DocC render-node JSON are rendered to markdown directly, so the
+ * clean and convert stages, which only handle HTML, leave them alone.
+ */
+
+import type { ContentProcessingContext, IContentProcessingStage } from '../../../interfaces/content-interfaces.js';
+import { DocCRendererService } from '../docc-renderer.service.js';
+
+export class RenderDocCStage implements IContentProcessingStage {
+  readonly name = 'render';
+  private renderer: DocCRendererService;
+
+  constructor(renderer?: DocCRendererService) {
+    this.renderer = renderer || new DocCRendererService();
+  }
+
+  run(context: ContentProcessingContext): ContentProcessingContext {
+    const node = this.renderer.parse(context.html);
+    if (!node) {
+      return context;
+    }
+
+    const markdown = this.renderer.render(node);
+    return { ...context, cleanedHtml: '', rawMarkdown: markdown, markdown };
+  }
+}
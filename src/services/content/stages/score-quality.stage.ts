@@ -0,0 +1,142 @@
+/**
+ * Score Quality Stage
+ *
+ * Quality metrics the generator gates pages on. Pages that only render with
+ * JavaScript are flagged as fallback content; the text before normalization is
+ * checked as well, since normalization strips the warnings that give them away.
+ */
+
+import type { ContentProcessingContext, IContentProcessingStage } from '../../../interfaces/content-interfaces.js';
+import type { ContentQualityMetrics } from '../../../types.js';
+import { APPLE_DESIGN_TERMS } from './extract-structure.stage.js';
+
+export class ScoreQualityStage implements IContentProcessingStage {
+  readonly name = 'score';
+
+  private readonly fallbackIndicators = [
+    'this page requires javascript',
+    'please turn on javascript',
+    'javascript is required',
+    'single page application',
+    'content not available',
+    'loading...',
+    'page not found',
+    'skip navigation',
+    'refresh the page to view'
+  ];
+
+  private readonly appleSPAIndicators = [
+    'skip navigation',
+    'current page is',
+    'supported platforms',
+    'change log',
+    'platform considerations',
+    'additional considerations for',
+    'no additional considerations for'
+  ];
+
+  run(context: ContentProcessingContext): ContentProcessingContext {
+    return { ...context, quality: this.calculateQualityMetrics(context.markdown, context.rawMarkdown) };
+  }
+
+  private calculateQualityMetrics(content: string, originalContent?: string): ContentQualityMetrics {
+    const length = content.length;
+    const headingCount = (content.match(/^#+/gm) || []).length;
+    const codeExamplesCount = (content.match(/```/g) || []).length / 2;
+    const imageReferencesCount = (content.match(/!\[.*?\]/g) || []).length;
+    
+    // Enhanced fallback detection (check original content for better detection)
+    const isFallbackContent = this.detectFallbackContent(content, originalContent);
+    
+    // Check for Apple SPA issues (malformed content that isn't complete fallback)
+    const hasAppleSPAIssues = this.appleSPAIndicators.some(indicator => 
+      content.toLowerCase().includes(indicator)
+    );
+    
+    // Calculate structure score
+    const structureScore = Math.min(1.0, (headingCount * 0.1) + (codeExamplesCount * 0.2));
+    
+    // Calculate Apple terms score
+    const appleTermsFound = APPLE_DESIGN_TERMS.filter(term => 
+      content.toLowerCase().includes(term)
+    ).length;
+    const appleTermsScore = Math.min(1.0, appleTermsFound / 10);
+    
+    // Calculate content quality indicators
+    const hasSubstantialContent = length > 400; // Lowered threshold
+    const hasGuidelines = content.toLowerCase().includes('best practices') || 
+                         content.toLowerCase().includes('guideline') ||
+                         content.toLowerCase().includes('consider') ||
+                         content.toLowerCase().includes('avoid') ||
+                         content.toLowerCase().includes('should') ||
+                         content.toLowerCase().includes('when');
+    
+    // Calculate guideline quality score
+    const guidelineScore = hasGuidelines ? 0.4 : 0; // Increased weight for guidelines
+    
+    // Bonus for well-structured content
+    const structureBonus = headingCount >= 2 ? 0.2 : 0;
+    
+    // Overall quality score with enhanced detection
+    let score: number;
+    if (isFallbackContent) {
+      score = 0.1; // Clear fallback content
+    } else if (hasAppleSPAIssues && !hasSubstantialContent) {
+      score = 0.3; // SPA content with issues but some real content
+    } else {
+      // Normal quality calculation for good content
+      const lengthScore = Math.min(1.0, length / 800); // Lowered threshold: 800 chars = perfect length score
+      score = lengthScore * 0.2 + structureScore * 0.15 + appleTermsScore * 0.15 + guidelineScore * 0.35 + structureBonus * 0.15;
+    }
+    
+    return {
+      score: Math.min(1.0, score),
+      length,
+      structureScore,
+      appleTermsScore,
+      codeExamplesCount,
+      imageReferencesCount,
+      headingCount,
+      isFallbackContent,
+      extractionMethod: 'turndown-enhanced',
+      confidence: isFallbackContent ? 0.1 : Math.min(1.0, score + 0.1)
+    };
+  }
+
+  private detectFallbackContent(content: string, originalContent?: string): boolean {
+    const contentLower = content.toLowerCase();
+    const originalLower = originalContent?.toLowerCase() || contentLower;
+    
+    // Check if content has substantial guidelines/practices (indicating real content)
+    const hasSubstantialRealContent = content.length > 500 && 
+      (contentLower.includes('best practices') || 
+       contentLower.includes('guideline') ||
+       contentLower.includes('accessibility') ||
+       contentLower.includes('consider') ||
+       contentLower.includes('ensure') ||
+       contentLower.includes('avoid'));
+    
+    // If we have substantial real content, it's not fallback even if it has JS warnings
+    if (hasSubstantialRealContent) {
+      return false;
+    }
+    
+    // Primary fallback indicators (check both cleaned and original content)
+    const hasFallbackIndicators = this.fallbackIndicators.some(indicator => 
+      contentLower.includes(indicator) || originalLower.includes(indicator)
+    );
+    
+    // Secondary indicators: very short content with SPA artifacts
+    const isTooShort = content.length < 200;
+    const hasOnlySPAIndicators = this.appleSPAIndicators.some(indicator => 
+      contentLower.includes(indicator) || originalLower.includes(indicator)
+    );
+    
+    // If content mentions JavaScript issues but has little real content
+    const hasJavaScriptIssues = (contentLower.includes('javascript') || originalLower.includes('javascript')) && 
+      (contentLower.includes('required') || contentLower.includes('turn on') ||
+       originalLower.includes('required') || originalLower.includes('turn on'));
+    
+    return hasFallbackIndicators || (hasJavaScriptIssues && !hasSubstantialRealContent) || (isTooShort && hasOnlySPAIndicators);
+  }
+}
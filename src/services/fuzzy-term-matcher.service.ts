@@ -0,0 +1,109 @@
+/**
+ * Fuzzy Term Matcher Service
+ *
+ * SymSpell-style spelling lookup over the indexed vocabulary: every term is
+ * stored under its deletion variants, so candidates within an edit distance
+ * are found with a few map lookups instead of a scan of the whole vocabulary.
+ */
+
+export interface FuzzyTermMatch {
+  term: string;
+  distance: number;
+  frequency: number;
+}
+
+export class FuzzyTermMatcherService {
+  private frequencies: Map<string, number>;
+  private deletes = new Map<string, string[]>();
+  private readonly maxDistance = 2;
+  private readonly prefixLength = 7;
+
+  /**
+   * @param frequencies Vocabulary terms with their document frequency
+   */
+  constructor(frequencies: Map<string, number>) {
+    this.frequencies = frequencies;
+
+    for (const term of frequencies.keys()) {
+      if (term.length < 3 || /\d/.test(term)) continue;
+
+      for (const variant of this.generateDeletes(term.slice(0, this.prefixLength))) {
+        const terms = this.deletes.get(variant);
+        if (terms) terms.push(term);
+        else this.deletes.set(variant, [term]);
+      }
+    }
+  }
+
+  has(term: string): boolean {
+    return this.frequencies.has(term);
+  }
+
+  /**
+   * Vocabulary terms within edit distance of `term` (1 for short words, 2 otherwise),
+   * closest first and then most common
+   */
+  lookup(term: string, maxResults: number = 3): FuzzyTermMatch[] {
+    const allowedDistance = term.length <= 4 ? 1 : this.maxDistance;
+    const candidates = new Set<string>();
+
+    for (const variant of this.generateDeletes(term.slice(0, this.prefixLength))) {
+      this.deletes.get(variant)?.forEach(candidate => candidates.add(candidate));
+    }
+
+    const matches: FuzzyTermMatch[] = [];
+    for (const candidate of candidates) {
+      if (candidate === term || Math.abs(candidate.length - term.length) > allowedDistance) continue;
+
+      const distance = this.editDistance(term, candidate);
+      if (distance <= allowedDistance) {
+        matches.push({ term: candidate, distance, frequency: this.frequencies.get(candidate) || 0 });
+      }
+    }
+
+    return matches
+      .sort((a, b) => a.distance - b.distance || b.frequency - a.frequency || a.term.localeCompare(b.term))
+      .slice(0, maxResults);
+  }
+
+  private generateDeletes(word: string): Set<string> {
+    const variants = new Set<string>([word]);
+    let frontier = [word];
+
+    for (let distance = 0; distance < this.maxDistance; distance++) {
+      const next: string[] = [];
+      for (const current of frontier) {
+        for (let i = 0; i < current.length; i++) {
+          const variant = current.slice(0, i) + current.slice(i + 1);
+          if (!variants.has(variant)) {
+            variants.add(variant);
+            next.push(variant);
+          }
+        }
+      }
+      frontier = next;
+    }
+
+    return variants;
+  }
+
+  /**
+   * Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+   */
+  private editDistance(a: string, b: string): number {
+    const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array(b.length).fill(0)]);
+    for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+    for (let i = 1; i <= a.length; i++) {
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+        if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+          rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+        }
+      }
+    }
+
+    return rows[a.length][b.length];
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Platform Guidance Service
+ *
+ * Splits universal HIG pages into the per-platform blocks Apple appends to them
+ * (the "iOS, iPadOS" / "macOS" / "visionOS" paragraphs under Platform considerations).
+ * Blocks are found under markdown headings, or in pages extracted without headings,
+ * by the platform names glued between sentences.
+ */
+
+import type { ApplePlatform } from '../types.js';
+
+export interface PlatformHeading {
+  label: string; // As Apple writes it, e.g. "iOS, iPadOS"
+  platforms: ApplePlatform[];
+  start: number;
+  end: number;
+}
+
+export class PlatformGuidanceService {
+  private readonly platformToken = '(?:i ?Pad ?OS|i ?OS|mac ?OS|tv ?OS|vision ?OS|watch ?OS)';
+
+  private readonly platformRun = `${this.platformToken}(?:,? (?:and )?${this.platformToken})*`;
+
+  // A run of platform names glued between the end of a sentence and the next one,
+  // e.g. "...the differences.i OS, i Pad OSUse the switch toggle style..."
+  private readonly headingPattern = new RegExp(`(?<=[.!?”")\\]])\\s?(${this.platformRun})(?=[A-Z])`, 'g');
+
+  // "### iOS, iPadOS" in structured markdown
+  private readonly markdownHeadingPattern = new RegExp(`^#{2,6}[ \\t]+(${this.platformRun})[ \\t]*$`, 'gm');
+
+  private readonly platformMap: Record<string, ApplePlatform> = {
+    'ios': 'iOS',
+    'ipados': 'iOS',
+    'macos': 'macOS',
+    'tvos': 'tvOS',
+    'visionos': 'visionOS',
+    'watchos': 'watchOS'
+  };
+
+  /**
+   * Extract platform-specific blocks from a page, keyed by platform
+   */
+  extractPlatformBlocks(markdown: string): Map<ApplePlatform, string> {
+    const blocks = new Map<ApplePlatform, string>();
+
+    for (const block of this.splitBlocks(markdown)) {
+      if (!block.text) continue;
+
+      for (const platform of block.platforms) {
+        const existing = blocks.get(platform);
+        blocks.set(platform, existing ? `${existing}\n\n${block.text}` : block.text);
+      }
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Remove the blocks that only apply to other platforms, keeping the shared guidance
+   */
+  stripOtherPlatforms(markdown: string, platform: ApplePlatform): string {
+    const blocks = this.splitBlocks(markdown);
+    if (blocks.length === 0 || platform === 'universal') return markdown;
+
+    const kept = [markdown.slice(0, blocks[0].start)];
+    blocks.forEach((block, i) => {
+      if (block.platforms.includes(platform)) kept.push(block.text);
+      // Sections that follow a block under another heading are shared guidance again
+      const gap = markdown.slice(block.end, i + 1 < blocks.length ? blocks[i + 1].start : markdown.length).trim();
+      if (gap) kept.push(gap);
+    });
+
+    return kept.map(text => text.trim()).filter(Boolean).join(/^#{1,6}\s/m.test(markdown) ? '\n\n' : ' ');
+  }
+
+  /**
+   * Locate the platform headings in a page
+   */
+  findHeadings(markdown: string): PlatformHeading[] {
+    const headings: PlatformHeading[] = [];
+
+    for (const pattern of [this.markdownHeadingPattern, this.headingPattern]) {
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(markdown)) !== null) {
+        headings.push(this.toHeading(match));
+      }
+    }
+
+    return headings.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * The platform heading starting exactly at `index`, such as the one glued to
+   * "Platform considerations" with no sentence end before it
+   */
+  headingAt(markdown: string, index: number): PlatformHeading | null {
+    const pattern = new RegExp(`\\s?(${this.platformRun})(?=[A-Z])`, 'y');
+    pattern.lastIndex = index;
+    const match = pattern.exec(markdown);
+    return match ? this.toHeading(match) : null;
+  }
+
+  private toHeading(match: RegExpExecArray): PlatformHeading {
+    return {
+      label: match[1].replace(/\s+(?=OS\b)/g, '').replace(/\bi Pad/g, 'iPad'),
+      platforms: this.parsePlatforms(match[1]),
+      start: match.index,
+      end: match.index + match[0].length
+    };
+  }
+
+  private splitBlocks(markdown: string): Array<{ platforms: ApplePlatform[]; start: number; end: number; text: string }> {
+    const headings = this.findHeadings(markdown);
+    const sectionHeadings = [...markdown.matchAll(/^#{1,6}\s/gm)].map(match => match.index);
+
+    return headings.map((heading, i) => {
+      // A block ends at the next platform heading, or at the next markdown section of any kind
+      const nextSection = sectionHeadings.find(start => start >= heading.end) ?? markdown.length;
+      const blockEnd = Math.min(i + 1 < headings.length ? headings[i + 1].start : markdown.length, nextSection);
+      return {
+        platforms: heading.platforms,
+        start: heading.start,
+        end: blockEnd,
+        text: markdown.slice(heading.end, blockEnd).trim()
+      };
+    });
+  }
+
+  private parsePlatforms(heading: string): ApplePlatform[] {
+    const tokens = heading.match(new RegExp(this.platformToken, 'g')) || [];
+    const platforms = tokens
+      .map(token => this.platformMap[token.replace(/\s+/g, '').toLowerCase()])
+      .filter((platform): platform is ApplePlatform => Boolean(platform));
+
+    return [...new Set(platforms)];
+  }
+}
@@ -0,0 +1,298 @@
+/**
+ * Query Analyzer Service
+ *
+ * Rule-based query understanding: finds the platforms, components, design
+ * properties, actions and measurements a query mentions and classifies what
+ * the user is after, so search can filter and rank without explicit arguments.
+ * Components come from the HIG section titles, everything else from small
+ * lexicons of the vocabulary people use when asking about design.
+ */
+
+import type { SearchIndexEntry } from './content/search-indexer.service.js';
+import type { QueryAnalysis, EntityMatch, EntityType, SearchIntent, ApplePlatform, HIGCategory } from '../types.js';
+
+interface Phrase {
+  words: string[];
+  type: EntityType;
+  normalizedValue: string;
+  confidence: number;
+  category?: HIGCategory;
+}
+
+interface LocatedEntity {
+  entity: EntityMatch;
+  start: number;
+  end: number;
+}
+
+interface Token {
+  word: string; // Lowercased and singularized
+  start: number;
+  end: number;
+}
+
+export class QueryAnalyzerService {
+  private phrases: Phrase[] = [];
+  private readonly maxPhraseLength: number;
+
+  private readonly platformNames: Record<string, ApplePlatform> = {
+    'ios': 'iOS',
+    'ipados': 'iOS',
+    'iphone': 'iOS',
+    'ipad': 'iOS',
+    'macos': 'macOS',
+    'mac': 'macOS',
+    'macbook': 'macOS',
+    'watchos': 'watchOS',
+    'apple watch': 'watchOS',
+    'tvos': 'tvOS',
+    'apple tv': 'tvOS',
+    'visionos': 'visionOS',
+    'vision pro': 'visionOS',
+    'apple vision pro': 'visionOS'
+  };
+
+  private readonly lexicon: Record<Exclude<EntityType, 'component' | 'platform' | 'measurement'>, string[]> = {
+    property: [
+      'color', 'contrast', 'spacing', 'padding', 'margin', 'size', 'height', 'width', 'font', 'font size',
+      'typography', 'layout', 'alignment', 'corner radius', 'opacity', 'material', 'dark mode', 'icon',
+      'motion', 'animation', 'hit region', 'safe area', 'resolution'
+    ],
+    action: [
+      'tap', 'double tap', 'swipe', 'drag', 'scroll', 'pinch', 'long press', 'press', 'click', 'hover',
+      'gaze', 'look', 'select', 'dismiss', 'navigate', 'type'
+    ],
+    concept: [
+      'accessibility', 'inclusion', 'privacy', 'branding', 'onboarding', 'feedback', 'localization',
+      'voiceover', 'dynamic type', 'reduce motion', 'consistency', 'hierarchy', 'clarity', 'legibility',
+      'immersion', 'personalization'
+    ]
+  };
+
+  // What people call a property, mapped to the guidelines' own wording
+  private readonly propertyAliases: Record<string, string> = {
+    'hit target': 'hit region',
+    'hit area': 'hit region',
+    'touch target': 'hit region',
+    'touch area': 'hit region',
+    'tap target': 'hit region',
+    'tap area': 'hit region'
+  };
+
+  private readonly intentCues: Array<{ intent: SearchIntent; pattern: RegExp }> = [
+    { intent: 'troubleshoot', pattern: /\b(not working|problems?|issues?|fix|broken|wrong|mistakes?|avoid|rejected|confusing|too (?:small|big|large|busy|cluttered)|why (?:is|does|doesn't|isn't)|can'?t|cannot)\b/ },
+    { intent: 'find_specification', pattern: /\b(sizes?|height|width|dimensions?|specs?|specifications?|minimum|maximum|how (?:big|large|tall|wide|small)|font size|resolution|points?|pixels?|spacing|padding|margins?)\b/ },
+    { intent: 'find_example', pattern: /\b(examples?|samples?|patterns?|show me|such as|inspiration)\b/ },
+    { intent: 'find_guideline', pattern: /\b(should|best practices?|guidelines?|rules?|recommend(?:ed|ation)?s?|when to|how (?:do|to|should|can)|do'?s and don'?ts)\b/ }
+  ];
+
+  // "sidebar vs tab bar" compares components; platforms are compared when two are named or the query asks across them
+  private readonly comparisonCue = /\b(?:across|all|each|every|different|other) platforms?\b|\bplatform differences?\b/;
+
+  private readonly measurementPattern =
+    /(\d+(?:\.\d+)?)\s*(?:(?:x|×|by)\s*(\d+(?:\.\d+)?)\s*)?(pt|pts|points?|px|pixels?|%|ms|mm|@[123]x)(?![a-z])/gi;
+
+  private readonly connectorPattern = /\b(?:on|for|in|with|across|between|and|or|vs\.?|versus)\s*$/i;
+
+  private readonly stopwords = new Set([
+    'a', 'an', 'the', 'how', 'do', 'does', 'i', 'my', 'to', 'for', 'of', 'in', 'on', 'with', 'and', 'or',
+    'what', 'when', 'should', 'is', 'are', 'can', 'it', 'be', 'app', 'apps', 'me', 'about', 'vs', 'versus', 'too', 'make'
+  ]);
+
+  /**
+   * @param sections Search index entries whose titles name the components (and foundations) search knows about
+   */
+  constructor(sections: Array<Pick<SearchIndexEntry, 'title' | 'platform' | 'category'>> = []) {
+    for (const [name, platform] of Object.entries(this.platformNames)) {
+      this.addPhrase(name, 'platform', platform, name === platform.toLowerCase() ? 1 : 0.9);
+    }
+    for (const [type, names] of Object.entries(this.lexicon) as Array<[EntityType, string[]]>) {
+      names.forEach(name => this.addPhrase(name, type, name, 0.8));
+    }
+    for (const [alias, property] of Object.entries(this.propertyAliases)) {
+      this.addPhrase(alias, 'property', property, 0.8);
+    }
+
+    for (const section of sections) {
+      // Per-platform overviews ("Designing for watchOS") are found through the platform name
+      if (/^designing for /i.test(section.title)) continue;
+      const title = section.title.replace(/^the /i, '');
+      this.addPhrase(title, this.entityTypeFor(section), section.title, 1, section.category as HIGCategory);
+    }
+
+    this.maxPhraseLength = Math.max(...this.phrases.map(phrase => phrase.words.length));
+  }
+
+  /**
+   * Analyze a search query
+   */
+  analyze(query: string): QueryAnalysis {
+    const originalQuery = query.trim();
+    const lowered = originalQuery.toLowerCase();
+
+    const located = [...this.findMeasurements(originalQuery)];
+    located.push(...this.findPhrases(originalQuery, located));
+    const entities = located.sort((a, b) => a.start - b.start).map(({ entity }) => entity);
+
+    const platforms = this.unique(entities.filter(e => e.type === 'platform').map(e => e.normalizedValue as ApplePlatform));
+    const processedQuery = this.removePlatformMentions(originalQuery, entities) || originalQuery;
+    const keywords = this.unique(this.tokenize(processedQuery.toLowerCase().replace(this.measurementPattern, ' '))
+      .map(token => token.word)
+      .filter(word => word.length > 1 && !this.stopwords.has(word) && !/^\d/.test(word)));
+    const concepts = this.unique(entities
+      .filter(e => e.type === 'concept' || e.type === 'property')
+      .map(e => (e.normalizedValue as string).toLowerCase()));
+
+    const sectionCategories = this.unique(entities.map(e => this.phraseFor(e)?.category).filter((c): c is HIGCategory => !!c));
+
+    return {
+      originalQuery,
+      processedQuery,
+      intent: this.classifyIntent(lowered, entities, platforms),
+      entities,
+      keywords,
+      concepts,
+      ...(platforms.length === 1 ? { platform: platforms[0] } : {}),
+      ...(sectionCategories.length === 1 ? { category: sectionCategories[0] } : {})
+    };
+  }
+
+  private classifyIntent(lowered: string, entities: EntityMatch[], platforms: ApplePlatform[]): SearchIntent {
+    if (platforms.length >= 2 || this.comparisonCue.test(lowered)) {
+      return 'compare_platforms';
+    }
+    if (entities.some(e => e.type === 'measurement')) return 'find_specification';
+
+    const cue = this.intentCues.find(({ pattern }) => pattern.test(lowered));
+    if (cue) return cue.intent;
+
+    // A bare component name ("segmented control", "tab bars on iPad")
+    const components = entities.filter(e => e.type === 'component');
+    const otherWords = this.tokenize(lowered).filter(token =>
+      !this.stopwords.has(token.word) && !entities.some(e => e.text.toLowerCase().includes(token.word))
+    );
+    if (components.length > 0 && otherWords.length === 0) return 'find_component';
+
+    return entities.length > 0 ? 'find_guideline' : 'general_search';
+  }
+
+  /**
+   * Longest phrase first, left to right, so "tap to pay on iPhone" wins over "iPhone"
+   */
+  private findPhrases(query: string, taken: LocatedEntity[]): LocatedEntity[] {
+    const tokens = this.tokenize(query.toLowerCase())
+      .filter(token => !taken.some(({ start, end }) => start <= token.start && token.end <= end));
+    const matches: LocatedEntity[] = [];
+
+    for (let i = 0; i < tokens.length;) {
+      let matched = false;
+      for (let length = Math.min(this.maxPhraseLength, tokens.length - i); length > 0 && !matched; length--) {
+        const words = tokens.slice(i, i + length).map(token => token.word);
+        const phrase = this.phrases.find(p => p.words.length === length && p.words.every((word, k) => word === words[k]));
+        if (!phrase) continue;
+
+        const start = tokens[i].start;
+        const end = tokens[i + length - 1].end;
+        matches.push({
+          entity: { text: query.slice(start, end), type: phrase.type, confidence: phrase.confidence, normalizedValue: phrase.normalizedValue },
+          start,
+          end
+        });
+        i += length;
+        matched = true;
+      }
+      if (!matched) i++;
+    }
+
+    return matches;
+  }
+
+  private findMeasurements(query: string): LocatedEntity[] {
+    const measurements: LocatedEntity[] = [];
+
+    this.measurementPattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = this.measurementPattern.exec(query)) !== null) {
+      const unit = match[3].toLowerCase().replace(/^(pt|point)s?$/, 'pt').replace(/^(px|pixel)s?$/, 'px');
+      measurements.push({
+        entity: {
+          text: match[0],
+          type: 'measurement',
+          confidence: 1,
+          normalizedValue: match[2] ? `${match[1]}x${match[2]}${unit}` : `${match[1]}${unit}`
+        },
+        start: match.index,
+        end: match.index + match[0].length
+      });
+    }
+
+    return measurements;
+  }
+
+  /**
+   * Drop "on Apple Watch" / "iOS vs" style mentions; the platform becomes a filter instead
+   */
+  private removePlatformMentions(query: string, entities: EntityMatch[]): string {
+    let processed = query;
+    for (const entity of entities.filter(e => e.type === 'platform')) {
+      const index = processed.indexOf(entity.text);
+      if (index < 0) continue;
+      const before = processed.slice(0, index).replace(this.connectorPattern, '');
+      processed = `${before} ${processed.slice(index + entity.text.length)}`;
+    }
+
+    return processed
+      .replace(/^\s*(?:and|or|vs\.?|versus|between)\b/i, '')
+      .replace(/\b(?:on|for|in|and|between)\s*$/i, '')
+      .replace(/[?!.,]+(\s|$)/g, '$1')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private entityTypeFor(section: Pick<SearchIndexEntry, 'platform' | 'category'>): EntityType {
+    if (section.category === 'technologies') return 'concept';
+    if (section.category === 'layout') return 'property';
+    // Universal foundations are principles; platform-specific ones are mostly controls (Combo Boxes, Complications)
+    if (section.category === 'foundations' && section.platform === 'universal') return 'concept';
+    return 'component';
+  }
+
+  private addPhrase(text: string, type: EntityType, normalizedValue: string, confidence: number, category?: HIGCategory): void {
+    const words = this.tokenize(text.toLowerCase()).map(token => token.word);
+    if (words.length === 0) return;
+
+    const existing = this.phrases.find(p => p.words.join(' ') === words.join(' '));
+    if (existing) {
+      // A section title named like a lexicon word ("Typography") keeps the lexicon's type but its canonical title
+      Object.assign(existing, { normalizedValue, confidence: Math.max(confidence, existing.confidence), category });
+      return;
+    }
+    this.phrases.push({ words, type, normalizedValue, confidence, category });
+  }
+
+  private phraseFor(entity: EntityMatch): Phrase | undefined {
+    return this.phrases.find(p => p.normalizedValue === entity.normalizedValue && p.type === entity.type);
+  }
+
+  private tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    const wordPattern = /[a-z0-9]+(?:['’][a-z]+)?/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = wordPattern.exec(text)) !== null) {
+      tokens.push({ word: this.singularize(match[0]), start: match.index, end: match.index + match[0].length });
+    }
+    return tokens;
+  }
+
+  private singularize(word: string): string {
+    if (word.length <= 3 || /(ss|us|is|os)$/.test(word)) return word;
+    if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+    if (/(x|ch|sh)es$/.test(word)) return word.slice(0, -2);
+    return word.replace(/s$/, '');
+  }
+
+  private unique<T>(values: T[]): T[] {
+    return [...new Set(values)];
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Search Cursor Service
+ *
+ * Opaque pagination cursors for the search tools. A cursor holds the offset of
+ * the next page and a fingerprint of the search that produced it, so it can only
+ * continue that search: replaying it with another query or other filters fails
+ * instead of silently returning an unrelated page.
+ */
+
+import { createHash } from 'crypto';
+
+interface CursorPayload {
+  v: number;
+  s: string; // Fingerprint of the tool, query and filters
+  o: number; // Offset of the next page
+}
+
+export interface CursorPage<T> {
+  items: T[];
+  total: number; // Length of the whole ranked list, across every page
+  nextCursor?: string;
+}
+
+export class SearchCursorService {
+  private readonly version = 1;
+
+  /**
+   * Cut one page out of a ranked list, with a cursor for the next one when there is more
+   *
+   * @param scope Everything that determines the ranking: tool name, query and filters, but not the limit
+   */
+  page<T>(items: T[], scope: Record<string, unknown>, cursor: string | undefined, limit: number): CursorPage<T> {
+    const offset = cursor === undefined ? 0 : this.decode(cursor, scope);
+    const end = offset + limit;
+
+    return {
+      items: items.slice(offset, end),
+      total: items.length,
+      ...(end < items.length ? { nextCursor: this.encode(scope, end) } : {})
+    };
+  }
+
+  encode(scope: Record<string, unknown>, offset: number): string {
+    const payload: CursorPayload = { v: this.version, s: this.fingerprint(scope), o: offset };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+  }
+
+  /**
+   * Offset a cursor points at, after checking it belongs to this search
+   */
+  decode(cursor: string, scope: Record<string, unknown>): number {
+    if (typeof cursor !== 'string' || cursor.length === 0 || cursor.length > 200) {
+      throw new Error('Invalid cursor: expected the nextCursor of a previous page');
+    }
+
+    let payload: Partial<CursorPayload>;
+    try {
+      payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      throw new Error('Invalid cursor: expected the nextCursor of a previous page');
+    }
+
+    if (!payload || payload.v !== this.version || typeof payload.o !== 'number' || !Number.isInteger(payload.o) || payload.o < 0) {
+      throw new Error('Invalid cursor: expected the nextCursor of a previous page');
+    }
+
+    if (payload.s !== this.fingerprint(scope)) {
+      throw new Error('Invalid cursor: it belongs to a search with a different query or filters');
+    }
+
+    return payload.o;
+  }
+
+  /**
+   * Stable hash of the scope; keys are sorted and undefined filters dropped
+   */
+  private fingerprint(scope: Record<string, unknown>): string {
+    const normalized = Object.keys(scope)
+      .filter(key => scope[key] !== undefined)
+      .sort()
+      .map(key => [key, typeof scope[key] === 'string' ? (scope[key] as string).trim().toLowerCase() : scope[key]]);
+    return createHash('sha256').update(JSON.stringify(normalized)).digest('hex').slice(0, 16);
+  }
+}
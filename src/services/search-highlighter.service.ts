@@ -0,0 +1,170 @@
+/**
+ * Search Highlighter Service
+ *
+ * Finds where a result matched the query (its title, headings, keywords and
+ * body) and renders those matches as bold markdown snippets with character
+ * offsets. Words are normalized with the inverted index tokenizer, so the
+ * highlighted words are the ones BM25 scored.
+ */
+
+import { InvertedIndexService } from './content/inverted-index.service.js';
+import type { SearchResult, SearchHighlight, HighlightMatch } from '../types.js';
+
+interface TermSource {
+  term: string;
+  source: HighlightMatch['source'];
+}
+
+export class SearchHighlighterService {
+  private tokenizer: InvertedIndexService;
+  private normalized = new Map<string, string | null>();
+  private readonly snippetLength = 240;
+  private readonly leadingContext = 60;
+  private readonly maxBodySnippets = 2;
+  private readonly maxKeywords = 3;
+
+  // Question words the tokenizer keeps but that say nothing about why a result matched
+  private readonly ignoredTerms = new Set(['how', 'what', 'why', 'where', 'do', 'doe', 'i', 'my', 'me', 'we', 'our']);
+
+  constructor(tokenizer?: InvertedIndexService) {
+    this.tokenizer = tokenizer || new InvertedIndexService();
+  }
+
+  /**
+   * Highlights for one result, title first and body snippets last
+   *
+   * @param expansions Synonym expansions the query was searched with
+   */
+  highlight(
+    result: Pick<SearchResult, 'title' | 'content' | 'headingPath'>,
+    keywords: string[],
+    query: string,
+    expansions: string[] = []
+  ): SearchHighlight[] {
+    const terms = this.collectTerms(query, expansions);
+    if (terms.size === 0) return [];
+
+    const highlights: SearchHighlight[] = [];
+    const addField = (field: SearchHighlight['field'], text: string): boolean => {
+      const matches = this.findMatches(text, terms);
+      if (matches.length === 0) return false;
+      highlights.push({ field, text, snippet: this.bold(text, matches, 0, text.length), matches });
+      return true;
+    };
+
+    addField('title', result.title);
+    (result.headingPath || []).slice(1).forEach(heading => addField('heading', heading));
+
+    let keywordCount = 0;
+    for (const keyword of keywords) {
+      if (keywordCount >= this.maxKeywords) break;
+      if (addField('keyword', keyword)) keywordCount++;
+    }
+
+    highlights.push(...this.highlightBody(result.content, terms));
+    return highlights;
+  }
+
+  /**
+   * Windows of the body holding the most distinct matched terms, in page order
+   */
+  private highlightBody(content: string, terms: Map<string, TermSource>): SearchHighlight[] {
+    const matches = this.findMatches(content, terms);
+    const windows: Array<{ start: number; end: number; matches: HighlightMatch[] }> = [];
+
+    const candidates = matches.map(match => {
+      const start = Math.max(0, match.start - this.leadingContext);
+      const inWindow = matches.filter(m => m.start >= start && m.end <= start + this.snippetLength);
+      return { start, inWindow, distinct: new Set(inWindow.map(m => m.term)).size };
+    }).sort((a, b) => b.distinct - a.distinct || b.inWindow.length - a.inWindow.length || a.start - b.start);
+
+    for (const candidate of candidates) {
+      if (windows.length >= this.maxBodySnippets) break;
+      const end = candidate.start + this.snippetLength;
+      if (windows.some(w => candidate.start < w.end && w.start < end)) continue;
+      windows.push({ start: candidate.start, end, matches: candidate.inWindow });
+    }
+
+    return windows
+      .sort((a, b) => a.start - b.start)
+      .map(window => {
+        const [start, end] = this.snapToWords(content, window.start, window.end, window.matches[0].start);
+        const snippet = `${start > 0 ? '…' : ''}${this.bold(content, window.matches, start, end)}${end < content.length ? '…' : ''}`;
+        return { field: 'body' as const, snippet: snippet.replace(/\s+/g, ' '), matches: window.matches };
+      });
+  }
+
+  /**
+   * Normalized query terms, then the terms only the synonym expansions bring in
+   */
+  private collectTerms(query: string, expansions: string[]): Map<string, TermSource> {
+    const terms = new Map<string, TermSource>();
+    for (const { term } of this.tokenizer.tokenize(query)) {
+      if (!this.ignoredTerms.has(term)) terms.set(term, { term, source: 'query' });
+    }
+    for (const expansion of expansions) {
+      for (const { term } of this.tokenizer.tokenize(expansion)) {
+        if (!terms.has(term)) terms.set(term, { term: expansion, source: 'synonym' });
+      }
+    }
+    return terms;
+  }
+
+  private findMatches(text: string, terms: Map<string, TermSource>): HighlightMatch[] {
+    const matches: HighlightMatch[] = [];
+    const wordPattern = /[A-Za-z0-9]+/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = wordPattern.exec(text)) !== null) {
+      const normalized = this.normalize(match[0]);
+      const source = normalized ? terms.get(normalized) : undefined;
+      if (source) {
+        matches.push({ start: match.index, end: match.index + match[0].length, term: source.term, source: source.source });
+      }
+    }
+
+    return matches;
+  }
+
+  private normalize(word: string): string | null {
+    let normalized = this.normalized.get(word);
+    if (normalized === undefined) {
+      const tokens = this.tokenizer.tokenize(word);
+      normalized = tokens.length === 1 ? tokens[0].term : null;
+      this.normalized.set(word, normalized);
+    }
+    return normalized;
+  }
+
+  /**
+   * Bold the matches between start and end, joining neighbours like "**tab bars**"
+   */
+  private bold(text: string, matches: HighlightMatch[], start: number, end: number): string {
+    let output = '';
+    let cursor = start;
+
+    const inRange = matches.filter(m => m.start >= start && m.end <= end);
+    for (let i = 0; i < inRange.length; i++) {
+      let last = i;
+      while (last + 1 < inRange.length && /^\s+$/.test(text.slice(inRange[last].end, inRange[last + 1].start))) last++;
+
+      output += `${text.slice(cursor, inRange[i].start)}**${text.slice(inRange[i].start, inRange[last].end)}**`;
+      cursor = inRange[last].end;
+      i = last;
+    }
+
+    return output + text.slice(cursor, end);
+  }
+
+  /**
+   * Move the window start forward to a word start and its end on to the end of a word,
+   * never past the first match
+   */
+  private snapToWords(text: string, start: number, end: number, firstMatch: number): [number, number] {
+    let snappedStart = start;
+    while (snappedStart > 0 && snappedStart < firstMatch && /\S/.test(text[snappedStart - 1])) snappedStart++;
+    let snappedEnd = Math.min(end, text.length);
+    while (snappedEnd < text.length && /[A-Za-z0-9’']/.test(text[snappedEnd])) snappedEnd++;
+    return [snappedStart, snappedEnd];
+  }
+}
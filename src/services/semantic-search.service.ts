@@ -0,0 +1,49 @@
+/**
+ * Semantic Search Service
+ *
+ * Scores sections and passages by cosine similarity between the query's
+ * embedding and the vectors precomputed at generation time, so conceptual
+ * queries can match guidance that shares none of their words.
+ */
+
+import { SemanticVectorizerService } from './content/semantic-vectorizer.service.js';
+import type { SemanticSearchIndex } from './content/semantic-vectorizer.service.js';
+import type { EmbeddingVector } from '../types.js';
+
+export class SemanticSearchService {
+  private index: SemanticSearchIndex;
+  private vectorizer: SemanticVectorizerService;
+
+  constructor(index: SemanticSearchIndex, vectorizer?: SemanticVectorizerService) {
+    this.index = index;
+    this.vectorizer = vectorizer || new SemanticVectorizerService();
+  }
+
+  /**
+   * Embed a query together with its expansions (e.g. synonyms)
+   */
+  embedQuery(query: string, expansions: string[] = []): EmbeddingVector {
+    return this.vectorizer.embed(this.index.model, [query, ...expansions].join(' '));
+  }
+
+  /**
+   * Similarity per section, averaged over its title, overview, guidelines and
+   * full-page vectors so one stray passage can't carry a whole section
+   */
+  scoreSections(queryVector: EmbeddingVector): Map<string, number> {
+    return new Map(this.index.sections.map(({ sectionId, embeddings }) => {
+      const similarities = Object.values(embeddings).map(embedding => this.vectorizer.similarity(queryVector, embedding));
+      return [sectionId, similarities.reduce((sum, similarity) => sum + similarity, 0) / similarities.length];
+    }));
+  }
+
+  /**
+   * Similarity per passage
+   */
+  scorePassages(queryVector: EmbeddingVector): Map<string, number> {
+    return new Map(this.index.passages.map(({ passageId, embedding }) => [
+      passageId,
+      this.vectorizer.similarity(queryVector, embedding)
+    ]));
+  }
+}
@@ -8,20 +8,70 @@
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { FileSystemService } from './content/file-system.service.js';
-import type { SearchIndexEntry } from './content/search-indexer.service.js';
-import type { SearchResult, ApplePlatform, HIGCategory } from '../types.js';
+import { BM25SearchService } from './bm25-search.service.js';
+import { SemanticSearchService } from './semantic-search.service.js';
+import { QueryAnalyzerService } from './query-analyzer.service.js';
+import { SearchHighlighterService } from './search-highlighter.service.js';
+import { SEMANTIC_MODEL_VERSION } from './content/semantic-vectorizer.service.js';
+import type { InvertedIndex } from './content/inverted-index.service.js';
+import type { SemanticSearchIndex } from './content/semantic-vectorizer.service.js';
+import type { SearchIndexEntry, CrossReference } from './content/search-indexer.service.js';
+import type { SearchResult, SemanticSearchResult, SearchConfig, ApplePlatform, HIGCategory, HIGPassage, ComponentSpecEntry, SpecificationTable, HIGUpdate, QueryAnalysis, RelatedSection } from '../types.js';
+
+/**
+ * Keyword, contextual and structure scores keep their natural scale; semantic
+ * similarity adds up to semanticWeight on top once it clears minSemanticThreshold
+ */
+export const DEFAULT_SEARCH_CONFIG: SearchConfig = {
+  semanticWeight: 1,
+  keywordWeight: 1,
+  structureWeight: 1,
+  contextWeight: 1,
+  minSemanticThreshold: 0.2,
+  maxResults: 3,
+  boostFactors: {
+    exactTitle: 1.0,
+    platformMatch: 0,
+    categoryMatch: 0,
+    recentContent: 0
+  }
+};
 
 export class StaticContentSearchService {
   private fileSystem: FileSystemService;
   private searchIndex: SearchIndexEntry[] = [];
   private contentCache = new Map<string, string>();
+  private frontMatterCache = new Map<string, Record<string, unknown>>();
+  private crossReferences: CrossReference[] = [];
+  private crossReferencesLoaded = false;
+  private componentSpecs = new Map<string, ComponentSpecEntry>();
+  private componentSpecsLoaded = false;
+  private specificationTables: SpecificationTable[] = [];
+  private specificationTablesLoaded = false;
+  private updates: HIGUpdate[] = [];
+  private updatesLoaded = false;
   private indexLoaded = false;
+  private bm25Search: BM25SearchService | null = null;
+  private invertedIndexLoaded = false;
+  private passagesBySection = new Map<string, HIGPassage[]>();
+  private passageSearch: BM25SearchService | null = null;
+  private passagesLoaded = false;
+  private semanticSearch: SemanticSearchService | null = null;
+  private semanticIndexLoaded = false;
+  private queryAnalyzer: QueryAnalyzerService | null = null;
+  private highlighter = new SearchHighlighterService();
+  private searchConfig: SearchConfig;
   private synonymMap = new Map<string, string[]>();
   private contentDirectory: string;
 
-  constructor(contentDirectory?: string) {
+  constructor(contentDirectory?: string, searchConfig: Partial<SearchConfig> = {}) {
     this.fileSystem = new FileSystemService();
     this.contentDirectory = this.resolveContentDirectory(contentDirectory);
+    this.searchConfig = {
+      ...DEFAULT_SEARCH_CONFIG,
+      ...searchConfig,
+      boostFactors: { ...DEFAULT_SEARCH_CONFIG.boostFactors, ...searchConfig.boostFactors }
+    };
     this.initializeSynonymMap();
   }
 
@@ -127,6 +177,7 @@ export class StaticContentSearchService {
     this.synonymMap.set('navigation', ['nav', 'navigate', 'menu', 'hierarchy', 'navigation bar']);
     this.synonymMap.set('tab', ['tabs', 'tab bar', 'tabbed', 'bottom navigation']);
     this.synonymMap.set('stack', ['stacks', 'layout', 'zstack', 'vstack', 'hstack', 'lazy stack']);
+    ['hstack', 'vstack', 'zstack', 'lazyvstack', 'lazyhstack'].forEach(stack => this.synonymMap.set(stack, ['stack', 'layout']));
     
     // Data presentation
     this.synonymMap.set('progress', ['progress indicator', 'loading', 'spinner', 'activity indicator']);
@@ -260,13 +311,25 @@ export class StaticContentSearchService {
   }
 
   /**
-   * Search static content with enhanced relevance scoring
+   * Search static content with enhanced relevance scoring, highlighting where each result matched
    */
   async searchContent(
     query: string, 
     platform?: ApplePlatform, 
     category?: HIGCategory, 
-    limit: number = 3
+    limit: number = this.searchConfig.maxResults
+  ): Promise<SearchResult[]> {
+    query = await this.correctSpelling(query);
+    const results = await this.rankSections(query, platform, category, limit);
+    return this.addRelated(this.addHighlights(results, query));
+  }
+
+  private async rankSections(
+    query: string,
+    platform: ApplePlatform | undefined,
+    category: HIGCategory | undefined,
+    limit: number,
+    analysis?: QueryAnalysis
   ): Promise<SearchResult[]> {
     await this.loadSearchIndex();
 
@@ -276,21 +339,32 @@ export class StaticContentSearchService {
 
     const queryLower = query.toLowerCase();
     const queryTerms = queryLower.split(/\s+/).filter(term => term.length > 1);
-    const results: SearchResult[] = [];
+    const results: SemanticSearchResult[] = [];
+    const expansions = this.expandQueryWithSynonyms(queryLower).slice(1);
+    // "minimum hit area" is scored as the guidelines word it, "minimum hit region", and keeps its own words as expansions
+    analysis = analysis || await this.analyzeQuery(query);
+    const scoredQuery = this.inGuidelineWording(query, analysis);
+    if (scoredQuery !== query) expansions.push(queryLower);
+    const bm25Scores = await this.getBM25Scores(scoredQuery, expansions);
+    const semanticScores = await this.getSemanticScores(scoredQuery, expansions);
+    const propertyScores = await this.getPropertyScores(analysis);
 
     // Search through index entries
     for (const entry of this.searchIndex) {
-      let relevanceScore = 0;
-      const highlights: string[] = [];
+      let relevanceScore = 0; // Keyword relevance
+      let contextScore = 0;
+      let structureScore = 0;
+      const matchedConcepts = new Set<string>();
+
+      // Full-text BM25 relevance, which also covers guidance that only appears in the body
+      relevanceScore += (bm25Scores.get(entry.id) || 0) * 0.75;
 
       // Enhanced title matching with multi-term support and concept detection
       const titleLower = entry.title.toLowerCase();
       if (titleLower === queryLower) {
-        relevanceScore += 1.0;
-        highlights.push(entry.title);
+        relevanceScore += this.searchConfig.boostFactors.exactTitle;
       } else if (titleLower.includes(queryLower)) {
         relevanceScore += 0.6;
-        highlights.push(entry.title);
       } else {
         // Check individual query terms in title
         let titleTermMatches = 0;
@@ -301,17 +375,18 @@ export class StaticContentSearchService {
         }
         if (titleTermMatches > 0) {
           relevanceScore += (titleTermMatches / queryTerms.length) * 0.4;
-          highlights.push(entry.title);
         }
         
         // Boost exact concept matches (e.g., "alerts" query should strongly match "Alerts" title)
         const conceptBoost = this.getConceptBoost(queryLower, titleLower);
         if (conceptBoost > 0) {
-          relevanceScore += conceptBoost;
-          highlights.push(entry.title);
+          contextScore += conceptBoost;
         }
       }
 
+      // Sections using the words of a property the query names, such as "hit region"
+      contextScore += (propertyScores.get(entry.id) || 0) * 0.5;
+
       // Enhanced keyword matching with synonym expansion
       const synonymExpansion = this.expandQueryWithSynonyms(queryLower);
       let keywordScore = 0;
@@ -327,7 +402,7 @@ export class StaticContentSearchService {
           } else {
             keywordScore += keywordMatches.length * 0.3;
           }
-          highlights.push(...keywordMatches);
+          keywordMatches.forEach(keyword => matchedConcepts.add(keyword));
         }
       }
       relevanceScore += Math.min(keywordScore, 0.8); // Cap keyword score
@@ -351,26 +426,35 @@ export class StaticContentSearchService {
 
       // Content quality bonuses (prioritize actionable guidance)
       if (entry.hasGuidelines) {
-        relevanceScore += 0.2; // Guidelines are highly valuable
+        structureScore += 0.2; // Guidelines are highly valuable
       }
       
       if (entry.hasSpecifications) {
-        relevanceScore += 0.15; // Specifications provide concrete values
+        structureScore += 0.15; // Specifications provide concrete values
       }
       
       if (entry.hasExamples) {
-        relevanceScore += 0.1; // Examples help implementation
+        structureScore += 0.1; // Examples help implementation
       }
       
       if (entry.hasStructuredContent) {
-        relevanceScore += 0.05; // Well-structured content is easier to use
+        structureScore += 0.05; // Well-structured content is easier to use
       }
 
       // Quality score bonus (0-1 scale, so weight it appropriately)
       if (entry.quality && entry.quality.score) {
-        relevanceScore += entry.quality.score * 0.3; // Up to 0.3 bonus for high quality
+        structureScore += entry.quality.score * 0.3; // Up to 0.3 bonus for high quality
       }
 
+      const keywordRelevance = relevanceScore;
+      const semanticScore = semanticScores.get(entry.id) || 0;
+      relevanceScore = this.combineScores(entry, {
+        keyword: keywordRelevance,
+        context: contextScore,
+        structure: structureScore,
+        semantic: semanticScore
+      }, platform, category);
+
       // Apply filters
       if (platform && platform !== 'universal' && entry.platform !== platform && entry.platform !== 'universal') {
         continue;
@@ -394,7 +478,13 @@ export class StaticContentSearchService {
           relevanceScore,
           content: fullContent,
           type: this.determineType(entry),
-          highlights: highlights.slice(0, 3) // Limit highlights
+          semanticScore,
+          keywordScore: keywordRelevance,
+          structureScore,
+          contextualScore: contextScore,
+          combinedScore: relevanceScore,
+          searchTerms: queryTerms,
+          matchedConcepts: [...matchedConcepts]
         });
       }
     }
@@ -405,6 +495,322 @@ export class StaticContentSearchService {
       .slice(0, limit);
   }
 
+  /**
+   * Search at passage level: sections are ranked as in searchContent, then each
+   * contributes up to two of its passages that best match the query
+   */
+  async searchPassages(
+    query: string,
+    platform?: ApplePlatform,
+    category?: HIGCategory,
+    limit: number = 3,
+    analysis?: QueryAnalysis
+  ): Promise<SearchResult[]> {
+    query = await this.correctSpelling(query);
+    analysis = analysis || await this.analyzeQuery(query);
+    const sections = await this.rankSections(query, platform, category, limit * 2, analysis);
+    await this.loadPassages();
+
+    // Passages are scored in the guidelines' wording too, so "touch target" finds the hit region guidance
+    const expansions = this.expandQueryWithSynonyms(query.toLowerCase()).slice(1);
+    const scoredQuery = this.inGuidelineWording(query, analysis);
+    if (scoredQuery !== query) expansions.push(query.toLowerCase());
+    const keywordScores = new Map<string, number>();
+    if (this.passageSearch) {
+      const matches = this.passageSearch.search(scoredQuery, expansions);
+      const topScore = matches[0]?.score || 0;
+      matches.forEach(match => keywordScores.set(match.id, topScore > 0 ? match.score / topScore : 0));
+    }
+
+    // Keyword and semantic scores are both 0-1 here, so the weights blend them directly
+    const { keywordWeight, semanticWeight } = this.searchConfig;
+    const semanticScores = await this.getPassageSemanticScores(scoredQuery, expansions);
+    const passageScores = new Map<string, number>();
+    for (const id of new Set([...keywordScores.keys(), ...semanticScores.keys()])) {
+      const blended = keywordWeight * (keywordScores.get(id) || 0) + semanticWeight * this.semanticMargin(semanticScores.get(id) || 0);
+      if (blended > 0) passageScores.set(id, blended);
+    }
+    const topPassageScore = Math.max(0, ...passageScores.values());
+    passageScores.forEach((score, id) => passageScores.set(id, score / topPassageScore));
+
+    // Platforms the query names: a comparison keeps the blocks for each of them
+    const namedPlatforms = (analysis?.entities || [])
+      .filter(entity => entity.type === 'platform')
+      .map(entity => entity.normalizedValue as ApplePlatform);
+    const focus = (passage: HIGPassage): number => {
+      if (!analysis) return 0;
+      let boost = 0;
+      if (passage.platforms?.some(p => namedPlatforms.includes(p))) boost += 0.5;
+      if (analysis.intent === 'find_specification' &&
+          (passage.headingPath.includes('Specifications') || /\d\s?(?:pt|px)\b/.test(passage.text))) boost += 0.5;
+      return boost;
+    };
+
+    const results: SearchResult[] = [];
+    for (const section of sections) {
+      // Blocks written for other platforms don't answer a platform-filtered query
+      const passages = (this.passagesBySection.get(section.id) || []).filter(passage =>
+        !passage.platforms || (platform
+          ? platform === 'universal' || passage.platforms.includes(platform)
+          : namedPlatforms.length === 0 || passage.platforms.some(p => namedPlatforms.includes(p)))
+      );
+      if (passages.length === 0) {
+        results.push(section);
+        continue;
+      }
+
+      // A query that just names the page ("tab bar") is answered by its introduction
+      const namesSection = this.singularize(section.title) === this.singularize(query);
+      const ranked = passages
+        .map((passage, i) => ({ passage, score: namesSection && i === 0 ? 1 : (passageScores.get(passage.id) || 0) + focus(passage) }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        // A comparison wants one block per platform, not several windows of the same one
+        .filter(({ passage }, i, all) => analysis?.intent !== 'compare_platforms' || !passage.platforms ||
+          all.findIndex(other => other.passage.platforms?.join() === passage.platforms?.join()) === i)
+        .slice(0, 2);
+      // Sections that matched on title or keywords alone are represented by their introduction
+      const best = ranked.length > 0 ? ranked : [{ passage: passages[0], score: 0 }];
+
+      for (const { passage, score } of best) {
+        results.push({
+          ...section,
+          url: passage.anchor ? `${section.url}#${passage.anchor}` : section.url,
+          relevanceScore: section.relevanceScore * (0.5 + 0.5 * Math.min(score, 1)),
+          content: passage.text,
+          passageId: passage.id,
+          headingPath: passage.headingPath,
+          sectionUrl: section.url
+        });
+      }
+    }
+
+    return this.addRelated(this.addHighlights(results
+      .sort((a, b) => b.relevanceScore - a.relevanceScore)
+      .slice(0, limit), query));
+  }
+
+  /**
+   * The strongest cross-referenced neighbours of each result's section
+   */
+  private async addRelated<T extends SearchResult>(results: T[]): Promise<T[]> {
+    return Promise.all(results.map(async result => {
+      const related = await this.getRelatedSections(result.id, 5);
+      return related.length > 0 ? { ...result, related } : result;
+    }));
+  }
+
+  /**
+   * Highlight the results being returned (only those, since full pages are long)
+   */
+  private addHighlights<T extends SearchResult>(results: T[], query: string): T[] {
+    const expansions = this.expandQueryWithSynonyms(query.toLowerCase()).slice(1);
+    return results.map(result => {
+      const keywords = this.searchIndex.find(entry => entry.id === result.id)?.keywords || [];
+      return { ...result, highlights: this.highlighter.highlight(result, keywords, query, expansions) };
+    });
+  }
+
+  private singularize(text: string): string {
+    return text.toLowerCase().trim().split(/\s+/).map(word => word.replace(/s$/, '')).join(' ');
+  }
+
+  /**
+   * Load the passages and their inverted index generated alongside the search index
+   */
+  private async loadPassages(): Promise<void> {
+    if (this.passagesLoaded) return;
+
+    try {
+      const passagesPath = path.join(this.contentDirectory, 'metadata', 'passages.json');
+      const passageIndexPath = path.join(this.contentDirectory, 'metadata', 'passage-index.json');
+      if (await this.fileSystem.exists(passagesPath) && await this.fileSystem.exists(passageIndexPath)) {
+        const passages: HIGPassage[] = JSON.parse(await this.fileSystem.readFile(passagesPath));
+        for (const passage of passages) {
+          const sectionPassages = this.passagesBySection.get(passage.sectionId);
+          if (sectionPassages) sectionPassages.push(passage);
+          else this.passagesBySection.set(passage.sectionId, [passage]);
+        }
+
+        const index: InvertedIndex = JSON.parse(await this.fileSystem.readFile(passageIndexPath));
+        this.passageSearch = new BM25SearchService(index);
+      }
+    } catch (error) {
+      console.error('❌ Failed to load passages:', error);
+      this.passagesBySection.clear();
+      this.passageSearch = null;
+    }
+
+    this.passagesLoaded = true;
+  }
+
+  /**
+   * Weigh the score components with the search configuration
+   */
+  private combineScores(
+    entry: SearchIndexEntry,
+    scores: { keyword: number; context: number; structure: number; semantic: number },
+    platform?: ApplePlatform,
+    category?: HIGCategory
+  ): number {
+    const { semanticWeight, keywordWeight, structureWeight, contextWeight, boostFactors } = this.searchConfig;
+    let combined = keywordWeight * scores.keyword + contextWeight * scores.context + structureWeight * scores.structure;
+
+    combined += semanticWeight * this.semanticMargin(scores.semantic);
+    if (platform && entry.platform === platform) {
+      combined += boostFactors.platformMatch;
+    }
+    if (category && entry.category === category) {
+      combined += boostFactors.categoryMatch;
+    }
+    const ageInDays = (Date.now() - new Date(entry.lastUpdated).getTime()) / 86_400_000;
+    if (ageInDays >= 0 && ageInDays < 365) {
+      combined += boostFactors.recentContent * (1 - ageInDays / 365);
+    }
+
+    return combined;
+  }
+
+  /**
+   * How far a similarity clears minSemanticThreshold, rescaled to 0-1. Most of the
+   * corpus shares some latent concepts with any query, so only the margin is signal.
+   */
+  private semanticMargin(similarity: number): number {
+    const { minSemanticThreshold } = this.searchConfig;
+    return similarity > minSemanticThreshold ? (similarity - minSemanticThreshold) / (1 - minSemanticThreshold) : 0;
+  }
+
+  /**
+   * Cosine similarity of each section to the query, from the precomputed embeddings
+   */
+  private async getSemanticScores(query: string, expansions: string[]): Promise<Map<string, number>> {
+    await this.loadSemanticIndex();
+    if (!this.semanticSearch) return new Map();
+
+    return this.semanticSearch.scoreSections(this.semanticSearch.embedQuery(query, expansions));
+  }
+
+  private async getPassageSemanticScores(query: string, expansions: string[]): Promise<Map<string, number>> {
+    await this.loadSemanticIndex();
+    if (!this.semanticSearch) return new Map();
+
+    return this.semanticSearch.scorePassages(this.semanticSearch.embedQuery(query, expansions));
+  }
+
+  /**
+   * Load the embeddings generated alongside the search index
+   */
+  private async loadSemanticIndex(): Promise<void> {
+    if (this.semanticIndexLoaded) return;
+
+    try {
+      const semanticIndexPath = path.join(this.contentDirectory, 'metadata', 'semantic-index.json');
+      if (await this.fileSystem.exists(semanticIndexPath)) {
+        const index: SemanticSearchIndex = JSON.parse(await this.fileSystem.readFile(semanticIndexPath));
+        // Vectors from another model version can't be compared with the queries this one embeds
+        this.semanticSearch = index.version === SEMANTIC_MODEL_VERSION ? new SemanticSearchService(index) : null;
+      }
+    } catch (error) {
+      console.error('❌ Failed to load semantic index:', error);
+      this.semanticSearch = null;
+    }
+
+    this.semanticIndexLoaded = true;
+  }
+
+  /**
+   * BM25 scores for a query, normalized so the best match scores 1
+   */
+  private async getBM25Scores(query: string, synonyms: string[]): Promise<Map<string, number>> {
+    await this.loadInvertedIndex();
+    if (!this.bm25Search) return new Map();
+
+    const matches = this.bm25Search.search(query, synonyms);
+    const topScore = matches[0]?.score || 0;
+    if (topScore <= 0) return new Map();
+
+    return new Map(matches.map(match => [match.id, match.score / topScore]));
+  }
+
+  /**
+   * The query with the properties it names in the words the guidelines use for them
+   */
+  private inGuidelineWording(query: string, analysis: QueryAnalysis): string {
+    return analysis.entities
+      .filter(entity => entity.type === 'property' && typeof entity.normalizedValue === 'string' &&
+        entity.text.toLowerCase() !== entity.normalizedValue.toLowerCase())
+      .reduce((rewritten, entity) => rewritten.replace(entity.text, entity.normalizedValue as string), query);
+  }
+
+  /**
+   * BM25 scores of the sections containing every word of a multi-word property the query names,
+   * normalized so the best match scores 1
+   */
+  private async getPropertyScores(analysis: QueryAnalysis): Promise<Map<string, number>> {
+    await this.loadInvertedIndex();
+    const scores = new Map<string, number>();
+    if (!this.bm25Search) return scores;
+
+    const properties = new Set(analysis.entities
+      .filter(entity => entity.type === 'property' && entity.normalizedValue?.includes(' '))
+      .map(entity => entity.normalizedValue as string));
+    for (const property of properties) {
+      const wordCount = property.split(/\s+/).length;
+      const matches = this.bm25Search.search(property).filter(match => match.matchedTerms.length >= wordCount);
+      const topScore = matches[0]?.score || 0;
+      for (const match of topScore > 0 ? matches : []) {
+        scores.set(match.id, Math.max(scores.get(match.id) || 0, match.score / topScore));
+      }
+    }
+    return scores;
+  }
+
+  /**
+   * Work out what a query is asking for, with the section titles as the component vocabulary
+   */
+  async analyzeQuery(query: string): Promise<QueryAnalysis> {
+    await this.loadSearchIndex();
+    if (!this.queryAnalyzer) {
+      this.queryAnalyzer = new QueryAnalyzerService(this.searchIndex);
+    }
+    return this.queryAnalyzer.analyze(query);
+  }
+
+  /**
+   * The query with misspelled words corrected, so "navigaton bar" is searched, titles and all, as "navigation bar"
+   */
+  private async correctSpelling(query: string): Promise<string> {
+    return await this.getSpellingSuggestion(query) ?? query;
+  }
+
+  /**
+   * "Did you mean" correction for a query with misspelled words, or null
+   */
+  async getSpellingSuggestion(query: string): Promise<string | null> {
+    await this.loadInvertedIndex();
+    return this.bm25Search ? this.bm25Search.suggest(query) : null;
+  }
+
+  /**
+   * Load the inverted index generated alongside the search index
+   */
+  private async loadInvertedIndex(): Promise<void> {
+    if (this.invertedIndexLoaded) return;
+
+    try {
+      const invertedIndexPath = path.join(this.contentDirectory, 'metadata', 'inverted-index.json');
+      if (await this.fileSystem.exists(invertedIndexPath)) {
+        const index: InvertedIndex = JSON.parse(await this.fileSystem.readFile(invertedIndexPath));
+        this.bm25Search = new BM25SearchService(index);
+      }
+    } catch (error) {
+      console.error('❌ Failed to load inverted index:', error);
+      this.bm25Search = null;
+    }
+
+    this.invertedIndexLoaded = true;
+  }
+
   /**
    * Get full content for an entry
    */
@@ -528,6 +934,324 @@ export class StaticContentSearchService {
       .slice(0, limit);
   }
 
+  /**
+   * Get all entries of the search index
+   */
+  async getSearchIndex(): Promise<SearchIndexEntry[]> {
+    await this.loadSearchIndex();
+    return this.searchIndex;
+  }
+
+  /**
+   * Get the markdown body (without front matter) for an index entry
+   */
+  async getSectionContent(entry: SearchIndexEntry): Promise<string> {
+    return this.getFullContent(entry);
+  }
+
+  /**
+   * Resolve a section by id, canonical Apple URL or case-insensitive title
+   */
+  async findSection(identifier: string, platform?: ApplePlatform): Promise<SearchIndexEntry | null> {
+    await this.loadSearchIndex();
+
+    const needle = identifier.trim().toLowerCase();
+    if (!needle) return null;
+
+    const byId = this.searchIndex.find(entry => entry.id.toLowerCase() === needle);
+    if (byId) return byId;
+
+    const normalizedUrl = this.normalizeUrl(needle);
+    const candidates = this.searchIndex.filter(entry =>
+      this.normalizeUrl(entry.url.toLowerCase()) === normalizedUrl ||
+      entry.title.toLowerCase() === needle ||
+      entry.filename.replace(/\.md$/, '') === needle
+    );
+
+    if (candidates.length <= 1) {
+      return candidates[0] || null;
+    }
+
+    // Several platforms can share a URL or title (e.g. "Materials"), prefer the requested one
+    return candidates.find(entry => entry.platform === platform) ||
+      candidates.find(entry => entry.platform === 'universal') ||
+      candidates[0];
+  }
+
+  /**
+   * Suggest the section ids closest to an unresolved identifier
+   */
+  async suggestSectionIds(identifier: string, limit: number = 5): Promise<string[]> {
+    await this.loadSearchIndex();
+
+    const needle = this.normalizeUrl(identifier.trim().toLowerCase()).split('/').pop() || '';
+
+    return this.searchIndex
+      .map(entry => {
+        const slug = entry.filename.replace(/\.md$/, '');
+        const distance = Math.min(
+          this.editDistance(needle, entry.id.toLowerCase()),
+          this.editDistance(needle, slug),
+          this.editDistance(needle, entry.title.toLowerCase())
+        );
+        return { id: entry.id, distance };
+      })
+      .sort((a, b) => a.distance - b.distance || a.id.localeCompare(b.id))
+      .slice(0, limit)
+      .map(candidate => candidate.id);
+  }
+
+  /**
+   * Get the parsed front matter of a section's markdown file
+   */
+  async getSectionFrontMatter(entry: SearchIndexEntry): Promise<Record<string, unknown>> {
+    const contentPath = this.getContentPath(entry);
+    if (this.frontMatterCache.has(contentPath)) {
+      return this.frontMatterCache.get(contentPath) || {};
+    }
+
+    try {
+      const raw = await this.fileSystem.readFile(contentPath);
+      const frontMatter = this.parseFrontMatter(raw);
+      this.frontMatterCache.set(contentPath, frontMatter);
+      return frontMatter;
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Get cross-referenced sections in either direction, strongest first
+   */
+  async getCrossReferences(sectionId: string): Promise<Array<{ sectionId: string; relationshipType: CrossReference['relationshipType']; relevanceScore: number }>> {
+    await this.loadCrossReferences();
+
+    const neighbours = new Map<string, { sectionId: string; relationshipType: CrossReference['relationshipType']; relevanceScore: number }>();
+
+    // References describe toSection as seen from fromSection, so a child read backwards is a parent
+    const reversed: Record<CrossReference['relationshipType'], CrossReference['relationshipType']> = {
+      'parent': 'child',
+      'child': 'parent',
+      'see-also': 'see-also',
+      'related': 'related'
+    };
+
+    for (const reference of this.crossReferences) {
+      let otherId: string | undefined;
+      let relationshipType = reference.relationshipType;
+      if (reference.fromSection === sectionId) otherId = reference.toSection;
+      if (reference.toSection === sectionId) {
+        otherId = reference.fromSection;
+        relationshipType = reversed[relationshipType];
+      }
+      if (!otherId || otherId === sectionId) continue;
+
+      const existing = neighbours.get(otherId);
+      if (!existing || existing.relevanceScore < reference.relevanceScore) {
+        neighbours.set(otherId, {
+          sectionId: otherId,
+          relationshipType,
+          relevanceScore: reference.relevanceScore
+        });
+      }
+    }
+
+    return Array.from(neighbours.values())
+      .sort((a, b) => b.relevanceScore - a.relevanceScore || a.sectionId.localeCompare(b.sectionId));
+  }
+
+  /**
+   * Cross-referenced sections with their titles and URLs, strongest first
+   */
+  async getRelatedSections(sectionId: string, limit?: number): Promise<RelatedSection[]> {
+    const [references] = await Promise.all([this.getCrossReferences(sectionId), this.loadSearchIndex()]);
+
+    const related: RelatedSection[] = [];
+    for (const reference of references) {
+      const entry = this.searchIndex.find(e => e.id === reference.sectionId);
+      if (!entry) continue;
+
+      related.push({
+        id: entry.id,
+        title: entry.title,
+        url: entry.url,
+        platform: entry.platform as ApplePlatform,
+        relationshipType: reference.relationshipType,
+        relevanceScore: reference.relevanceScore
+      });
+    }
+
+    return limit === undefined ? related : related.slice(0, limit);
+  }
+
+  /**
+   * Load cross-references generated alongside the search index
+   */
+  private async loadCrossReferences(): Promise<void> {
+    if (this.crossReferencesLoaded) return;
+
+    try {
+      const referencesPath = path.join(this.contentDirectory, 'metadata', 'cross-references.json');
+      if (await this.fileSystem.exists(referencesPath)) {
+        this.crossReferences = JSON.parse(await this.fileSystem.readFile(referencesPath));
+      }
+    } catch (error) {
+      console.error('❌ Failed to load cross-references:', error);
+      this.crossReferences = [];
+    }
+
+    this.crossReferencesLoaded = true;
+  }
+
+  /**
+   * Get the component specification extracted for a section at index time
+   */
+  async getComponentSpec(sectionId: string): Promise<ComponentSpecEntry | null> {
+    await this.loadComponentSpecs();
+    return this.componentSpecs.get(sectionId) || null;
+  }
+
+  /**
+   * Load component specifications generated alongside the search index
+   */
+  private async loadComponentSpecs(): Promise<void> {
+    if (this.componentSpecsLoaded) return;
+
+    try {
+      const specsPath = path.join(this.contentDirectory, 'metadata', 'component-specs.json');
+      if (await this.fileSystem.exists(specsPath)) {
+        const entries: ComponentSpecEntry[] = JSON.parse(await this.fileSystem.readFile(specsPath));
+        this.componentSpecs = new Map(entries.map(entry => [entry.sectionId, entry]));
+      }
+    } catch (error) {
+      console.error('❌ Failed to load component specifications:', error);
+      this.componentSpecs.clear();
+    }
+
+    this.componentSpecsLoaded = true;
+  }
+
+  /**
+   * Get the specification tables of every section, in index order
+   */
+  async getSpecificationTables(): Promise<SpecificationTable[]> {
+    await this.loadSpecificationTables();
+    return this.specificationTables;
+  }
+
+  /**
+   * Load the specification tables extracted at index time
+   */
+  private async loadSpecificationTables(): Promise<void> {
+    if (this.specificationTablesLoaded) return;
+
+    try {
+      const tablesPath = path.join(this.contentDirectory, 'metadata', 'specification-tables.json');
+      if (await this.fileSystem.exists(tablesPath)) {
+        this.specificationTables = JSON.parse(await this.fileSystem.readFile(tablesPath));
+      }
+    } catch (error) {
+      console.error('❌ Failed to load specification tables:', error);
+      this.specificationTables = [];
+    }
+
+    this.specificationTablesLoaded = true;
+  }
+
+  /**
+   * Get dated content updates, newest first
+   */
+  async getUpdates(): Promise<HIGUpdate[]> {
+    await this.loadUpdates();
+    return this.updates;
+  }
+
+  /**
+   * Load updates derived from change banners and snapshot diffs
+   */
+  private async loadUpdates(): Promise<void> {
+    if (this.updatesLoaded) return;
+
+    try {
+      const updatesPath = path.join(this.contentDirectory, 'metadata', 'updates.json');
+      if (await this.fileSystem.exists(updatesPath)) {
+        const updates: HIGUpdate[] = JSON.parse(await this.fileSystem.readFile(updatesPath));
+        this.updates = updates
+          .map(update => ({ ...update, date: new Date(update.date) }))
+          .sort((a, b) => b.date.getTime() - a.date.getTime());
+      }
+    } catch (error) {
+      console.error('❌ Failed to load content updates:', error);
+      this.updates = [];
+    }
+
+    this.updatesLoaded = true;
+  }
+
+  /**
+   * Parse the simple key: value front matter written by the content generator
+   */
+  private parseFrontMatter(raw: string): Record<string, unknown> {
+    const match = raw.match(/^---\n([\s\S]*?)\n---/);
+    if (!match) return {};
+
+    const frontMatter: Record<string, unknown> = {};
+    for (const line of match[1].split('\n')) {
+      const separator = line.indexOf(':');
+      if (separator <= 0) continue;
+
+      const key = line.slice(0, separator).trim();
+      const value = line.slice(separator + 1).trim();
+
+      if (value.startsWith('[')) {
+        try {
+          frontMatter[key] = JSON.parse(value);
+          continue;
+        } catch {
+          // Keep the raw string if the array is malformed
+        }
+      }
+
+      if (value === 'true' || value === 'false') {
+        frontMatter[key] = value === 'true';
+      } else if (value !== '' && !isNaN(Number(value))) {
+        frontMatter[key] = Number(value);
+      } else {
+        frontMatter[key] = value;
+      }
+    }
+
+    return frontMatter;
+  }
+
+  private normalizeUrl(url: string): string {
+    return url
+      .replace(/^https?:\/\//, '')
+      .replace(/[?#].*$/, '')
+      .replace(/\/+$/, '');
+  }
+
+  /**
+   * Levenshtein distance used for "closest match" suggestions
+   */
+  private editDistance(a: string, b: string): number {
+    if (a === b) return 0;
+    if (!a.length) return b.length;
+    if (!b.length) return a.length;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      }
+      previous = current;
+    }
+
+    return previous[b.length];
+  }
+
   /**
    * Check if static content is available
    */
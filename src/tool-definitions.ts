@@ -0,0 +1,785 @@
+/**
+ * MCP tool definitions: input schemas plus output schemas for structuredContent
+ *
+ * Output schemas mirror the tool result types in types.ts but stay loose (few
+ * required fields, extra properties allowed) so result shapes can grow.
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+const RELATED_SECTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    title: { type: 'string' },
+    url: { type: 'string' },
+    platform: { type: 'string' },
+    relationshipType: { type: 'string', enum: ['related', 'parent', 'child', 'see-also'] },
+    relevanceScore: { type: 'number' },
+  },
+  required: ['id', 'title', 'url', 'relationshipType', 'relevanceScore'],
+};
+
+const SEARCH_RESULT_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    title: { type: 'string' },
+    url: { type: 'string' },
+    platform: { type: 'string' },
+    category: { type: 'string' },
+    relevanceScore: { type: 'number' },
+    content: { type: 'string' },
+    type: { type: 'string' },
+    highlights: {
+      type: 'array',
+      description: 'Where the result matched: bold markdown snippets with character offsets',
+      items: {
+        type: 'object',
+        properties: {
+          field: { type: 'string', enum: ['title', 'heading', 'keyword', 'body'] },
+          text: { type: 'string', description: 'The matched title, heading or keyword; body offsets point into content' },
+          snippet: { type: 'string' },
+          matches: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                start: { type: 'number' },
+                end: { type: 'number' },
+                term: { type: 'string' },
+                source: { type: 'string', enum: ['query', 'synonym'] },
+              },
+              required: ['start', 'end', 'term', 'source'],
+            },
+          },
+        },
+        required: ['field', 'snippet', 'matches'],
+      },
+    },
+    passageId: { type: 'string' },
+    headingPath: { type: 'array', items: { type: 'string' }, description: 'Page title, then the headings above the passage' },
+    sectionUrl: { type: 'string', description: 'The full page; url links to the passage heading' },
+    related: {
+      type: 'array',
+      description: 'The strongest cross-referenced sections: parent, child, see-also or related',
+      items: RELATED_SECTION_SCHEMA,
+    },
+  },
+  required: ['id', 'title', 'url', 'platform', 'relevanceScore', 'content'],
+};
+
+const QUERY_ANALYSIS_SCHEMA = {
+  type: 'object',
+  description: 'How the query was understood; an inferred platform is applied as the filter',
+  properties: {
+    originalQuery: { type: 'string' },
+    processedQuery: { type: 'string', description: 'The query searched for, without the platform mentions' },
+    intent: {
+      type: 'string',
+      enum: ['find_component', 'find_guideline', 'compare_platforms', 'find_specification', 'find_example', 'troubleshoot', 'general_search'],
+    },
+    entities: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          text: { type: 'string' },
+          type: { type: 'string', enum: ['component', 'platform', 'property', 'action', 'concept', 'measurement'] },
+          confidence: { type: 'number' },
+          normalizedValue: { type: 'string' },
+        },
+        required: ['text', 'type', 'confidence'],
+      },
+    },
+    keywords: { type: 'array', items: { type: 'string' } },
+    concepts: { type: 'array', items: { type: 'string' } },
+    platform: { type: 'string' },
+    category: { type: 'string' },
+  },
+  required: ['originalQuery', 'processedQuery', 'intent', 'entities', 'keywords', 'concepts'],
+};
+
+const SEARCH_TOTAL_SCHEMA = {
+  type: 'number',
+  description: 'Number of results on this page',
+};
+
+const NEXT_CURSOR_SCHEMA = {
+  type: 'string',
+  description: 'Opaque cursor for the next page; pass it back as cursor with the same query and filters. Absent on the last page',
+};
+
+const FACET_COUNT_SCHEMA = {
+  type: 'object',
+  properties: {
+    value: { type: 'string' },
+    count: { type: 'number' },
+  },
+  required: ['value', 'count'],
+};
+
+const TECHNICAL_SEARCH_RESULT_SCHEMA = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    description: { type: 'string' },
+    path: { type: 'string' },
+    framework: { type: 'string' },
+    symbolKind: { type: 'string' },
+    platforms: {},
+    url: { type: 'string' },
+    relevanceScore: { type: 'number' },
+    type: { type: 'string' },
+  },
+  required: ['title', 'url', 'framework', 'relevanceScore'],
+};
+
+const UNIFIED_SEARCH_RESULT_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    title: { type: 'string' },
+    type: { type: 'string', enum: ['design', 'technical', 'combined'] },
+    url: { type: 'string' },
+    relevanceScore: { type: 'number' },
+    snippet: { type: 'string' },
+    designContent: { type: 'object' },
+    technicalContent: { type: 'object' },
+    combinedGuidance: { type: 'object' },
+  },
+  required: ['id', 'title', 'type', 'url', 'relevanceScore'],
+};
+
+const SECTION_REFERENCE_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    title: { type: 'string' },
+    url: { type: 'string' },
+  },
+  required: ['id', 'title', 'url'],
+};
+
+const COMPARED_SECTION_SCHEMA = {
+  ...SECTION_REFERENCE_SCHEMA,
+  properties: {
+    ...SECTION_REFERENCE_SCHEMA.properties,
+    excerpt: { type: 'string' },
+  },
+};
+
+const ACCESSIBILITY_ITEM_SCHEMA = {
+  type: 'object',
+  properties: {
+    text: { type: 'string' },
+    value: { type: 'string' },
+    sectionId: { type: 'string' },
+    sourceUrl: { type: 'string' },
+  },
+  required: ['text', 'sourceUrl'],
+};
+
+export const TOOL_DEFINITIONS: Tool[] = [
+  {
+    name: 'search_human_interface_guidelines',
+    title: 'Search HIG Guidelines',
+    description: 'Search Apple Human Interface Guidelines by keywords, returning ranked passages (the matching part of each page, with its heading path and a link to the full section). Pass fullContent: true for whole sections instead, or fetch one with get_hig_section',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Search query (keywords, component names, design concepts); platforms it names, e.g. "on Apple Watch", become the platform filter',
+        },
+        platform: {
+          type: 'string',
+          enum: ['iOS', 'macOS', 'watchOS', 'tvOS', 'visionOS', 'universal'],
+          description: 'Optional: Filter by Apple platform (overrides a platform named in the query)',
+        },
+        category: {
+          type: 'string',
+          enum: ['foundations', 'layout', 'navigation', 'presentation', 'selection-and-input', 'status', 'system-capabilities', 'visual-design', 'icons-and-images', 'color-and-materials', 'typography', 'motion', 'technologies'],
+          description: 'Optional: Only sections in this HIG category',
+        },
+        fullContent: {
+          type: 'boolean',
+          description: 'Optional: Return whole pages instead of the most relevant passages (default false)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Optional: Maximum number of results per page (default 3, max 20)',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Optional: nextCursor from the previous page of this same search',
+        },
+      },
+      required: ['query'],
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        results: { type: 'array', items: SEARCH_RESULT_SCHEMA },
+        total: SEARCH_TOTAL_SCHEMA,
+        totalMatches: { type: 'number', description: 'Number of results the search matched across all pages; every match can be paged through' },
+        query: { type: 'string' },
+        filters: { type: 'object' },
+        analysis: QUERY_ANALYSIS_SCHEMA,
+        didYouMean: { type: 'string', description: 'Spelling correction the query was searched as, returned when the query looks misspelled' },
+        nextCursor: NEXT_CURSOR_SCHEMA,
+      },
+      required: ['results', 'total', 'query'],
+    },
+  },
+  {
+    name: 'get_hig_section',
+    title: 'Get HIG Section',
+    description: 'Get one full Human Interface Guidelines section by id (e.g. "universal-buttons"), canonical Apple URL, or title, including metadata and related sections',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        section: {
+          type: 'string',
+          description: 'Section id, canonical developer.apple.com URL, or title',
+        },
+        platform: {
+          type: 'string',
+          enum: ['iOS', 'macOS', 'watchOS', 'tvOS', 'visionOS', 'universal'],
+          description: 'Optional: Preferred platform when a title or URL exists on several platforms',
+        },
+      },
+      required: ['section'],
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        title: { type: 'string' },
+        url: { type: 'string' },
+        platform: { type: 'string' },
+        category: { type: 'string' },
+        content: { type: 'string' },
+        metadata: {
+          type: 'object',
+          properties: {
+            qualityScore: { type: 'number' },
+            keywords: { type: 'array', items: { type: 'string' } },
+            lastUpdated: { type: 'string' },
+            contentLength: { type: 'number' },
+            isFallback: { type: 'boolean' },
+          },
+        },
+        relatedSections: { type: 'array', items: RELATED_SECTION_SCHEMA },
+      },
+      required: ['id', 'title', 'url', 'platform', 'content'],
+    },
+  },
+  {
+    name: 'get_related_sections',
+    title: 'Get Related Sections',
+    description: 'Navigate the HIG through its cross-references: the parent, child, see-also and related sections of a section, optionally several hops out (e.g. Buttons → Pop-up buttons → Pull-down buttons), with relevance scores',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        section: {
+          type: 'string',
+          description: 'Section id, canonical developer.apple.com URL, or title',
+        },
+        depth: {
+          type: 'number',
+          description: 'Optional: How many links to follow out from the section (default 1, max 3)',
+        },
+        relationshipTypes: {
+          type: 'array',
+          items: { type: 'string', enum: ['related', 'parent', 'child', 'see-also'] },
+          description: 'Optional: Only follow these kinds of links, e.g. ["child"] to walk down the hierarchy',
+        },
+        platform: {
+          type: 'string',
+          enum: ['iOS', 'macOS', 'watchOS', 'tvOS', 'visionOS', 'universal'],
+          description: 'Optional: Preferred platform when a title or URL exists on several platforms',
+        },
+        limit: {
+          type: 'number',
+          description: 'Optional: Maximum number of sections to return (default 25, max 100)',
+        },
+      },
+      required: ['section'],
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        section: SECTION_REFERENCE_SCHEMA,
+        depth: { type: 'number' },
+        related: {
+          type: 'array',
+          items: {
+            ...RELATED_SECTION_SCHEMA,
+            properties: {
+              ...RELATED_SECTION_SCHEMA.properties,
+              relevanceScore: { type: 'number', description: 'Product of the link scores along the path' },
+              depth: { type: 'number' },
+              via: { type: 'string', description: 'Id of the section this one was reached from' },
+            },
+            required: [...RELATED_SECTION_SCHEMA.required, 'depth', 'via'],
+          },
+        },
+        total: { type: 'number' },
+      },
+      required: ['section', 'depth', 'related', 'total'],
+    },
+  },
+  {
+    name: 'get_component_spec',
+    title: 'Get Component Specifications',
+    description: 'Get structured measurements for a HIG component or section: dimensions, touch targets, spacing and typography values in pt/px, with per-scale pixel sizes where Apple lists them',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        componentName: {
+          type: 'string',
+          description: 'Component or section name, id, or URL (e.g., "Home Screen quick actions", "buttons", "ios-app-icons")',
+        },
+        platform: {
+          type: 'string',
+          enum: ['iOS', 'macOS', 'watchOS', 'tvOS', 'visionOS', 'universal'],
+          description: 'Optional: Prefer this platform\'s section and only return measurements that apply to it',
+        },
+      },
+      required: ['componentName'],
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        componentName: { type: 'string' },
+        sectionId: { type: 'string' },
+        title: { type: 'string' },
+        url: { type: 'string' },
+        platform: { type: 'string' },
+        specification: {
+          type: ['object', 'null'],
+          properties: {
+            measurements: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  label: { type: 'string' },
+                  value: { type: 'string' },
+                  unit: { type: 'string' },
+                  kind: { type: 'string' },
+                  platform: { type: 'string' },
+                  scales: { type: 'array' },
+                  context: { type: 'string' },
+                },
+                required: ['label', 'value'],
+              },
+            },
+          },
+        },
+        note: { type: 'string' },
+      },
+      required: ['componentName', 'sectionId', 'url', 'specification'],
+    },
+  },
+  {
+    name: 'get_specification_table',
+    title: 'Get Specification Table',
+    description: 'Look up the specification tables of HIG pages (icon sizes, layout sizes, glyph sizes per scale) as typed rows and columns, or the single cell a question names, e.g. "tvOS app icon layout size" → "800x480 px". Needs content generated with table extraction',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'What to look up: page or table, column, and optionally a platform or row (e.g., "tvOS app icon layout size", "quick action glyph size @3x")',
+        },
+        section: {
+          type: 'string',
+          description: 'Optional: Only look in this section\'s tables (id, URL, or title)',
+        },
+        platform: {
+          type: 'string',
+          enum: ['iOS', 'macOS', 'watchOS', 'tvOS', 'visionOS'],
+          description: 'Optional: Only return the rows for this platform',
+        },
+        column: {
+          type: 'string',
+          description: 'Optional: Column to read, by label or key (e.g., "Layout size")',
+        },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        section: SECTION_REFERENCE_SCHEMA,
+        table: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            sectionId: { type: 'string' },
+            title: { type: 'string' },
+            headingPath: { type: 'array', items: { type: 'string' } },
+            columns: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: { key: { type: 'string' }, label: { type: 'string' } },
+                required: ['key', 'label'],
+              },
+            },
+            rows: { type: 'array', items: { type: 'object', additionalProperties: { type: 'string' } } },
+          },
+          required: ['id', 'sectionId', 'title', 'headingPath', 'columns', 'rows'],
+        },
+        platform: { type: 'string' },
+        column: {
+          type: 'object',
+          properties: { key: { type: 'string' }, label: { type: 'string' } },
+          required: ['key', 'label'],
+        },
+        value: { type: 'string', description: 'The cell the query names, when it narrows to one row and column' },
+      },
+      required: ['section', 'table'],
+    },
+  },
+  {
+    name: 'compare_platforms',
+    title: 'Compare Platforms',
+    description: 'Compare how a component or concept differs across Apple platforms: the universal guidance, platform-specific pages (e.g. macOS pop-up buttons) and the per-platform paragraphs inside universal pages, keyed by platform',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        componentName: {
+          type: 'string',
+          description: 'Component or concept to compare (e.g., "buttons", "app icons", "materials")',
+        },
+        platforms: {
+          type: 'array',
+          items: {
+            type: 'string',
+            enum: ['iOS', 'macOS', 'watchOS', 'tvOS', 'visionOS'],
+          },
+          description: 'Optional: Platforms to compare (defaults to all five)',
+        },
+      },
+      required: ['componentName'],
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        componentName: { type: 'string' },
+        platforms: { type: 'array', items: { type: 'string' } },
+        universal: { ...COMPARED_SECTION_SCHEMA, type: ['object', 'null'] },
+        comparison: {
+          type: 'object',
+          additionalProperties: {
+            type: 'object',
+            properties: {
+              platform: { type: 'string' },
+              sections: { type: 'array', items: COMPARED_SECTION_SCHEMA },
+              inlineGuidance: { type: ['string', 'null'] },
+            },
+          },
+        },
+      },
+      required: ['componentName', 'platforms', 'comparison'],
+    },
+  },
+  {
+    name: 'get_latest_updates',
+    title: 'Get Latest HIG Updates',
+    description: 'List recent changes to the Human Interface Guidelines, from Apple\'s dated change banners and Change log tables and from diffs between content snapshots, newest first',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        since: {
+          type: 'string',
+          description: 'Optional: Only return updates on or after this ISO date (e.g., "2025-06-01")',
+        },
+        platform: {
+          type: 'string',
+          enum: ['iOS', 'macOS', 'watchOS', 'tvOS', 'visionOS', 'universal'],
+          description: 'Optional: Filter by platform (universal updates are always included)',
+        },
+        category: {
+          type: 'string',
+          enum: ['foundations', 'layout', 'navigation', 'presentation', 'selection-and-input', 'status', 'system-capabilities', 'visual-design', 'icons-and-images', 'color-and-materials', 'typography', 'motion', 'technologies'],
+          description: 'Optional: Filter by HIG category',
+        },
+        limit: {
+          type: 'number',
+          description: 'Optional: Maximum number of updates to return (default 20, max 100)',
+        },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        updates: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              sectionId: { type: 'string' },
+              title: { type: 'string' },
+              description: { type: 'string' },
+              url: { type: 'string' },
+              date: { type: 'string', description: 'ISO 8601 date' },
+              platform: { type: 'string' },
+              type: { type: 'string', enum: ['new', 'updated', 'deprecated'] },
+              category: { type: 'string' },
+              source: { type: 'string' },
+            },
+            required: ['id', 'title', 'url', 'date', 'type'],
+          },
+        },
+        total: { type: 'number' },
+        filters: { type: 'object' },
+      },
+      required: ['updates', 'total'],
+    },
+  },
+  {
+    name: 'list_hig_sections',
+    title: 'List HIG Sections',
+    description: 'Browse the table of contents of the Human Interface Guidelines, grouped by platform and category, with section ids, quality scores, last-updated dates and counts per platform and category. Use it to discover which sections exist (e.g. "macos-token-fields") before searching or fetching them',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        platform: {
+          type: 'string',
+          enum: ['iOS', 'macOS', 'watchOS', 'tvOS', 'visionOS', 'universal'],
+          description: 'Optional: Only sections written for this platform (cross-platform sections are listed under universal)',
+        },
+        category: {
+          type: 'string',
+          enum: ['foundations', 'layout', 'navigation', 'presentation', 'selection-and-input', 'status', 'system-capabilities', 'visual-design', 'icons-and-images', 'color-and-materials', 'typography', 'motion', 'technologies'],
+          description: 'Optional: Only sections in this HIG category',
+        },
+        offset: {
+          type: 'number',
+          description: 'Optional: Number of sections to skip, e.g. the nextOffset of the previous page (default 0)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Optional: Maximum number of sections to return (default 50, max 200)',
+        },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        platforms: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              platform: { type: 'string' },
+              count: { type: 'number' },
+              categories: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    category: { type: 'string' },
+                    count: { type: 'number' },
+                    sections: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          id: { type: 'string' },
+                          title: { type: 'string' },
+                          url: { type: 'string' },
+                          qualityScore: { type: 'number' },
+                          lastUpdated: { type: 'string' },
+                        },
+                        required: ['id', 'title', 'url'],
+                      },
+                    },
+                  },
+                  required: ['category', 'count', 'sections'],
+                },
+              },
+            },
+            required: ['platform', 'count', 'categories'],
+          },
+        },
+        facets: {
+          type: 'object',
+          description: 'Section counts per platform and per category, each honoring the other filter',
+          properties: {
+            platforms: { type: 'array', items: FACET_COUNT_SCHEMA },
+            categories: { type: 'array', items: FACET_COUNT_SCHEMA },
+          },
+        },
+        total: { type: 'number' },
+        offset: { type: 'number' },
+        limit: { type: 'number' },
+        nextOffset: { type: 'number', description: 'Offset of the next page; absent on the last page' },
+        filters: { type: 'object' },
+      },
+      required: ['platforms', 'facets', 'total', 'offset', 'limit'],
+    },
+  },
+  {
+    name: 'get_accessibility_requirements',
+    title: 'Get Accessibility Requirements',
+    description: 'Get accessibility requirements for a component from the HIG: touch target size, contrast ratio, VoiceOver and keyboard guidance, plus related guidelines, each with its source URL',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        component: {
+          type: 'string',
+          description: 'Component name (e.g., "Button", "Navigation Bar", "Tab Bar")',
+        },
+        platform: {
+          type: 'string',
+          enum: ['iOS', 'macOS', 'watchOS', 'tvOS', 'visionOS', 'universal'],
+          description: 'Target platform',
+        },
+      },
+      required: ['component', 'platform'],
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        component: { type: 'string' },
+        platform: { type: 'string' },
+        section: { ...SECTION_REFERENCE_SCHEMA, type: ['object', 'null'] },
+        requirements: {
+          type: 'object',
+          properties: {
+            minimumTouchTarget: { ...ACCESSIBILITY_ITEM_SCHEMA, type: ['object', 'null'] },
+            contrastRatio: { ...ACCESSIBILITY_ITEM_SCHEMA, type: ['object', 'null'] },
+            voiceOverSupport: { type: 'array', items: ACCESSIBILITY_ITEM_SCHEMA },
+            keyboardNavigation: { type: 'array', items: ACCESSIBILITY_ITEM_SCHEMA },
+            additionalGuidelines: { type: 'array', items: ACCESSIBILITY_ITEM_SCHEMA },
+          },
+        },
+      },
+      required: ['component', 'platform', 'requirements'],
+    },
+  },
+  {
+    name: 'search_technical_documentation',
+    title: 'Search Technical Documentation',
+    description: 'Search Apple technical documentation and API references',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Search query (API names, symbols, frameworks)',
+        },
+        framework: {
+          type: 'string',
+          description: 'Optional: Search within specific framework (e.g., "SwiftUI", "UIKit")',
+        },
+        platform: {
+          type: 'string',
+          description: 'Optional: Filter by platform (iOS, macOS, etc.)',
+        },
+        symbolType: {
+          type: 'string',
+          description: 'Optional: Only symbols of this kind (e.g., "class", "struct", "protocol")',
+        },
+        limit: {
+          type: 'number',
+          description: 'Optional: Maximum number of results per page (default 20, max 50)',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Optional: nextCursor from the previous page of this same search',
+        },
+      },
+      required: ['query'],
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        results: { type: 'array', items: TECHNICAL_SEARCH_RESULT_SCHEMA },
+        total: SEARCH_TOTAL_SCHEMA,
+        totalMatches: { type: 'number', description: 'Number of symbols found across all pages; the Apple API is asked for at most 50, so paging stops there' },
+        query: { type: 'string' },
+        success: { type: 'boolean' },
+        error: { type: 'string' },
+        nextCursor: NEXT_CURSOR_SCHEMA,
+      },
+      required: ['results', 'total', 'query', 'success'],
+    },
+  },
+  {
+    name: 'search_unified',
+    title: 'Unified Search',
+    description: 'Unified search across both HIG design guidelines and technical documentation',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Search query (keywords, component names, design concepts)',
+        },
+        searchType: {
+          type: 'string',
+          enum: ['design', 'technical', 'both'],
+          description: 'Optional: Search only the design guidelines, only the technical documentation, or both (default both)',
+        },
+        platform: {
+          type: 'string',
+          enum: ['iOS', 'macOS', 'watchOS', 'tvOS', 'visionOS', 'universal'],
+          description: 'Optional: Filter by Apple platform',
+        },
+        category: {
+          type: 'string',
+          enum: ['foundations', 'layout', 'navigation', 'presentation', 'selection-and-input', 'status', 'system-capabilities', 'visual-design', 'icons-and-images', 'color-and-materials', 'typography', 'motion', 'technologies'],
+          description: 'Optional: Only design guidelines in this HIG category',
+        },
+        framework: {
+          type: 'string',
+          description: 'Optional: Only technical documentation from this framework (e.g., "SwiftUI", "UIKit")',
+        },
+        symbolType: {
+          type: 'string',
+          description: 'Optional: Only symbols of this kind (e.g., "class", "struct", "protocol")',
+        },
+        limit: {
+          type: 'number',
+          description: 'Optional: Maximum number of results per page (default 20, max 50)',
+        },
+        cursor: {
+          type: 'string',
+          description: 'Optional: nextCursor from the previous page of this same search',
+        },
+      },
+      required: ['query'],
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        results: { type: 'array', items: UNIFIED_SEARCH_RESULT_SCHEMA },
+        designResults: { type: 'array', items: SEARCH_RESULT_SCHEMA },
+        technicalResults: { type: 'array', items: TECHNICAL_SEARCH_RESULT_SCHEMA },
+        total: SEARCH_TOTAL_SCHEMA,
+        totalMatches: { type: 'number', description: 'Number of results across all pages, drawn from the top 20 design pages and up to 50 technical symbols' },
+        query: { type: 'string' },
+        sources: { type: 'array', items: { type: 'string' } },
+        crossReferences: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              designSection: { type: 'string' },
+              technicalSymbol: { type: 'string' },
+              relevance: { type: 'number' },
+            },
+          },
+        },
+        nextCursor: NEXT_CURSOR_SCHEMA,
+      },
+      required: ['results', 'total', 'query'],
+    },
+  },
+];
@@ -0,0 +1,324 @@
+/**
+ * Compact markdown renderings of tool results
+ *
+ * The full result is returned as structuredContent; this text block is what
+ * clients without structured output support (and people) read.
+ */
+
+import type { HIGToolProvider } from './tools.js';
+import type {
+  HIGSectionDetail,
+  ComponentSpecResult,
+  SpecificationTableResult,
+  PlatformComparison,
+  LatestUpdatesResult,
+  AccessibilityRequirements,
+  AccessibilityGuidanceItem,
+  SearchHighlight,
+  HIGTableOfContents,
+  RelatedSectionsResult
+} from './types.js';
+
+type SearchGuidelinesResult = Awaited<ReturnType<HIGToolProvider['searchHumanInterfaceGuidelines']>>;
+type TechnicalDocumentationResult = Awaited<ReturnType<HIGToolProvider['searchTechnicalDocumentation']>>;
+type UnifiedSearchResponse = Awaited<ReturnType<HIGToolProvider['searchUnified']>>;
+
+const EXCERPT_LENGTH = 300;
+
+/**
+ * Render a tool result as markdown, falling back to JSON for unknown tools
+ */
+export function formatToolResult(name: string, result: unknown): string {
+  switch (name) {
+    case 'search_human_interface_guidelines':
+      return formatGuidelineSearch(result as SearchGuidelinesResult);
+    case 'get_hig_section':
+      return formatSection(result as HIGSectionDetail);
+    case 'get_related_sections':
+      return formatRelatedSections(result as RelatedSectionsResult);
+    case 'get_component_spec':
+      return formatComponentSpec(result as ComponentSpecResult);
+    case 'get_specification_table':
+      return formatSpecificationTable(result as SpecificationTableResult);
+    case 'compare_platforms':
+      return formatPlatformComparison(result as PlatformComparison);
+    case 'get_latest_updates':
+      return formatLatestUpdates(result as LatestUpdatesResult);
+    case 'list_hig_sections':
+      return formatTableOfContents(result as HIGTableOfContents);
+    case 'get_accessibility_requirements':
+      return formatAccessibilityRequirements(result as AccessibilityRequirements);
+    case 'search_technical_documentation':
+      return formatTechnicalSearch(result as TechnicalDocumentationResult);
+    case 'search_unified':
+      return formatUnifiedSearch(result as UnifiedSearchResponse);
+    default:
+      return JSON.stringify(result, null, 2);
+  }
+}
+
+/**
+ * Collapse whitespace and cut at a word boundary
+ */
+export function excerpt(text: string, maxLength: number = EXCERPT_LENGTH): string {
+  const collapsed = text.replace(/\s+/g, ' ').trim();
+  if (collapsed.length <= maxLength) return collapsed;
+
+  const cut = collapsed.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s,;:.]+$/, '')}…`;
+}
+
+function formatGuidelineSearch(result: SearchGuidelinesResult): string {
+  const suggestion = result.didYouMean ? `Did you mean "${result.didYouMean}"?` : '';
+  if (result.results.length === 0) {
+    return [`No HIG guidelines found for "${result.query}".`, suggestion].filter(Boolean).join(' ');
+  }
+
+  const lines = [`# HIG results for "${result.query}"`];
+  if (result.analysis && result.analysis.intent !== 'general_search') {
+    const platform = result.filters.platform ? ` on ${result.filters.platform}` : '';
+    lines.push('', `Understood as ${result.analysis.intent.replace(/_/g, ' ')}${platform}`);
+  }
+  if (suggestion) {
+    lines.push('', suggestion);
+  }
+  result.results.forEach((entry, i) => {
+    const heading = entry.headingPath ? entry.headingPath.join(' › ') : entry.title;
+    lines.push('', `## ${i + 1}. ${heading} (${entry.platform})`, entry.url);
+    if (entry.sectionUrl && entry.sectionUrl !== entry.url) {
+      lines.push(`Full section: ${entry.sectionUrl}`);
+    }
+    const matched = formatMatchedFields(entry.highlights || []);
+    if (matched) {
+      lines.push(matched);
+    }
+    // The snippet around the matched words says more than the opening lines
+    const bodySnippet = entry.highlights?.find(highlight => highlight.field === 'body')?.snippet;
+    lines.push('', bodySnippet || excerpt(entry.content));
+    if (entry.related && entry.related.length > 0) {
+      lines.push('', `Related: ${entry.related.slice(0, 3).map(related => `${related.title} (${related.id})`).join(', ')}`);
+    }
+  });
+  return withNextCursor(lines, result.nextCursor);
+}
+
+/**
+ * "Matched: title, body (via "reduce motion")" so people can see why a result ranked
+ */
+function formatMatchedFields(highlights: SearchHighlight[]): string {
+  if (highlights.length === 0) return '';
+
+  const fields = [...new Set(highlights.map(highlight => highlight.field))];
+  const synonyms = [...new Set(highlights.flatMap(highlight => highlight.matches)
+    .filter(match => match.source === 'synonym')
+    .map(match => `"${match.term}"`))];
+  return `Matched: ${fields.join(', ')}${synonyms.length > 0 ? ` (via ${synonyms.join(', ')})` : ''}`;
+}
+
+function formatSection(section: HIGSectionDetail): string {
+  // A section lookup is a request for the page itself, so the body is kept whole
+  const lines = [`# ${section.title} (${section.platform})`, section.url];
+  if (section.metadata.lastUpdated) {
+    lines.push(`Last updated: ${section.metadata.lastUpdated}`);
+  }
+  lines.push('', section.content.trim());
+
+  if (section.relatedSections.length > 0) {
+    lines.push('', '## Related sections');
+    section.relatedSections.forEach(related => lines.push(`- [${related.title}](${related.url}) (${related.id}) · ${related.relationshipType}`));
+  }
+  return lines.join('\n');
+}
+
+function formatRelatedSections(result: RelatedSectionsResult): string {
+  if (result.related.length === 0) {
+    return `No sections are linked from ${result.section.title} (${result.section.id}).`;
+  }
+
+  const titles = new Map(result.related.map(related => [related.id, related.title]));
+  titles.set(result.section.id, result.section.title);
+
+  const lines = [`# Sections related to ${result.section.title}`, result.section.url];
+  for (let depth = 1; depth <= result.depth; depth++) {
+    const atDepth = result.related.filter(related => related.depth === depth);
+    if (atDepth.length === 0) continue;
+
+    lines.push('', result.depth > 1 ? `## ${depth} ${depth === 1 ? 'link' : 'links'} away` : '## Linked sections');
+    atDepth.forEach(related => {
+      const via = depth > 1 ? ` via ${titles.get(related.via) || related.via}` : '';
+      lines.push(`- [${related.title}](${related.url}) (${related.id}) · ${related.relationshipType}${via} · ${related.relevanceScore.toFixed(2)}`);
+    });
+  }
+  if (result.total > result.related.length) {
+    lines.push('', `Showing ${result.related.length} of ${result.total}; raise limit for more.`);
+  }
+  return lines.join('\n');
+}
+
+function formatComponentSpec(result: ComponentSpecResult): string {
+  const lines = [`# ${result.title} specifications (${result.platform})`, result.url];
+  const measurements = result.specification?.measurements || [];
+
+  if (measurements.length === 0) {
+    lines.push('', result.note || 'No measurements listed for this section.');
+    return lines.join('\n');
+  }
+
+  lines.push('');
+  for (const measurement of measurements) {
+    const scales = measurement.scales?.length
+      ? ` (${measurement.scales.map(scale => `${scale.scale}: ${scale.value}`).join(', ')})`
+      : '';
+    const platform = measurement.platform ? ` [${measurement.platform}]` : '';
+    lines.push(`- ${measurement.label}: **${measurement.value}**${scales}${platform}`);
+  }
+  if (result.note) {
+    lines.push('', result.note);
+  }
+  return lines.join('\n');
+}
+
+function formatSpecificationTable(result: SpecificationTableResult): string {
+  const { table } = result;
+  const platform = result.platform ? ` (${result.platform})` : '';
+  const lines = [`# ${table.headingPath.join(' › ')}${platform}`, result.section.url];
+
+  if (result.value !== undefined && result.column) {
+    lines.push('', `${result.column.label}: **${result.value}**`);
+  }
+
+  const cell = (text: string) => text.replace(/\|/g, '\\|');
+  lines.push(
+    '',
+    `| ${table.columns.map(column => cell(column.label)).join(' | ')} |`,
+    `| ${table.columns.map(() => '---').join(' | ')} |`,
+    ...table.rows.map(row => `| ${table.columns.map(column => cell(row[column.key] ?? '')).join(' | ')} |`)
+  );
+  return lines.join('\n');
+}
+
+function formatPlatformComparison(result: PlatformComparison): string {
+  const lines = [`# ${result.componentName} across ${result.platforms.join(', ')}`];
+
+  if (result.universal) {
+    lines.push('', `## All platforms: ${result.universal.title}`, result.universal.url, '', excerpt(result.universal.excerpt));
+  }
+
+  for (const platform of result.platforms) {
+    const guidance = result.comparison[platform];
+    lines.push('', `## ${platform}`);
+    if (!guidance || (!guidance.inlineGuidance && guidance.sections.length === 0)) {
+      lines.push('No platform-specific guidance.');
+      continue;
+    }
+    if (guidance.inlineGuidance) {
+      lines.push(excerpt(guidance.inlineGuidance));
+    }
+    guidance.sections.forEach(section => lines.push(`- [${section.title}](${section.url})`));
+  }
+  return lines.join('\n');
+}
+
+function formatLatestUpdates(result: LatestUpdatesResult): string {
+  if (result.updates.length === 0) {
+    return 'No HIG updates match these filters.';
+  }
+
+  const lines = [`# Latest HIG updates (${result.updates.length} of ${result.total})`, ''];
+  for (const update of result.updates) {
+    const date = new Date(update.date).toISOString().slice(0, 10);
+    lines.push(`- ${date} · [${update.title}](${update.url}) (${update.platform}, ${update.type}): ${excerpt(update.description, 160)}`);
+  }
+  return lines.join('\n');
+}
+
+function formatTableOfContents(result: HIGTableOfContents): string {
+  if (result.total === 0) {
+    return 'No HIG sections match these filters.';
+  }
+
+  const shown = result.platforms.reduce((sum, p) => sum + p.categories.reduce((n, c) => n + c.sections.length, 0), 0);
+  const range = shown > 0 ? `${result.offset + 1}–${result.offset + shown}` : 'none';
+  const lines = [`# HIG sections (${range} of ${result.total})`];
+  for (const { platform, count, categories } of result.platforms) {
+    lines.push('', `## ${platform} (${count})`);
+    for (const group of categories) {
+      lines.push('', `### ${group.category} (${group.count})`);
+      group.sections.forEach(section => {
+        const quality = section.qualityScore !== undefined ? ` · quality ${section.qualityScore.toFixed(2)}` : '';
+        lines.push(`- [${section.title}](${section.url}) \`${section.id}\`${quality}`);
+      });
+    }
+  }
+  if (result.nextOffset !== undefined) {
+    lines.push('', `More sections: call again with offset ${result.nextOffset}.`);
+  }
+  return lines.join('\n');
+}
+
+function formatAccessibilityRequirements(result: AccessibilityRequirements): string {
+  const { requirements } = result;
+  const lines = [`# Accessibility requirements: ${result.component} on ${result.platform}`];
+  if (result.section) {
+    lines.push(result.section.url);
+  }
+
+  const single = (label: string, item: AccessibilityGuidanceItem | null) => {
+    if (item) lines.push(`- ${label}: ${item.value ? `**${item.value}** — ` : ''}${excerpt(item.text, 200)}`);
+  };
+  const list = (heading: string, items: AccessibilityGuidanceItem[]) => {
+    if (items.length === 0) return;
+    lines.push('', `## ${heading}`);
+    items.forEach(item => lines.push(`- ${excerpt(item.text, 200)}`));
+  };
+
+  lines.push('');
+  single('Minimum touch target', requirements.minimumTouchTarget);
+  single('Contrast ratio', requirements.contrastRatio);
+  list('VoiceOver', requirements.voiceOverSupport);
+  list('Keyboard navigation', requirements.keyboardNavigation);
+  list('Additional guidelines', requirements.additionalGuidelines);
+  return lines.join('\n');
+}
+
+function formatTechnicalSearch(result: TechnicalDocumentationResult): string {
+  if (result.results.length === 0) {
+    return result.error || `No technical documentation found for "${result.query}".`;
+  }
+
+  const lines = [`# Technical documentation for "${result.query}"`, ''];
+  for (const entry of result.results) {
+    const kind = entry.symbolKind ? ` · ${entry.symbolKind}` : '';
+    lines.push(`- [${entry.title}](${entry.url}) (${entry.framework}${kind})${entry.description ? `: ${excerpt(entry.description, 160)}` : ''}`);
+  }
+  return withNextCursor(lines, result.nextCursor);
+}
+
+function formatUnifiedSearch(result: UnifiedSearchResponse): string {
+  const lines = [`# Design and implementation guidance for "${result.query}"`];
+
+  if (result.designResults.length > 0) {
+    lines.push('', '## Design guidelines');
+    result.designResults.forEach(entry => lines.push(`- [${entry.title}](${entry.url}) (${entry.platform}): ${excerpt(entry.content, 160)}`));
+  }
+  if (result.technicalResults.length > 0) {
+    lines.push('', '## Technical documentation');
+    result.technicalResults.forEach(entry => lines.push(`- [${entry.title}](${entry.url}) (${entry.framework})`));
+  }
+  if (result.crossReferences.length > 0) {
+    lines.push('', '## Cross-references');
+    result.crossReferences.forEach(ref => lines.push(`- ${ref.designSection} ↔ ${ref.technicalSymbol}`));
+  }
+  if (lines.length === 1) {
+    lines.push('', 'No results found.');
+  }
+  return withNextCursor(lines, result.nextCursor);
+}
+
+function withNextCursor(lines: string[], nextCursor?: string): string {
+  if (nextCursor) {
+    lines.push('', `More results: call again with cursor "${nextCursor}".`);
+  }
+  return lines.join('\n');
+}
@@ -2,26 +2,81 @@
  * MCP Tools implementation for Apple HIG interactive functionality
  */
 
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 import type { HIGCache } from './cache.js';
 import { AppleContentAPIClient } from './services/apple-content-api-client.service.js';
 import { StaticContentSearchService } from './services/static-content-search.service.js';
+import { PlatformGuidanceService } from './services/platform-guidance.service.js';
+import { AccessibilityGuidanceService } from './services/accessibility-guidance.service.js';
+import { SearchCursorService } from './services/search-cursor.service.js';
+import { SpecificationTableService } from './services/content/specification-table.service.js';
+import { TOOL_DEFINITIONS } from './tool-definitions.js';
 import type { 
   SearchGuidelinesArgs, 
+  SearchTechnicalArgs,
+  SearchUnifiedArgs,
   SearchResult,
   ApplePlatform,
+  HIGCategory,
   TechnicalSearchResult,
-  UnifiedSearchResult
+  UnifiedSearchResult,
+  GetHIGSectionArgs,
+  HIGSectionDetail,
+  RelatedSection,
+  GetRelatedSectionsArgs,
+  RelatedSectionNode,
+  RelatedSectionsResult,
+  GetComponentSpecArgs,
+  ComponentSpecResult,
+  GetSpecificationTableArgs,
+  SpecificationTableResult,
+  ComparePlatformsArgs,
+  ComparedSection,
+  PlatformComparison,
+  GetLatestUpdatesArgs,
+  LatestUpdatesResult,
+  GetAccessibilityRequirementsArgs,
+  AccessibilityRequirements,
+  AccessibilityGuidanceItem,
+  QueryAnalysis,
+  ListHIGSectionsArgs,
+  HIGTableOfContents
 } from './types.js';
+import type { SearchIndexEntry } from './services/content/search-indexer.service.js';
+
+// HIG categories in table-of-contents order
+const HIG_CATEGORIES: HIGCategory[] = ['foundations', 'layout', 'navigation', 'presentation', 'selection-and-input', 'status', 'system-capabilities', 'visual-design', 'icons-and-images', 'color-and-materials', 'typography', 'motion', 'technologies'];
 
 export class HIGToolProvider {
   private _cache: HIGCache;
   private appleContentAPIClient: AppleContentAPIClient;
   private staticContentSearch: StaticContentSearchService;
+  private platformGuidance: PlatformGuidanceService;
+  private accessibilityGuidance: AccessibilityGuidanceService;
+  private searchCursors: SearchCursorService;
+  private specificationTables: SpecificationTableService;
+
+  // Each search ranks a fixed pool and pages are cut from it, so following cursors never repeats or skips a result.
+  // Design searches rank every match; Apple's API is asked for at most 50 symbols
+  private readonly designPoolSize = Infinity;
+  private readonly technicalPoolSize = 50;
 
-  constructor(cache: HIGCache, appleContentAPIClient?: AppleContentAPIClient) {
+  constructor(cache: HIGCache, appleContentAPIClient?: AppleContentAPIClient, staticContentSearch?: StaticContentSearchService) {
     this._cache = cache;
     this.appleContentAPIClient = appleContentAPIClient || new AppleContentAPIClient(cache);
-    this.staticContentSearch = new StaticContentSearchService();
+    this.staticContentSearch = staticContentSearch || new StaticContentSearchService();
+    this.platformGuidance = new PlatformGuidanceService();
+    this.accessibilityGuidance = new AccessibilityGuidanceService();
+    this.searchCursors = new SearchCursorService();
+    this.specificationTables = new SpecificationTableService();
+  }
+
+  /**
+   * Tool definitions this content build can serve; get_specification_table is left out when no tables were extracted
+   */
+  async listTools(): Promise<Tool[]> {
+    const tables = await this.staticContentSearch.getSpecificationTables();
+    return tables.length > 0 ? TOOL_DEFINITIONS : TOOL_DEFINITIONS.filter(tool => tool.name !== 'get_specification_table');
   }
 
   /**
@@ -30,19 +85,23 @@ export class HIGToolProvider {
   async searchHumanInterfaceGuidelines(args: SearchGuidelinesArgs): Promise<{
     results: SearchResult[];
     total: number;
+    totalMatches: number;
     query: string;
     filters: {
       platform?: ApplePlatform;
       category?: string;
     };
+    analysis?: QueryAnalysis;
+    didYouMean?: string;
+    nextCursor?: string;
   }> {
     // Input validation
     if (!args || typeof args !== 'object') {
       throw new Error('Invalid arguments: expected object');
     }
     
-    const { query, platform } = args;
-    const limit = 3; // Return top 3 results with full content
+    const { query, platform, category, fullContent, cursor } = args;
+    const limit = args.limit ?? 3; // The top 3 passages, or whole pages with fullContent
     
     // Validate required parameters
     if (typeof query !== 'string') {
@@ -54,9 +113,11 @@ export class HIGToolProvider {
       return {
         results: [],
         total: 0,
+        totalMatches: 0,
         query: query.trim(),
         filters: {
-          platform
+          platform,
+          category
         }
       };
     }
@@ -69,30 +130,62 @@ export class HIGToolProvider {
     if (platform && !['iOS', 'macOS', 'watchOS', 'tvOS', 'visionOS', 'universal'].includes(platform)) {
       args.platform = 'universal';
     }
+
+    if (category && !HIG_CATEGORIES.includes(category)) {
+      throw new Error(`Invalid category: ${category}`);
+    }
+
+    if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > 20) {
+      throw new Error('Invalid limit: must be an integer between 1 and 20');
+    }
+
+    const scope = { tool: 'search_human_interface_guidelines', query, platform: args.platform, category, fullContent: Boolean(fullContent) };
+    if (cursor !== undefined) {
+      this.searchCursors.decode(cursor, scope);
+    }
      
     try {
       let results: SearchResult[] = [];
+      let analysis: QueryAnalysis | undefined;
+      let searchPlatform = args.platform;
       
       // Use static content search as primary source (fast and reliable)
       try {
-        results = await this.staticContentSearch.searchContent(query.trim(), args.platform, undefined, limit);
+        // "tab bars on Apple Watch" filters to watchOS and searches for "tab bars"
+        analysis = await this.staticContentSearch.analyzeQuery(query.trim());
+        searchPlatform = args.platform || analysis.platform;
+
+        results = fullContent
+          ? await this.staticContentSearch.searchContent(analysis.processedQuery, searchPlatform, category, this.designPoolSize)
+          : await this.staticContentSearch.searchPassages(analysis.processedQuery, searchPlatform, category, this.designPoolSize, analysis);
         
         // If static content search returns no results, fall back to minimal results
-        if (results.length === 0) {
-          results = this.getMinimalFallbackResults(query.trim(), platform, limit);
+        // (they aren't categorized, so a category filter that matched nothing stays empty)
+        if (results.length === 0 && !category) {
+          results = this.getMinimalFallbackResults(query.trim(), searchPlatform, this.designPoolSize);
         }
       } catch {
         // Fall back to minimal hardcoded results
-        results = this.getMinimalFallbackResults(query.trim(), platform, limit);
+        results = category ? [] : this.getMinimalFallbackResults(query.trim(), searchPlatform, this.designPoolSize);
       }
 
+      const page = this.searchCursors.page(results, scope, cursor, limit);
+
+      // A misspelled query is searched as its correction, so name the query that was searched
+      const didYouMean = await this.staticContentSearch.getSpellingSuggestion(query.trim());
+
       return {
-        results: results.slice(0, limit),
-        total: results.length,
+        results: page.items,
+        total: page.items.length,
+        totalMatches: page.total,
         query: query.trim(),
         filters: {
-          platform
-        }
+          platform: searchPlatform,
+          category
+        },
+        ...(analysis ? { analysis } : {}),
+        ...(didYouMean ? { didYouMean } : {}),
+        ...(page.nextCursor ? { nextCursor: page.nextCursor } : {})
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -101,6 +194,472 @@ export class HIGToolProvider {
     }
   }
 
+  /**
+   * Get one full HIG section by id, canonical URL or title
+   */
+  async getHIGSection(args: GetHIGSectionArgs): Promise<HIGSectionDetail> {
+    // Input validation
+    if (!args || typeof args !== 'object') {
+      throw new Error('Invalid arguments: expected object');
+    }
+
+    const { section, platform } = args;
+
+    if (typeof section !== 'string' || section.trim().length === 0) {
+      throw new Error('Invalid section: must be a non-empty string (id, URL or title)');
+    }
+
+    if (section.length > 200) {
+      throw new Error('Section identifier too long: maximum 200 characters allowed');
+    }
+
+    const entry = await this.staticContentSearch.findSection(section, platform);
+    if (!entry) {
+      const closest = await this.staticContentSearch.suggestSectionIds(section);
+      throw new Error(`Section not found: "${section.trim()}". Closest matches: ${closest.join(', ')}`);
+    }
+
+    const [content, frontMatter, relatedSections] = await Promise.all([
+      this.staticContentSearch.getSectionContent(entry),
+      this.staticContentSearch.getSectionFrontMatter(entry),
+      this.staticContentSearch.getRelatedSections(entry.id)
+    ]);
+
+    return {
+      id: entry.id,
+      title: entry.title,
+      url: entry.url,
+      platform: entry.platform as ApplePlatform,
+      category: entry.category as HIGCategory,
+      content,
+      metadata: {
+        qualityScore: typeof frontMatter.quality_score === 'number' ? frontMatter.quality_score : entry.quality?.score,
+        keywords: Array.isArray(frontMatter.keywords) ? frontMatter.keywords as string[] : entry.keywords,
+        lastUpdated: typeof frontMatter.last_updated === 'string' ? frontMatter.last_updated : entry.lastUpdated,
+        contentLength: typeof frontMatter.content_length === 'number' ? frontMatter.content_length : entry.quality?.length,
+        isFallback: typeof frontMatter.is_fallback === 'boolean' ? frontMatter.is_fallback : entry.quality?.isFallbackContent
+      },
+      relatedSections: relatedSections.slice(0, 10)
+    };
+  }
+
+  /**
+   * Walk the cross-reference graph out from a section, nearest and strongest links first
+   */
+  async getRelatedSections(args: GetRelatedSectionsArgs): Promise<RelatedSectionsResult> {
+    // Input validation
+    if (!args || typeof args !== 'object') {
+      throw new Error('Invalid arguments: expected object');
+    }
+
+    const { section, platform, relationshipTypes } = args;
+    const depth = args.depth ?? 1;
+    const limit = args.limit ?? 25;
+    const validTypes: RelatedSection['relationshipType'][] = ['related', 'parent', 'child', 'see-also'];
+
+    if (typeof section !== 'string' || section.trim().length === 0) {
+      throw new Error('Invalid section: must be a non-empty string (id, URL or title)');
+    }
+
+    if (section.length > 200) {
+      throw new Error('Section identifier too long: maximum 200 characters allowed');
+    }
+
+    if (typeof depth !== 'number' || !Number.isInteger(depth) || depth < 1 || depth > 3) {
+      throw new Error('Invalid depth: must be an integer between 1 and 3');
+    }
+
+    if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > 100) {
+      throw new Error('Invalid limit: must be an integer between 1 and 100');
+    }
+
+    if (relationshipTypes !== undefined && (!Array.isArray(relationshipTypes) || relationshipTypes.some(type => !validTypes.includes(type)))) {
+      throw new Error(`Invalid relationshipTypes: must be an array of ${validTypes.join(', ')}`);
+    }
+
+    const entry = await this.staticContentSearch.findSection(section, platform);
+    if (!entry) {
+      const closest = await this.staticContentSearch.suggestSectionIds(section);
+      throw new Error(`Section not found: "${section.trim()}". Closest matches: ${closest.join(', ')}`);
+    }
+
+    // Breadth-first, so each section is reported at the shortest distance it can be reached
+    const visited = new Map<string, RelatedSectionNode>();
+    let frontier = [{ id: entry.id, score: 1 }];
+    for (let hop = 1; hop <= depth && frontier.length > 0; hop++) {
+      const next: string[] = [];
+      for (const from of frontier) {
+        for (const neighbour of await this.staticContentSearch.getRelatedSections(from.id)) {
+          if (neighbour.id === entry.id) continue;
+          if (relationshipTypes && !relationshipTypes.includes(neighbour.relationshipType)) continue;
+
+          const score = Math.round(from.score * neighbour.relevanceScore * 100) / 100;
+          const existing = visited.get(neighbour.id);
+          if (existing && (existing.depth < hop || existing.relevanceScore >= score)) continue;
+
+          visited.set(neighbour.id, { ...neighbour, relevanceScore: score, depth: hop, via: from.id });
+          if (!existing) next.push(neighbour.id);
+        }
+      }
+      frontier = next.map(id => ({ id, score: visited.get(id)?.relevanceScore ?? 0 }));
+    }
+
+    const related = [...visited.values()]
+      .sort((a, b) => a.depth - b.depth || b.relevanceScore - a.relevanceScore || a.title.localeCompare(b.title));
+
+    return {
+      section: { id: entry.id, title: entry.title, url: entry.url },
+      depth,
+      related: related.slice(0, limit),
+      total: related.length
+    };
+  }
+
+  /**
+   * Get structured component specifications extracted at index time
+   */
+  async getComponentSpec(args: GetComponentSpecArgs): Promise<ComponentSpecResult> {
+    // Input validation
+    if (!args || typeof args !== 'object') {
+      throw new Error('Invalid arguments: expected object');
+    }
+
+    const { componentName, platform } = args;
+
+    if (typeof componentName !== 'string' || componentName.trim().length === 0) {
+      throw new Error('Invalid componentName: must be a non-empty string');
+    }
+
+    if (componentName.length > 100) {
+      throw new Error('Component name too long: maximum 100 characters allowed');
+    }
+
+    let entry = await this.staticContentSearch.findSection(componentName, platform);
+    if (!entry) {
+      // Fall back to the best search match
+      const [topResult] = await this.staticContentSearch.searchContent(componentName.trim(), platform, undefined, 1);
+      if (topResult) {
+        const index = await this.staticContentSearch.getSearchIndex();
+        entry = index.find(e => e.id === topResult.id) || null;
+      }
+    }
+
+    if (!entry) {
+      throw new Error(`Component not found: "${componentName.trim()}"`);
+    }
+
+    const specEntry = await this.staticContentSearch.getComponentSpec(entry.id);
+    let specification = specEntry ? specEntry.specification : null;
+
+    if (specification && platform && specification.measurements) {
+      // Keep measurements that apply to the requested platform or to every platform
+      const measurements = specification.measurements.filter(m => !m.platform || m.platform === platform);
+      specification = { ...specification, measurements };
+    }
+
+    const result: ComponentSpecResult = {
+      componentName: componentName.trim(),
+      sectionId: entry.id,
+      title: entry.title,
+      url: entry.url,
+      platform: entry.platform as ApplePlatform,
+      specification
+    };
+
+    if (!specification) {
+      result.note = `No measurements were found in "${entry.title}". Use get_hig_section for the full guidance.`;
+    }
+
+    return result;
+  }
+
+  /**
+   * Look up a specification table, or the single value a question such as "tvOS app icon layout size" points at
+   */
+  async getSpecificationTable(args: GetSpecificationTableArgs): Promise<SpecificationTableResult> {
+    // Input validation
+    if (!args || typeof args !== 'object') {
+      throw new Error('Invalid arguments: expected object');
+    }
+
+    const { query, section, platform, column } = args;
+
+    for (const [name, value, maxLength] of [['query', query, 200], ['section', section, 100], ['column', column, 100]] as const) {
+      if (value !== undefined && (typeof value !== 'string' || value.trim().length === 0 || value.length > maxLength)) {
+        throw new Error(`Invalid ${name}: must be a non-empty string of at most ${maxLength} characters`);
+      }
+    }
+
+    if (query === undefined && section === undefined) {
+      throw new Error('Invalid arguments: provide a query or a section');
+    }
+
+    if (platform && !['iOS', 'macOS', 'watchOS', 'tvOS', 'visionOS'].includes(platform)) {
+      throw new Error(`Invalid platform: ${platform}`);
+    }
+
+    let tables = await this.staticContentSearch.getSpecificationTables();
+    if (tables.length === 0) {
+      // Content generated before table extraction has no metadata/specification-tables.json
+      throw new Error('Specification tables are not available in this content build. Regenerate the content with `apple-dev-mcp generate` to extract them, or use get_component_spec for measurements given in the text.');
+    }
+    const index = await this.staticContentSearch.getSearchIndex();
+
+    if (section !== undefined) {
+      let entry = await this.staticContentSearch.findSection(section, platform);
+      if (!entry) {
+        // Fall back to the best search match
+        const [topResult] = await this.staticContentSearch.searchContent(section.trim(), platform, undefined, 1);
+        entry = topResult ? index.find(e => e.id === topResult.id) || null : null;
+      }
+      if (!entry) {
+        throw new Error(`Section not found: "${section.trim()}"`);
+      }
+      tables = tables.filter(table => table.sectionId === entry.id);
+      if (tables.length === 0) {
+        throw new Error(`No specification tables in "${entry.title}". Use get_component_spec for measurements given in the text.`);
+      }
+    }
+
+    const lookup = this.specificationTables.lookup(tables, { query, platform, column });
+    if (!lookup) {
+      throw new Error(column
+        ? `No specification table has a "${column.trim()}" column`
+        : `No specification table matches "${(query || section || '').trim()}". Name the page, e.g. "tvOS app icon layout size".`);
+    }
+
+    const entry = index.find(e => e.id === lookup.table.sectionId);
+    return {
+      section: { id: lookup.table.sectionId, title: entry?.title || lookup.table.headingPath[0], url: entry?.url || '' },
+      ...lookup
+    };
+  }
+
+  /**
+   * Compare a component's guidance side by side across platforms
+   */
+  async comparePlatforms(args: ComparePlatformsArgs): Promise<PlatformComparison> {
+    // Input validation
+    if (!args || typeof args !== 'object') {
+      throw new Error('Invalid arguments: expected object');
+    }
+
+    const { componentName } = args;
+
+    if (typeof componentName !== 'string' || componentName.trim().length === 0) {
+      throw new Error('Invalid componentName: must be a non-empty string');
+    }
+
+    if (componentName.length > 100) {
+      throw new Error('Component name too long: maximum 100 characters allowed');
+    }
+
+    const validPlatforms: ApplePlatform[] = ['iOS', 'macOS', 'watchOS', 'tvOS', 'visionOS'];
+    let platforms = validPlatforms;
+    if (args.platforms !== undefined) {
+      if (!Array.isArray(args.platforms) || args.platforms.some(p => !validPlatforms.includes(p))) {
+        throw new Error(`Invalid platforms: must be an array of ${validPlatforms.join(', ')}`);
+      }
+      if (args.platforms.length > 0) {
+        platforms = [...new Set(args.platforms)];
+      }
+    }
+
+    const index = await this.staticContentSearch.getSearchIndex();
+
+    let base = await this.staticContentSearch.findSection(componentName, 'universal');
+    if (!base) {
+      const [topResult] = await this.staticContentSearch.searchContent(componentName.trim(), undefined, undefined, 1);
+      base = topResult ? index.find(e => e.id === topResult.id) || null : null;
+    }
+
+    if (!base) {
+      throw new Error(`Component not found: "${componentName.trim()}"`);
+    }
+
+    // Platform pages such as ios-app-icons carry the same per-platform blocks as universal pages
+    const slug = base.filename.replace(/\.md$/, '');
+    const universalEntry = index.find(e => e.platform === 'universal' && e.filename === base.filename);
+    if (universalEntry) base = universalEntry;
+
+    const baseContent = await this.staticContentSearch.getSectionContent(base);
+    const inlineBlocks = this.platformGuidance.extractPlatformBlocks(baseContent);
+    const slugWords = slug.split('-');
+
+    const comparison: PlatformComparison['comparison'] = {};
+    for (const platform of platforms) {
+      // Platform pages whose slug contains every word of the base slug, e.g. buttons -> pop-up-buttons
+      const platformEntries = index.filter(e =>
+        e.platform === platform &&
+        slugWords.every(word => e.filename.replace(/\.md$/, '').split('-').includes(word))
+      );
+
+      const sections: ComparedSection[] = [];
+      for (const entry of platformEntries) {
+        sections.push(await this.toComparedSection(entry));
+      }
+
+      comparison[platform] = {
+        platform,
+        sections,
+        inlineGuidance: inlineBlocks.get(platform) || null
+      };
+    }
+
+    return {
+      componentName: componentName.trim(),
+      platforms,
+      universal: base.platform === 'universal' ? await this.toComparedSection(base, baseContent) : null,
+      comparison
+    };
+  }
+
+  /**
+   * List recent HIG changes from change banners, Change log tables and content snapshot diffs
+   */
+  async getLatestUpdates(args: GetLatestUpdatesArgs = {}): Promise<LatestUpdatesResult> {
+    // Input validation
+    if (!args || typeof args !== 'object') {
+      throw new Error('Invalid arguments: expected object');
+    }
+
+    const { since, platform, category } = args;
+    const limit = args.limit ?? 20;
+
+    let sinceDate: Date | undefined;
+    if (since !== undefined) {
+      if (typeof since !== 'string' || isNaN(Date.parse(since))) {
+        throw new Error('Invalid since: must be an ISO date string (e.g. "2025-06-01")');
+      }
+      sinceDate = new Date(since);
+    }
+
+    if (platform && !['iOS', 'macOS', 'watchOS', 'tvOS', 'visionOS', 'universal'].includes(platform)) {
+      throw new Error(`Invalid platform: ${platform}`);
+    }
+
+    if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > 100) {
+      throw new Error('Invalid limit: must be an integer between 1 and 100');
+    }
+
+    const updates = (await this.staticContentSearch.getUpdates()).filter(update => {
+      if (sinceDate && update.date < sinceDate) return false;
+      // Universal guidance applies to every platform, as in search
+      if (platform && platform !== 'universal' && update.platform !== platform && update.platform !== 'universal') return false;
+      if (category && update.category !== category) return false;
+      return true;
+    });
+
+    return {
+      updates: updates.slice(0, limit),
+      total: updates.length,
+      filters: { since, platform, category }
+    };
+  }
+
+  /**
+   * Table of contents of the HIG grouped by platform and category, a page at a time
+   */
+  async listHIGSections(args: ListHIGSectionsArgs = {}): Promise<HIGTableOfContents> {
+    // Input validation
+    if (!args || typeof args !== 'object') {
+      throw new Error('Invalid arguments: expected object');
+    }
+
+    const { platform, category } = args;
+    const offset = args.offset ?? 0;
+    const limit = args.limit ?? 50;
+
+    const platformOrder: ApplePlatform[] = ['universal', 'iOS', 'macOS', 'watchOS', 'tvOS', 'visionOS'];
+
+    if (platform && !platformOrder.includes(platform)) {
+      throw new Error(`Invalid platform: ${platform}`);
+    }
+
+    if (category && !HIG_CATEGORIES.includes(category)) {
+      throw new Error(`Invalid category: ${category}`);
+    }
+
+    if (typeof offset !== 'number' || !Number.isInteger(offset) || offset < 0) {
+      throw new Error('Invalid offset: must be a non-negative integer');
+    }
+
+    if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > 200) {
+      throw new Error('Invalid limit: must be an integer between 1 and 200');
+    }
+
+    const rank = <T>(order: T[], value: T) => order.includes(value) ? order.indexOf(value) : order.length;
+    const entries = (await this.staticContentSearch.getSearchIndex())
+      .map(entry => ({ ...entry, platform: entry.platform as ApplePlatform, category: entry.category as HIGCategory }))
+      .sort((a, b) => rank(platformOrder, a.platform) - rank(platformOrder, b.platform) ||
+        rank(HIG_CATEGORIES, a.category) - rank(HIG_CATEGORIES, b.category) ||
+        a.title.localeCompare(b.title) || a.id.localeCompare(b.id));
+
+    // Listing by platform means that platform's own pages; universal pages are listed under universal
+    const matchesPlatform = (entry: { platform: ApplePlatform }) => !platform || entry.platform === platform;
+    const matchesCategory = (entry: { category: HIGCategory }) => !category || entry.category === category;
+    const matching = entries.filter(entry => matchesPlatform(entry) && matchesCategory(entry));
+
+    // Each facet counts what selecting one of its values would list, keeping the other filter
+    const countBy = <T extends string>(values: T[]) => {
+      const counts = new Map<T, number>();
+      values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+      return [...counts].map(([value, count]) => ({ value, count }));
+    };
+
+    const platforms: HIGTableOfContents['platforms'] = [];
+    for (const entry of matching.slice(offset, offset + limit)) {
+      let platformGroup = platforms.find(group => group.platform === entry.platform);
+      if (!platformGroup) {
+        platformGroup = { platform: entry.platform, count: matching.filter(e => e.platform === entry.platform).length, categories: [] };
+        platforms.push(platformGroup);
+      }
+
+      let categoryGroup = platformGroup.categories.find(group => group.category === entry.category);
+      if (!categoryGroup) {
+        categoryGroup = {
+          category: entry.category,
+          count: matching.filter(e => e.platform === entry.platform && e.category === entry.category).length,
+          sections: []
+        };
+        platformGroup.categories.push(categoryGroup);
+      }
+
+      categoryGroup.sections.push({
+        id: entry.id,
+        title: entry.title,
+        url: entry.url,
+        ...(entry.quality?.score !== undefined ? { qualityScore: entry.quality.score } : {}),
+        ...(entry.lastUpdated ? { lastUpdated: entry.lastUpdated } : {})
+      });
+    }
+
+    return {
+      platforms,
+      facets: {
+        platforms: countBy(entries.filter(matchesCategory).map(entry => entry.platform)),
+        categories: countBy(entries.filter(matchesPlatform).map(entry => entry.category))
+      },
+      total: matching.length,
+      offset,
+      limit,
+      ...(offset + limit < matching.length ? { nextOffset: offset + limit } : {}),
+      filters: { platform, category }
+    };
+  }
+
+  private async toComparedSection(entry: SearchIndexEntry, content?: string): Promise<ComparedSection> {
+    const body = (content ?? await this.staticContentSearch.getSectionContent(entry)).trim();
+    const excerpt = body.length > 400 ? `${body.slice(0, 400).replace(/\s+\S*$/, '')}...` : body;
+
+    return {
+      id: entry.id,
+      title: entry.title,
+      url: entry.url,
+      excerpt
+    };
+  }
+
   /**
    * Minimal fallback search with hardcoded results (last resort only)
    */
@@ -181,64 +740,147 @@ export class HIGToolProvider {
       .slice(0, limit);
   }
 
+  /**
+   * Get accessibility requirements for a component from its own page and the accessibility sections
+   */
+  async getAccessibilityRequirements(args: GetAccessibilityRequirementsArgs): Promise<AccessibilityRequirements> {
+    // Input validation
+    if (!args || typeof args !== 'object') {
+      throw new Error('Invalid arguments: expected object');
+    }
+
+    const { component, platform } = args;
+
+    if (typeof component !== 'string' || component.trim().length === 0) {
+      throw new Error('Invalid component: must be a non-empty string');
+    }
+
+    if (component.length > 100) {
+      throw new Error('Component name too long: maximum 100 characters allowed');
+    }
+
+    if (!['iOS', 'macOS', 'watchOS', 'tvOS', 'visionOS', 'universal'].includes(platform)) {
+      throw new Error(`Invalid platform: ${platform}`);
+    }
+
+    const index = await this.staticContentSearch.getSearchIndex();
+    const accessibilityEntries = index.filter(e => /accessibility/i.test(e.title));
 
+    let componentEntry = await this.staticContentSearch.findSection(component, platform);
+    if (!componentEntry) {
+      const [topResult] = await this.staticContentSearch.searchContent(component.trim(), platform, undefined, 1);
+      componentEntry = topResult ? index.find(e => e.id === topResult.id) || null : null;
+    }
 
+    // The component's own page comes first so its specific guidance wins over the general rules
+    const sources = componentEntry && !accessibilityEntries.includes(componentEntry)
+      ? [componentEntry, ...accessibilityEntries]
+      : accessibilityEntries;
 
+    const voiceOverSupport: AccessibilityGuidanceItem[] = [];
+    const keyboardNavigation: AccessibilityGuidanceItem[] = [];
+    const additionalGuidelines: AccessibilityGuidanceItem[] = [];
+    let contrastRatio: AccessibilityGuidanceItem | null = null;
+    let minimumTouchTarget: AccessibilityGuidanceItem | null = null;
+
+    for (const entry of sources) {
+      const content = this.platformGuidance.stripOtherPlatforms(
+        await this.staticContentSearch.getSectionContent(entry),
+        platform
+      );
+      const sentences = this.accessibilityGuidance.extractSentences(content);
+      const item = (text: string, value?: string): AccessibilityGuidanceItem => ({
+        text,
+        ...(value ? { value } : {}),
+        sectionId: entry.id,
+        sourceUrl: entry.url
+      });
 
+      voiceOverSupport.push(...sentences.voiceOver.map(text => item(text)));
+      keyboardNavigation.push(...sentences.keyboard.map(text => item(text)));
 
+      for (const text of sentences.contrast) {
+        const ratio = text.match(/\d+(?:\.\d+)?:1/);
+        if (ratio && !contrastRatio) {
+          contrastRatio = item(text, ratio[0]);
+        } else {
+          additionalGuidelines.push(item(text));
+        }
+      }
 
+      if (!minimumTouchTarget) {
+        minimumTouchTarget = await this.findTouchTarget(entry, platform);
+      }
+      additionalGuidelines.push(...sentences.touchTargets.map(text => item(text)));
+      additionalGuidelines.push(...sentences.other.map(text => item(text)));
+    }
+
+    return {
+      component: component.trim(),
+      platform,
+      section: componentEntry ? { id: componentEntry.id, title: componentEntry.title, url: componentEntry.url } : null,
+      requirements: {
+        minimumTouchTarget,
+        contrastRatio,
+        voiceOverSupport: voiceOverSupport.slice(0, 6),
+        keyboardNavigation: keyboardNavigation.slice(0, 6),
+        additionalGuidelines: additionalGuidelines
+          .filter(guideline => guideline.text !== minimumTouchTarget?.text)
+          .slice(0, 8)
+      }
+    };
+  }
 
   /**
-   * Get accessibility requirements for specific components
-   * TODO: Future release - integrate with static content parsing
-   * For now, users should search "accessibility" + component through regular HIG search
+   * Find a section's touch target size for a platform from its index-time measurements
    */
-  // async getAccessibilityRequirements(args: { component: string; platform: string }): Promise<{
-  //   component: string;
-  //   platform: string;
-  //   requirements: {
-  //     minimumTouchTarget: string;
-  //     contrastRatio: string;
-  //     voiceOverSupport: string[];
-  //     keyboardNavigation: string[];
-  //     wcagCompliance: string;
-  //     additionalGuidelines: string[];
-  //   };
-  // }> {
-  //   const { component, platform } = args;
-  //   const componentLower = component.toLowerCase();
-  //   const a11yRequirements = this.getAccessibilityDatabase(componentLower, platform);
-
-  //   return {
-  //     component,
-  //     platform,
-  //     requirements: a11yRequirements
-  //   };
-  // }
+  private async findTouchTarget(entry: SearchIndexEntry, platform: ApplePlatform): Promise<AccessibilityGuidanceItem | null> {
+    const spec = await this.staticContentSearch.getComponentSpec(entry.id);
+    const targets = (spec?.specification.measurements || []).filter(m => m.kind === 'touch-target');
 
+    const forPlatform = targets.filter(m => m.platform === platform);
+    const general = targets.find(m => !m.platform);
+
+    // Per-platform tables list the default control size followed by the minimum one
+    if (forPlatform.length >= 2 && forPlatform[0].label === forPlatform[1].label) {
+      return {
+        text: `Default control size ${forPlatform[0].value}, minimum control size ${forPlatform[1].value}`,
+        value: forPlatform[0].value,
+        sectionId: entry.id,
+        sourceUrl: entry.url
+      };
+    }
 
+    const measurement = forPlatform[0] || general;
+    if (!measurement) return null;
+
+    return {
+      text: measurement.context,
+      value: measurement.value,
+      sectionId: entry.id,
+      sourceUrl: entry.url
+    };
+  }
 
   /**
    * Search technical documentation using dynamic Apple API client
    */
-  async searchTechnicalDocumentation(args: {
-    query: string;
-    framework?: string;
-    platform?: string;
-  }): Promise<{
+  async searchTechnicalDocumentation(args: SearchTechnicalArgs): Promise<{
     results: TechnicalSearchResult[];
     total: number;
+    totalMatches: number;
     query: string;
     success: boolean;
     error?: string;
+    nextCursor?: string;
   }> {
     // Input validation
     if (!args || typeof args !== 'object') {
       throw new Error('Invalid arguments: expected object');
     }
     
-    const { query, framework, platform } = args;
-    const maxResults = 20; // Use sensible default internally
+    const { query, framework, platform, symbolType, cursor } = args;
+    const limit = args.limit ?? 20;
     
     // Validate required parameters
     if (typeof query !== 'string') {
@@ -249,6 +891,7 @@ export class HIGToolProvider {
       return {
         results: [],
         total: 0,
+        totalMatches: 0,
         query: query.trim(),
         success: true
       };
@@ -257,13 +900,24 @@ export class HIGToolProvider {
     if (query.length > 100) {
       throw new Error('Query too long: maximum 100 characters allowed');
     }
+
+    this.validateTechnicalFilters(framework, symbolType);
+
+    if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > 50) {
+      throw new Error('Invalid limit: must be an integer between 1 and 50');
+    }
+
+    const scope = { tool: 'search_technical_documentation', query, framework, platform, symbolType };
+    if (cursor !== undefined) {
+      this.searchCursors.decode(cursor, scope);
+    }
     
     try {
       let results: TechnicalSearchResult[] = [];
       
       // Try fast, targeted API search with aggressive timeout
       try {
-        const searchPromise = this.performFastAPISearch(query.trim(), { framework, platform, maxResults });
+        const searchPromise = this.performFastAPISearch(query.trim(), { framework, platform, maxResults: this.technicalPoolSize });
         
         // Race condition: API search vs 15-second timeout (matching MightyDillah's approach)
         const timeoutPromise = new Promise<TechnicalSearchResult[]>((_, reject) => {
@@ -276,13 +930,21 @@ export class HIGToolProvider {
         // This maintains the "no static content" principle
         results = []; 
       }
+
+      if (symbolType) {
+        results = results.filter(result => result.symbolKind?.toLowerCase() === symbolType.trim().toLowerCase());
+      }
+
+      const page = this.searchCursors.page(results, scope, cursor, limit);
       
       return {
-        results: results.slice(0, maxResults),
-        total: results.length,
+        results: page.items,
+        total: page.items.length,
+        totalMatches: page.total,
         query: query.trim(),
         success: results.length > 0,
-        error: results.length === 0 ? 'No results found. Try a more specific technical symbol like "UIButton" or "ScrollView".' : undefined
+        error: results.length === 0 ? 'No results found. Try a more specific technical symbol like "UIButton" or "ScrollView".' : undefined,
+        ...(page.nextCursor ? { nextCursor: page.nextCursor } : {})
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -290,6 +952,7 @@ export class HIGToolProvider {
       return {
         results: [],
         total: 0,
+        totalMatches: 0,
         query: query.trim(),
         success: false,
         error: errorMessage
@@ -297,6 +960,19 @@ export class HIGToolProvider {
     }
   }
 
+  /**
+   * Framework and symbol kind filters are free text passed on to Apple's API
+   */
+  private validateTechnicalFilters(framework?: string, symbolType?: string): void {
+    if (framework !== undefined && (typeof framework !== 'string' || framework.trim().length === 0 || framework.length > 50)) {
+      throw new Error('Invalid framework: must be a non-empty string of at most 50 characters');
+    }
+
+    if (symbolType !== undefined && (typeof symbolType !== 'string' || symbolType.trim().length === 0 || symbolType.length > 50)) {
+      throw new Error('Invalid symbolType: must be a non-empty string of at most 50 characters');
+    }
+  }
+
   /**
    * Perform fast, targeted API search with intelligent framework targeting
    */
@@ -330,14 +1006,12 @@ export class HIGToolProvider {
    * Unified search across both HIG design guidelines and technical documentation
    * Phase 2: Enhanced search that combines design and implementation guidance
    */
-  async searchUnified(args: {
-    query: string;
-    platform?: ApplePlatform;
-  }): Promise<{
+  async searchUnified(args: SearchUnifiedArgs): Promise<{
     results: UnifiedSearchResult[];
     designResults: SearchResult[];
     technicalResults: TechnicalSearchResult[];
     total: number;
+    totalMatches: number;
     query: string;
     sources: string[];
     crossReferences: Array<{
@@ -345,15 +1019,17 @@ export class HIGToolProvider {
       technicalSymbol: string;
       relevance: number;
     }>;
+    nextCursor?: string;
   }> {
-    const { query, platform } = args;
-    
-    // Use sensible defaults internally
-    const includeDesign = true;
-    const includeTechnical = true;
-    const maxResults = 20;
-
     // Input validation
+    if (!args || typeof args !== 'object') {
+      throw new Error('Invalid arguments: expected object');
+    }
+
+    const { query, platform, category, framework, symbolType, cursor } = args;
+    const searchType = args.searchType ?? 'both';
+    const limit = args.limit ?? 20;
+
     if (!query || typeof query !== 'string' || query.trim().length === 0) {
       throw new Error('Invalid query: must be a non-empty string');
     }
@@ -362,6 +1038,28 @@ export class HIGToolProvider {
       throw new Error('Query too long: maximum 100 characters allowed');
     }
 
+    if (!['design', 'technical', 'both'].includes(searchType)) {
+      throw new Error('Invalid searchType: must be design, technical or both');
+    }
+
+    if (category && !HIG_CATEGORIES.includes(category)) {
+      throw new Error(`Invalid category: ${category}`);
+    }
+
+    this.validateTechnicalFilters(framework, symbolType);
+
+    if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > 50) {
+      throw new Error('Invalid limit: must be an integer between 1 and 50');
+    }
+
+    const scope = { tool: 'search_unified', query, searchType, platform, category, framework, symbolType };
+    if (cursor !== undefined) {
+      this.searchCursors.decode(cursor, scope);
+    }
+
+    const includeDesign = searchType !== 'technical';
+    const includeTechnical = searchType !== 'design';
+
     const sources: string[] = [];
     let designResults: SearchResult[] = [];
     let technicalResults: TechnicalSearchResult[] = [];
@@ -371,9 +1069,13 @@ export class HIGToolProvider {
       if (includeDesign) {
         sources.push('design-guidelines');
         try {
+          // Whole pages, so cross-references can match anything the page mentions
           const designSearch = await this.searchHumanInterfaceGuidelines({
             query,
-            platform
+            platform,
+            category,
+            fullContent: true,
+            limit: 20
           });
           designResults = designSearch.results;
         } catch {
@@ -387,7 +1089,10 @@ export class HIGToolProvider {
         try {
           const technicalSearch = await this.searchTechnicalDocumentation({
             query,
-            platform
+            platform,
+            framework,
+            symbolType,
+            limit: 50
           });
           technicalResults = technicalSearch.results;
         } catch {
@@ -402,18 +1107,26 @@ export class HIGToolProvider {
       const unifiedResults = this.combineAndRankResults(
         designResults,
         technicalResults,
-        crossReferences,
-        maxResults
+        crossReferences
       );
+      const page = this.searchCursors.page(unifiedResults, scope, cursor, limit);
+
+      // Only the design and technical results this page shows, including both halves of combined results
+      const designOnPage = designResults.filter(result =>
+        page.items.some(item => item.type !== 'technical' && item.url === result.url));
+      const technicalOnPage = technicalResults.filter(result =>
+        page.items.some(item => item.id === `technical-${result.path}` || (item.type === 'combined' && item.title.endsWith(` + ${result.title}`))));
 
       return {
-        results: unifiedResults,
-        designResults,
-        technicalResults,
-        total: unifiedResults.length,
+        results: page.items,
+        designResults: designOnPage,
+        technicalResults: technicalOnPage,
+        total: page.items.length,
+        totalMatches: page.total,
         query: query.trim(),
         sources,
-        crossReferences
+        crossReferences,
+        ...(page.nextCursor ? { nextCursor: page.nextCursor } : {})
       };
 
     } catch (error) {
@@ -557,8 +1270,7 @@ export class HIGToolProvider {
       designSection: string;
       technicalSymbol: string;
       relevance: number;
-    }>,
-    maxResults: number
+    }>
   ): UnifiedSearchResult[] {
     const unifiedResults: UnifiedSearchResult[] = [];
 
@@ -649,99 +1361,8 @@ export class HIGToolProvider {
       }
     }
 
-    // Sort by relevance score and return top results
+    // Sort by relevance score, ties by id so every page sees the same order
     return unifiedResults
-      .sort((a, b) => b.relevanceScore - a.relevanceScore)
-      .slice(0, maxResults);
+      .sort((a, b) => b.relevanceScore - a.relevanceScore || a.id.localeCompare(b.id));
   }
-
-  /**
-   * Get accessibility requirements database
-   * TODO: Future release - replace with static content integration
-   */
-  // private getAccessibilityDatabase(component: string, _platform: string): { minimumTouchTarget: string; contrastRatio: string; wcagCompliance: string; voiceOverSupport: string[]; keyboardNavigation: string[]; additionalGuidelines: string[] } {
-  //   const baseRequirements = {
-  //     minimumTouchTarget: '44pt x 44pt',
-  //     contrastRatio: '4.5:1 (WCAG AA)',
-  //     wcagCompliance: 'WCAG 2.1 AA',
-  //     voiceOverSupport: ['Accessible label', 'Accessible hint', 'Accessible value'],
-  //     keyboardNavigation: ['Tab navigation', 'Return key activation'],
-  //     additionalGuidelines: []
-  //   };
-
-  //   switch (component) {
-  //     case 'button':
-  //       return {
-  //         ...baseRequirements,
-  //         voiceOverSupport: [
-  //           'Clear button label describing action',
-  //           'Button trait for VoiceOver',
-  //           'State changes announced (enabled/disabled)'
-  //         ],
-  //         keyboardNavigation: [
-  //           'Tab order follows reading order',
-  //           'Space bar or Return key activation',
-  //           'Focus indicator clearly visible'
-  //         ],
-  //         additionalGuidelines: [
-  //           'Use descriptive labels, not just "tap" or "click"',
-  //           'Ensure sufficient spacing between buttons',
-  //           'Provide haptic feedback on supported devices'
-  //         ]
-  //       };
-        
-  //     case 'navigation':
-  //     case 'navigation bar':
-  //       return {
-  //         ...baseRequirements,
-  //         minimumTouchTarget: '44pt x 44pt for interactive elements',
-  //         voiceOverSupport: [
-  //           'Navigation bar trait',
-  //           'Clear title announcement',
-  //           'Back button with destination context'
-  //         ],
-  //         keyboardNavigation: [
-  //           'Tab navigation through interactive elements',
-  //           'Escape key for back navigation (macOS)',
-  //           'Command+[ for back navigation (macOS)'
-  //         ],
-  //         additionalGuidelines: [
-  //           'Keep navigation titles concise and descriptive',
-  //           'Ensure back button context is clear',
-  //           'Use navigation landmarks for screen readers'
-  //         ]
-  //       };
-        
-  //     case 'tab':
-  //     case 'tab bar':
-  //       return {
-  //         ...baseRequirements,
-  //         voiceOverSupport: [
-  //           'Tab bar trait',
-  //           'Selected state clearly announced',
-  //           'Tab count and position information'
-  //         ],
-  //         keyboardNavigation: [
-  //           'Arrow key navigation between tabs',
-  //           'Return/Space key for tab selection',
-  //           'Control+Tab for tab switching'
-  //         ],
-  //         additionalGuidelines: [
-  //           'Use clear, distinct tab labels',
-  //           'Ensure selected state is visually obvious',
-  //           'Badge numbers should be announced by VoiceOver'
-  //         ]
-  //       };
-        
-  //     default:
-  //       return {
-  //         ...baseRequirements,
-  //         additionalGuidelines: [
-  //           'Follow platform-specific accessibility guidelines',
-  //           'Test with VoiceOver and other assistive technologies',
-  //           'Ensure content is accessible in all interface modes'
-  //         ]
-  //       };
-  //   }
-  // }
-}
\ No newline at end of file
+}
@@ -50,6 +50,45 @@ export interface ComponentSpec {
   };
   touchTarget?: string;
   minimumSize?: string;
+  measurements?: SpecMeasurement[];
+}
+
+export interface SpecMeasurement {
+  label: string;              // Text describing what is measured, e.g. "Maximum width and height"
+  value: string;              // Normalized value, e.g. "34.67 x 34.67 pt"
+  unit: 'pt' | 'px';
+  kind: 'touch-target' | 'dimension' | 'spacing' | 'typography' | 'size';
+  platform?: ApplePlatform;   // Platform the value applies to, when the page says so
+  scales?: Array<{            // Pixel equivalents per display scale
+    value: string;            // e.g. "104 x 104 px"
+    scale: string;            // e.g. "@3x"
+  }>;
+  context: string;            // Sentence the value was found in
+}
+
+export interface ComponentSpecEntry {
+  sectionId: string;
+  title: string;
+  platform: ApplePlatform;
+  url: string;
+  specification: ComponentSpec;
+}
+
+/**
+ * A table from a HIG page, such as app icon sizes per platform, with rows keyed by column
+ */
+export interface SpecificationTable {
+  id: string; // `${sectionId}--${heading slug}`
+  sectionId: string;
+  title: string; // Heading the table sits under
+  headingPath: string[]; // Page title first
+  columns: SpecificationColumn[];
+  rows: Array<Record<string, string>>; // e.g. { platform: 'tvOS', layoutShape: 'Rectangle (landscape)', layoutSize: '800x480 px' }
+}
+
+export interface SpecificationColumn {
+  key: string; // camelCased label, e.g. "layoutSize"
+  label: string; // As Apple writes it, e.g. "Layout size"
 }
 
 // Enhanced structured content interfaces for Phase 1
@@ -79,19 +118,6 @@ export interface EnhancedHIGSection extends HIGSection {
   };
 }
 
-// Content processing result
-export interface ProcessedContentResult {
-  cleanedMarkdown: string;
-  structuredContent: StructuredHIGContent;
-  quality: ContentQualityMetrics;
-  processingMetrics: {
-    extractionTime: number;
-    contentLength: number;
-    structureScore: number;
-    cleaningScore: number;
-  };
-}
-
 export interface SearchResult {
   id: string;
   title: string;
@@ -101,11 +127,46 @@ export interface SearchResult {
   relevanceScore: number;
   content: string;
   type: 'section' | 'component' | 'guideline';
-  highlights?: string[];
+  highlights?: SearchHighlight[];
+  // Set when the result is a passage rather than a whole page
+  passageId?: string;
+  headingPath?: string[];
+  sectionUrl?: string;
+  related?: RelatedSection[]; // Strongest cross-referenced sections
+}
+
+/**
+ * Where a result matched the query, for quoting and for showing why it ranked
+ */
+export interface SearchHighlight {
+  field: 'title' | 'heading' | 'keyword' | 'body';
+  text?: string;             // The title, heading or keyword that matched; body offsets point into the result's content
+  snippet: string;           // Markdown with the matched words in bold, cut to a window around them for body matches
+  matches: HighlightMatch[]; // Offsets into `text`, or into `content` for body matches
+}
+
+export interface HighlightMatch {
+  start: number;
+  end: number;
+  term: string;              // The query term, or the synonym expansion it came through
+  source: 'query' | 'synonym';
+}
+
+/**
+ * A heading-anchored slice of a HIG page, the unit passage search ranks
+ */
+export interface HIGPassage {
+  id: string; // `${sectionId}--${heading slug}`, stable across regenerations of the same page
+  sectionId: string;
+  headingPath: string[]; // Page title first, e.g. ["App icons", "Best practices"]
+  anchor?: string; // Fragment of the heading on Apple's page
+  platforms?: ApplePlatform[]; // Only set for platform-specific blocks
+  text: string;
 }
 
 export interface HIGUpdate {
   id: string;
+  sectionId: string;
   title: string;
   description: string;
   url: string;
@@ -113,6 +174,46 @@ export interface HIGUpdate {
   platform: ApplePlatform;
   type: 'new' | 'updated' | 'deprecated';
   category: HIGCategory;
+  source: 'change-banner' | 'change-log' | 'content-diff';
+}
+
+// A row of a page's Change log table, with the date as Apple writes it ("June 9, 2025")
+export interface ChangeLogEntry {
+  date: string;
+  description: string;
+}
+
+export interface ContentSnapshot {
+  generatedAt: string;
+  sections: Record<string, {
+    title: string;
+    url: string;
+    platform: ApplePlatform;
+    category: HIGCategory;
+    contentHash: string;
+  }>;
+}
+
+/**
+ * Sections one generation run added, modified or removed, relative to the previous run
+ */
+export interface ContentChangelog {
+  generatedAt: string;
+  since?: string; // generatedAt of the content the changes are relative to
+  added: ContentChange[];
+  modified: ContentChange[];
+  removed: ContentChange[];
+  unchanged: number;
+}
+
+export interface ContentChange {
+  sectionId: string;
+  title: string;
+  url: string;
+  platform: ApplePlatform;
+  category: HIGCategory;
+  contentHash?: string;
+  previousContentHash?: string;
 }
 
 export type ApplePlatform = 
@@ -166,6 +267,64 @@ export interface SearchGuidelinesArgs {
   platform?: ApplePlatform;
   category?: HIGCategory;
   limit?: number;
+  fullContent?: boolean; // Return whole pages instead of the best passages
+  cursor?: string; // nextCursor of the previous page
+}
+
+export interface GetHIGSectionArgs {
+  section: string; // Section id, canonical Apple URL or title
+  platform?: ApplePlatform; // Disambiguates titles shared across platforms
+}
+
+export interface HIGSectionMetadata {
+  qualityScore?: number;
+  keywords: string[];
+  lastUpdated?: string;
+  contentLength?: number;
+  isFallback?: boolean;
+}
+
+export interface RelatedSection {
+  id: string;
+  title: string;
+  url: string;
+  platform: ApplePlatform;
+  relationshipType: 'related' | 'parent' | 'child' | 'see-also';
+  relevanceScore: number;
+}
+
+export interface HIGSectionDetail {
+  id: string;
+  title: string;
+  url: string;
+  platform: ApplePlatform;
+  category: HIGCategory;
+  content: string;
+  metadata: HIGSectionMetadata;
+  relatedSections: RelatedSection[];
+}
+
+export interface GetRelatedSectionsArgs {
+  section: string; // Section id, canonical Apple URL or title
+  depth?: number; // Hops to follow from the section (default 1, max 3)
+  relationshipTypes?: RelatedSection['relationshipType'][]; // Only follow these links
+  platform?: ApplePlatform; // Disambiguates the starting section's title
+  limit?: number;
+}
+
+/**
+ * A section reached by walking cross-references; relevanceScore is the product of the scores along the path
+ */
+export interface RelatedSectionNode extends RelatedSection {
+  depth: number;
+  via: string; // Id of the section this one was reached from
+}
+
+export interface RelatedSectionsResult {
+  section: { id: string; title: string; url: string };
+  depth: number;
+  related: RelatedSectionNode[];
+  total: number;
 }
 
 export interface GetComponentSpecArgs {
@@ -173,17 +332,143 @@ export interface GetComponentSpecArgs {
   platform?: ApplePlatform;
 }
 
+export interface ComponentSpecResult {
+  componentName: string;
+  sectionId: string;
+  title: string;
+  url: string;
+  platform: ApplePlatform;
+  specification: ComponentSpec | null;
+  note?: string;
+}
+
+export interface GetSpecificationTableArgs {
+  query?: string; // e.g. "tvOS app icon layout size"
+  section?: string;
+  platform?: ApplePlatform;
+  column?: string;
+}
+
+export interface SpecificationTableResult {
+  section: { id: string; title: string; url: string };
+  table: SpecificationTable; // Rows narrowed to the platform and row asked for
+  platform?: string;
+  column?: SpecificationColumn;
+  value?: string; // Set when the question narrows the table to a single cell
+}
+
 export interface ComparePlatformsArgs {
+  componentName: string;
+  platforms?: ApplePlatform[];
+}
+
+export interface ComparedSection {
+  id: string;
+  title: string;
+  url: string;
+  excerpt: string;
+}
+
+export interface PlatformGuidance {
+  platform: ApplePlatform;
+  sections: ComparedSection[];    // Platform-specific pages (e.g. macos-pop-up-buttons)
+  inlineGuidance: string | null;  // Platform paragraph inside the universal page
+}
+
+export interface PlatformComparison {
   componentName: string;
   platforms: ApplePlatform[];
+  universal: ComparedSection | null;
+  comparison: Partial<Record<ApplePlatform, PlatformGuidance>>;
+}
+
+export interface GetAccessibilityRequirementsArgs {
+  component: string;
+  platform: ApplePlatform;
+}
+
+export interface AccessibilityGuidanceItem {
+  text: string;
+  value?: string;      // Extracted value, e.g. "44 x 44 pt" or "4.5:1"
+  sectionId: string;
+  sourceUrl: string;
+}
+
+export interface AccessibilityRequirements {
+  component: string;
+  platform: ApplePlatform;
+  section: { id: string; title: string; url: string } | null;
+  requirements: {
+    minimumTouchTarget: AccessibilityGuidanceItem | null;
+    contrastRatio: AccessibilityGuidanceItem | null;
+    voiceOverSupport: AccessibilityGuidanceItem[];
+    keyboardNavigation: AccessibilityGuidanceItem[];
+    additionalGuidelines: AccessibilityGuidanceItem[];
+  };
 }
 
 export interface GetLatestUpdatesArgs {
   since?: string; // ISO date string
   platform?: ApplePlatform;
+  category?: HIGCategory;
   limit?: number;
 }
 
+export interface LatestUpdatesResult {
+  updates: HIGUpdate[];
+  total: number;
+  filters: {
+    since?: string;
+    platform?: ApplePlatform;
+    category?: HIGCategory;
+  };
+}
+
+export interface ListHIGSectionsArgs {
+  platform?: ApplePlatform;
+  category?: HIGCategory;
+  offset?: number;
+  limit?: number;
+}
+
+export interface HIGSectionListing {
+  id: string;
+  title: string;
+  url: string;
+  qualityScore?: number;
+  lastUpdated?: string;
+}
+
+export interface HIGFacetCount<T extends string> {
+  value: T;
+  count: number;
+}
+
+// One page of the table of contents, ordered by platform, category, then title
+export interface HIGTableOfContents {
+  platforms: Array<{
+    platform: ApplePlatform;
+    count: number;                  // Sections on this platform across all pages
+    categories: Array<{
+      category: HIGCategory;
+      count: number;                // Sections in this category across all pages
+      sections: HIGSectionListing[]; // Those on this page
+    }>;
+  }>;
+  facets: {
+    platforms: HIGFacetCount<ApplePlatform>[];
+    categories: HIGFacetCount<HIGCategory>[];
+  };
+  total: number;
+  offset: number;
+  limit: number;
+  nextOffset?: number;
+  filters: {
+    platform?: ApplePlatform;
+    category?: HIGCategory;
+  };
+}
+
 // Crawlee Integration Types
 export interface ContentQualityMetrics {
   score: number; // 0-1, where 1 is highest quality
@@ -219,13 +504,30 @@ export interface DiscoveredLink {
 
 export interface DiscoveryConfig {
   baseUrl: string;
-  maxDepth: number;
+  maxDepth: number; // Navigation levels, or sitemap index levels, below the base
   maxPages: number;
-  respectfulDelay: number;
+  respectfulDelay: number; // Milliseconds between requests
   cacheKey: string;
   cacheTTL: number;
 }
 
+// Where live discovery found the pages
+export type DiscoverySource = 'navigation-index' | 'sitemap';
+
+export interface LiveDiscoveryResult {
+  source: DiscoverySource;
+  links: DiscoveredLink[];
+  sections: HIGSection[];
+  truncated: boolean; // maxPages was reached, so pages may be missing
+}
+
+// Live discovery compared with the hard-coded section list, page by page (URL slug)
+export interface DiscoveryDiff {
+  added: HIGSection[]; // Pages Apple publishes that the list lacks
+  missing: HIGSection[]; // Listed sections the crawl didn't find
+  reclassified: Array<{ section: HIGSection; known: HIGSection }>; // Found under another platform or category
+}
+
 export interface ContentExtractionResult {
   content: string;
   quality: number;
@@ -333,6 +635,12 @@ export interface SemanticIndex {
   };
 }
 
+export interface PassageEmbedding {
+  passageId: string;
+  sectionId: string;
+  embedding: EmbeddingVector;
+}
+
 export interface SearchConfig {
   semanticWeight: number;     // Weight for semantic similarity (0-1)
   keywordWeight: number;      // Weight for keyword matching (0-1)
@@ -456,6 +764,15 @@ export interface GetTechnicalDocumentationArgs {
   includeCodeExamples?: boolean;
 }
 
+export interface SearchTechnicalArgs {
+  query: string;
+  framework?: string;
+  platform?: string;
+  symbolType?: string; // Symbol kind, e.g. "class", "struct", "protocol"
+  limit?: number;
+  cursor?: string; // nextCursor of the previous page
+}
+
 export interface SearchUnifiedArgs {
   query: string;
   searchType?: 'design' | 'technical' | 'both';
@@ -465,6 +782,7 @@ export interface SearchUnifiedArgs {
   symbolType?: string;
   includeImplementation?: boolean;
   limit?: number;
+  cursor?: string; // nextCursor of the previous page
 }
 
 